@@ -0,0 +1,161 @@
+// Stand-in for a self-hosted chat UI, for trying the self-hosted platform
+// adapter offline. Serves Open WebUI-shaped endpoints by default, or
+// LibreChat-shaped ones with FLAVOR=librechat.
+//
+//   PORT=8787 TOKEN=test-token FLAVOR=openwebui node scripts/mock-selfhosted.js
+//
+// Add a platform in the popup with base URL http://localhost:8787, the
+// matching preset and the token. Data lives in memory; restart to reset.
+
+const http = require('http')
+
+const PORT = Number(process.env.PORT) || 8787
+const TOKEN = process.env.TOKEN || 'test-token'
+const FLAVOR = process.env.FLAVOR === 'librechat' ? 'librechat' : 'openwebui'
+const PAGE_SIZE = 10
+const CONVERSATION_COUNT = 25
+
+// Seconds, like Open WebUI
+const now = Math.floor(Date.now() / 1000)
+
+const conversations = Array.from({ length: CONVERSATION_COUNT }, (_, i) => {
+  const created = now - (i + 1) * 3600
+  const model = i % 2 === 0 ? 'llama3.1:8b' : 'qwen2.5:14b'
+  return {
+    id: `chat-${String(i + 1).padStart(3, '0')}`,
+    title: `Sample conversation ${i + 1}`,
+    created,
+    updated: created + 600,
+    messages: [
+      { id: `msg-${i + 1}-1`, role: 'user', content: `Question number ${i + 1}: how do I reverse a list?`, timestamp: created },
+      {
+        id: `msg-${i + 1}-2`,
+        role: 'assistant',
+        content: 'Use slicing:\n\n```python\nitems[::-1]\n```\n\nor `items.reverse()` to do it in place.',
+        timestamp: created + 5,
+        model
+      }
+    ]
+  }
+})
+
+function sortedConversations() {
+  return [...conversations].sort((a, b) => b.updated - a.updated)
+}
+
+function toIso(seconds) {
+  return new Date(seconds * 1000).toISOString()
+}
+
+// ==================== Response shapes ====================
+
+const shapes = {
+  openwebui: {
+    listItem: c => ({ id: c.id, title: c.title, created_at: c.created, updated_at: c.updated }),
+    list: (items, page) => items.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE),
+    detail: c => ({
+      id: c.id,
+      title: c.title,
+      created_at: c.created,
+      updated_at: c.updated,
+      chat: { messages: c.messages }
+    })
+  },
+  librechat: {
+    listItem: c => ({ conversationId: c.id, title: c.title, createdAt: toIso(c.created), updatedAt: toIso(c.updated) }),
+    list: (items, page) => ({
+      conversations: items.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE),
+      pageNumber: page,
+      pages: Math.ceil(items.length / PAGE_SIZE)
+    }),
+    detail: c => c.messages.map(m => ({
+      messageId: m.id,
+      conversationId: c.id,
+      isCreatedByUser: m.role === 'user',
+      text: m.content,
+      createdAt: toIso(m.timestamp),
+      model: m.model || null
+    }))
+  }
+}
+
+// ==================== Server ====================
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(body === undefined ? '' : JSON.stringify(body))
+}
+
+function readBody(req) {
+  return new Promise(resolve => {
+    let data = ''
+    req.on('data', chunk => { data += chunk })
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : {})
+      } catch {
+        resolve({})
+      }
+    })
+  })
+}
+
+function removeConversation(id) {
+  const index = conversations.findIndex(c => c.id === id)
+  if (index === -1) return false
+  conversations.splice(index, 1)
+  return true
+}
+
+async function handle(req, res) {
+  const url = new URL(req.url, `http://localhost:${PORT}`)
+  const shape = shapes[FLAVOR]
+
+  if (req.headers.authorization !== `Bearer ${TOKEN}`) {
+    return send(res, 401, { detail: 'Not authenticated' })
+  }
+
+  if (FLAVOR === 'openwebui') {
+    if (req.method === 'GET' && url.pathname === '/api/v1/chats/') {
+      const page = Number(url.searchParams.get('page')) || 1
+      return send(res, 200, shape.list(sortedConversations().map(shape.listItem), page))
+    }
+
+    const match = url.pathname.match(/^\/api\/v1\/chats\/([^/]+)$/)
+    const conv = match && conversations.find(c => c.id === decodeURIComponent(match[1]))
+    if (match && req.method === 'GET') {
+      return conv ? send(res, 200, shape.detail(conv)) : send(res, 404, { detail: 'Not found' })
+    }
+    if (match && req.method === 'DELETE') {
+      return removeConversation(decodeURIComponent(match[1])) ? send(res, 200, true) : send(res, 404, { detail: 'Not found' })
+    }
+  } else {
+    if (req.method === 'GET' && url.pathname === '/api/convos') {
+      const page = Number(url.searchParams.get('pageNumber')) || 1
+      return send(res, 200, shape.list(sortedConversations().map(shape.listItem), page))
+    }
+    if (req.method === 'DELETE' && url.pathname === '/api/convos') {
+      const body = await readBody(req)
+      const id = body.arg && body.arg.conversationId
+      return removeConversation(id) ? send(res, 200, { deletedCount: 1 }) : send(res, 404, { message: 'Not found' })
+    }
+
+    const match = url.pathname.match(/^\/api\/messages\/([^/]+)$/)
+    const conv = match && conversations.find(c => c.id === decodeURIComponent(match[1]))
+    if (match && req.method === 'GET') {
+      return conv ? send(res, 200, shape.detail(conv)) : send(res, 404, { message: 'Not found' })
+    }
+  }
+
+  send(res, 404, { detail: 'Not found' })
+}
+
+http.createServer((req, res) => {
+  console.log(`${req.method} ${req.url}`)
+  handle(req, res).catch(err => {
+    console.error(err)
+    send(res, 500, { detail: 'Internal error' })
+  })
+}).listen(PORT, () => {
+  console.log(`Mock ${FLAVOR} server on http://localhost:${PORT} (token: ${TOKEN})`)
+})
@@ -1,3 +1,7 @@
+import { extractMessages } from '../platforms/chatgpt/adapter'
+import type { ChatGPTConversationDetail } from '../platforms/chatgpt/api'
+import { getActivePath } from '../platforms/branches'
+
 const API_BASE = 'https://chatgpt.com/backend-api'
 
 export interface Conversation {
@@ -74,39 +78,15 @@ export async function getConversation(
     throw new Error(`API error: ${response.status}`)
   }
 
-  const data = await response.json()
-
-  // Parse the conversation mapping to extract messages
-  const messages: Message[] = []
-  const mapping = data.mapping || {}
-
-  // Find messages in order (traverse the tree)
-  function extractMessages(nodeId: string | null) {
-    if (!nodeId || !mapping[nodeId]) return
-    const node = mapping[nodeId]
-    const msg = node.message
-    if (msg && msg.content && msg.content.parts && msg.author) {
-      const role = msg.author.role
-      if (role === 'user' || role === 'assistant') {
-        const content = msg.content.parts.join('')
-        if (content.trim()) {
-          messages.push({
-            id: msg.id,
-            role,
-            content
-          })
-        }
-      }
-    }
-    // Continue to children
-    if (node.children && node.children.length > 0) {
-      extractMessages(node.children[0])
-    }
-  }
+  const data = await response.json() as ChatGPTConversationDetail
 
-  // Find root and traverse
-  const rootId = Object.keys(mapping).find(id => !mapping[id].parent)
-  extractMessages(rootId || null)
+  // Share the tree walk with the platform adapter; this legacy shape is linear,
+  // so only the branch currently shown in ChatGPT is returned
+  const messages: Message[] = getActivePath(extractMessages(data)).map(m => ({
+    id: m.id,
+    role: m.role,
+    content: m.content
+  }))
 
   return {
     title: data.title || 'Untitled',
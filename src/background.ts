@@ -4,24 +4,77 @@
  */
 
 import { logger } from './utils/logger'
-import { getPlatform, getAllPlatformAdapters } from './platforms/registry'
+import { getPlatform, getAllPlatformAdapters, loadCustomPlatforms, registerCustomPlatforms } from './platforms/registry'
+import { CUSTOM_PLATFORMS_KEY, getCustomPlatformName, isCustomPlatform } from './platforms/custom/config'
+import type { CustomPlatformConfig } from './platforms/custom/config'
 import {
-  getCacheKey,
+  getStorageScope,
   getSyncProgressKey,
   getSyncErrorKey,
-  getBackupKey,
-  getContentIndexKey,
   getIndexProgressKey,
+  getActiveOrgKey,
+  getOrganizationsKey,
+  getLocalStarsKey,
+  getJobsKey,
+  DIAGNOSTICS_LOGS_KEY,
+  SCHEMA_DRIFT_KEY,
+  PREVIEW_CACHE_EXPIRY_MS,
+  PREVIEW_CACHE_MAX_ENTRIES,
   INDEX_CONFIG
 } from './platforms/types'
 import type {
   PlatformType,
+  PlatformAdapter,
   PlatformCache,
+  PlatformCacheMeta,
+  Backup,
+  SyncChanges,
   UnifiedConversation,
+  ConversationExport,
+  CrossPlatformExport,
+  ExportedConversation,
   ContentIndex,
-  IndexProgress
+  IndexProgress,
+  LocalStars,
+  PlatformJobs,
+  SyncJob,
+  DeleteJob
 } from './platforms/types'
-import { ErrorCode } from './errors'
+import { ErrorCode, PlatformError, toPlatformError, serializeError } from './errors'
+import { getMessageParts, hasPartType, partsToSearchText } from './platforms/parts'
+import { countModels } from './platforms/models'
+import { buildDocument } from './search/engine'
+import type { TextRange } from './search/engine'
+import { setRequestLogger, setDriftReporter } from './platforms/http'
+import { formatIssue } from './platforms/schema'
+import type { SchemaDriftReport } from './platforms/schema'
+import {
+  getConversation,
+  getNewestConversation,
+  putConversations,
+  deleteConversations,
+  deleteConversationsNotInRun,
+  getIndexEntries,
+  getIndexEntry,
+  countIndexEntries,
+  putIndexedDocument,
+  deleteIndexEntries,
+  trimIndexEntries,
+  getBackups,
+  putBackup,
+  deleteBackup,
+  evictPreviews
+} from './storage/db'
+import { readCache, readCacheMeta, saveCacheMeta, touchContentIndex } from './storage/cache'
+import { runMigrations, SCHEMA_VERSION } from './storage/migrate'
+import {
+  getStorageUsage,
+  getStorageQuotas,
+  getQuotaWarnings,
+  purgeStorage,
+  STORAGE_WARNING_RATIO
+} from './storage/usage'
+import type { StorageCategory } from './storage/usage'
 
 logger.log('background loaded')
 
@@ -39,7 +92,6 @@ export interface LogEntry {
   platform?: string
 }
 
-const DIAGNOSTICS_LOGS_KEY = 'diagnostics_logs'
 const MAX_LOG_ENTRIES = 50
 
 async function getDiagnosticsLogs(): Promise<LogEntry[]> {
@@ -80,45 +132,239 @@ async function diagLog(level: LogEntry['level'], action: string, details?: Parti
   }
 }
 
-// Sync state per platform
-const syncState: Record<PlatformType, { inProgress: boolean; aborted: boolean }> = {
-  chatgpt: { inProgress: false, aborted: false },
-  claude: { inProgress: false, aborted: false },
-  gemini: { inProgress: false, aborted: false }
+// Platform HTTP requests: failed attempts, retries and slow responses
+setRequestLogger(entry => {
+  const attempt = `attempt ${entry.attempt}`
+  diagLog(entry.error ? 'WARN' : 'INFO', entry.willRetry ? 'Request retrying' : entry.error ? 'Request failed' : 'Request completed', {
+    platform: entry.platform,
+    url: entry.endpoint,
+    status: entry.status,
+    duration: entry.duration,
+    message: entry.error ? `${entry.error.code}: ${entry.error.message} (${attempt})` : attempt
+  })
+})
+
+// ==================== Schema Drift Reports ====================
+
+const MAX_DRIFT_REPORTS = 10
+
+async function getDriftReports(): Promise<SchemaDriftReport[]> {
+  const result = await chrome.storage.local.get(SCHEMA_DRIFT_KEY)
+  return (result[SCHEMA_DRIFT_KEY] as SchemaDriftReport[] | undefined) || []
 }
 
-// Index state per platform
-const indexState: Record<PlatformType, { inProgress: boolean; aborted: boolean; timeoutId?: ReturnType<typeof setTimeout> }> = {
-  chatgpt: { inProgress: false, aborted: false },
-  claude: { inProgress: false, aborted: false },
-  gemini: { inProgress: false, aborted: false }
+/**
+ * Keep the latest report per endpoint; a drifted endpoint fails on every
+ * request, so older reports for it add nothing
+ */
+async function addDriftReport(report: SchemaDriftReport): Promise<void> {
+  const reports = (await getDriftReports())
+    .filter(r => r.platform !== report.platform || r.endpoint !== report.endpoint)
+  reports.push(report)
+  await chrome.storage.local.set({ [SCHEMA_DRIFT_KEY]: reports.slice(-MAX_DRIFT_REPORTS) })
+}
+
+setDriftReporter(report => {
+  addDriftReport(report)
+  diagLog('WARN', 'Schema drift', {
+    platform: report.platform,
+    url: report.endpoint,
+    message: report.issues.map(formatIssue).join('; ')
+  })
+})
+
+/**
+ * Per-platform state, created on first use so self-hosted platforms
+ * registered at runtime get their own
+ */
+function perPlatform<T>(init: () => T): (platform: PlatformType) => T {
+  const states = new Map<PlatformType, T>()
+  return platform => {
+    let state = states.get(platform)
+    if (!state) {
+      state = init()
+      states.set(platform, state)
+    }
+    return state
+  }
 }
 
+// Sync state per platform
+const syncState = perPlatform<{ inProgress: boolean; aborted: boolean }>(
+  () => ({ inProgress: false, aborted: false })
+)
+
+// Index state per platform
+const indexState = perPlatform<{ inProgress: boolean; aborted: boolean; timeoutId?: ReturnType<typeof setTimeout> }>(
+  () => ({ inProgress: false, aborted: false })
+)
+
 // Auto-sync configuration
 const AUTO_SYNC_CONFIG = {
-  interval: 30000,          // Check every 30 seconds
+  interval: 30000,          // Check every 30 seconds (the shortest alarm period Chrome allows)
   checkBatchSize: 10        // Only fetch latest 10 conversations for comparison
 }
 
-// Auto-sync state per platform
-const autoSyncState: Record<PlatformType, { timerId?: ReturnType<typeof setInterval>; active: boolean }> = {
-  chatgpt: { active: false },
-  claude: { active: false },
-  gemini: { active: false }
+// Priority queue for indexing (conversation IDs that user previewed)
+const priorityIndexQueue = perPlatform<string[]>(() => [])
+
+// Pending deletes - track IDs being deleted to prevent race conditions with sync
+const pendingDeletes = perPlatform(() => new Set<string>())
+
+// Pending edits - renames/stars not yet confirmed by the platform, kept over synced values
+type ConversationEdit = Partial<Pick<UnifiedConversation, 'title' | 'isStarred'>>
+
+const pendingEdits = perPlatform(() => new Map<string, ConversationEdit>())
+
+function addPendingEdit(platform: PlatformType, conversationId: string, edit: ConversationEdit) {
+  const edits = pendingEdits(platform)
+  edits.set(conversationId, { ...edits.get(conversationId), ...edit })
 }
 
-// Priority queue for indexing (conversation IDs that user previewed)
-const priorityIndexQueue: Record<PlatformType, string[]> = {
-  chatgpt: [],
-  claude: [],
-  gemini: []
+function clearPendingEdit(platform: PlatformType, conversationId: string, edit: ConversationEdit) {
+  const edits = pendingEdits(platform)
+  const current = edits.get(conversationId)
+  if (!current) return
+  for (const field of Object.keys(edit) as (keyof ConversationEdit)[]) {
+    delete current[field]
+  }
+  if (Object.keys(current).length === 0) edits.delete(conversationId)
 }
 
-// Pending deletes - track IDs being deleted to prevent race conditions with sync
-const pendingDeletes: Record<PlatformType, Set<string>> = {
-  chatgpt: new Set(),
-  claude: new Set(),
-  gemini: new Set()
+/**
+ * Overlay in-flight edits on freshly fetched conversations
+ */
+function applyPendingEdits(platform: PlatformType, conversations: UnifiedConversation[]): UnifiedConversation[] {
+  const edits = pendingEdits(platform)
+  if (edits.size === 0) return conversations
+  return conversations.map(c => edits.has(c.id) ? { ...c, ...edits.get(c.id) } : c)
+}
+
+/**
+ * Overlay locally kept stars (platforms without a star API)
+ */
+async function applyLocalStars(
+  platform: PlatformType,
+  orgId: string | null,
+  conversations: UnifiedConversation[]
+): Promise<UnifiedConversation[]> {
+  const adapter = getPlatform(platform)
+  if (adapter?.setStarred) return conversations
+
+  const key = getLocalStarsKey(platform, orgId)
+  const stored = await chrome.storage.local.get(key)
+  const stars = stored[key] as LocalStars | undefined
+  if (!stars) return conversations
+  return conversations.map(c => c.id in stars ? { ...c, isStarred: stars[c.id] } : c)
+}
+
+async function saveLocalStar(platform: PlatformType, orgId: string | null, conversationId: string, starred: boolean) {
+  const key = getLocalStarsKey(platform, orgId)
+  const stored = await chrome.storage.local.get(key)
+  const stars = (stored[key] as LocalStars | undefined) || {}
+  stars[conversationId] = starred
+  await chrome.storage.local.set({ [key]: stars })
+}
+
+// ==================== Persisted Jobs ====================
+// Chrome suspends the service worker after about 30 seconds without events,
+// and every in-memory state above goes with it. Running jobs are mirrored to
+// storage; a watchdog alarm wakes the worker to pick up interrupted ones.
+
+const JOBS_ALARM = 'resume-jobs'
+const JOBS_ALARM_PERIOD_MINUTES = 1
+const AUTO_SYNC_ALARM_PREFIX = 'auto-sync:'
+
+// Serialises read-modify-write of each platform's job record
+const jobsLock = perPlatform<{ chain: Promise<void> }>(() => ({ chain: Promise.resolve() }))
+
+async function getJobs(platform: PlatformType): Promise<PlatformJobs> {
+  const key = getJobsKey(platform)
+  const result = await chrome.storage.local.get(key)
+  return (result[key] as PlatformJobs | undefined) || {}
+}
+
+function hasJobs(jobs: PlatformJobs): boolean {
+  return !!(jobs.sync || jobs.index || jobs.deletes?.length)
+}
+
+/**
+ * Update a platform's persisted jobs; arms the watchdog while any remain
+ */
+function updateJobs(platform: PlatformType, update: (jobs: PlatformJobs) => void): Promise<void> {
+  const lock = jobsLock(platform)
+  const next = lock.chain.then(async () => {
+    const key = getJobsKey(platform)
+    const jobs = await getJobs(platform)
+    update(jobs)
+
+    if (hasJobs(jobs)) {
+      await chrome.storage.local.set({ [key]: jobs })
+      // Re-creating pushes the alarm back, so it only fires once the worker
+      // has gone quiet for a full period
+      await chrome.alarms.create(JOBS_ALARM, { periodInMinutes: JOBS_ALARM_PERIOD_MINUTES })
+    } else {
+      await chrome.storage.local.remove(key)
+    }
+  })
+  lock.chain = next.catch(err => logger.error(`[${platform}] Failed to persist jobs:`, err))
+  return next
+}
+
+/**
+ * Progress left behind by a worker that stopped mid-job would show a sync
+ * or indexing run that no longer exists
+ */
+async function clearStaleProgress(platform: PlatformType, jobs: PlatformJobs) {
+  const orgId = await getStoredOrg(platform)
+  if (!jobs.sync) {
+    await chrome.storage.local.remove(getSyncProgressKey(platform, orgId))
+  }
+  if (!jobs.index) {
+    const progress = await getIndexProgress(platform, orgId)
+    if (progress?.inProgress) {
+      await saveIndexProgress(platform, orgId, { ...progress, inProgress: false, pausedUntil: undefined })
+    }
+  }
+}
+
+/**
+ * Pick up jobs a suspended worker left unfinished. Runs when the worker
+ * starts and on every watchdog alarm; jobs this worker is already running
+ * are left alone.
+ */
+async function resumeJobs(startup = false) {
+  let remaining = false
+
+  for (const adapter of getAllPlatformAdapters()) {
+    const platform = adapter.name
+    const jobs = await getJobs(platform)
+    if (startup) await clearStaleProgress(platform, jobs)
+    if (!hasJobs(jobs)) continue
+    remaining = true
+
+    if (jobs.sync && !syncState(platform).inProgress) {
+      diagLog('INFO', 'Sync resumed', {
+        platform,
+        message: `${jobs.sync.mode} sync from offset ${jobs.sync.offset}`
+      })
+      startSync(platform, true, jobs.sync.mode, jobs.sync)
+    }
+
+    const indexJob = jobs.index
+    if (indexJob && !indexState(platform).inProgress && (indexJob.pausedUntil || 0) <= Date.now()) {
+      const queue = priorityIndexQueue(platform)
+      queue.push(...indexJob.priority.filter(id => !queue.includes(id)))
+      diagLog('INFO', 'Content indexing resumed', { platform })
+      startContentIndexing(platform)
+    }
+
+    for (const job of jobs.deletes || []) {
+      if (!pendingDeletes(platform).has(job.id)) resumeDelete(platform, job)
+    }
+  }
+
+  if (!remaining) await chrome.alarms.clear(JOBS_ALARM)
 }
 
 // Sync constants
@@ -126,6 +372,13 @@ const SYNC_BATCH_SIZE = 50
 const SYNC_DELAY_MS = 300
 // Cache is considered fresh for 24 hours - auto-sync handles incremental updates
 const CACHE_FRESHNESS_MS = 24 * 60 * 60 * 1000 // 24 hours
+// Delta sync stops after this many conversations in a row match the cache
+const DELTA_UNCHANGED_RUN = 10
+// Delta syncs can't see remote deletions that leave the count unchanged
+// (one deleted, one created); a full pass at least this often catches them
+const RECONCILE_INTERVAL_MS = 24 * 60 * 60 * 1000
+
+type SyncMode = 'full' | 'delta'
 
 // Helper function for delay
 function sleep(ms: number): Promise<void> {
@@ -151,33 +404,72 @@ async function storeToken(platform: PlatformType, token: string): Promise<void>
   await chrome.storage.session.set({ [`${platform}_token`]: token })
 }
 
+/**
+ * Get the selected organization for a platform
+ */
+async function getStoredOrg(platform: PlatformType): Promise<string | null> {
+  const result = await chrome.storage.local.get(getActiveOrgKey(platform))
+  return (result[getActiveOrgKey(platform)] as string | undefined) || null
+}
+
+/**
+ * Store the selected organization for a platform
+ */
+async function storeOrg(platform: PlatformType, orgId: string): Promise<void> {
+  await chrome.storage.local.set({ [getActiveOrgKey(platform)]: orgId })
+}
+
+/**
+ * Resolve the organization that API calls and storage keys are scoped to.
+ * Restores the user's choice into the adapter; without one, persists the
+ * adapter's default. Returns null for platforms without organizations.
+ */
+async function resolveOrg(platform: PlatformType, adapter: PlatformAdapter): Promise<string | null> {
+  if (!adapter.setOrganization) return null
+
+  const stored = await getStoredOrg(platform)
+  if (stored) {
+    adapter.setOrganization(stored)
+    return stored
+  }
+
+  let orgId = adapter.getOrganization?.() || null
+  if (!orgId && adapter.getOrganizations) {
+    const orgs = await adapter.getOrganizations()
+    orgId = orgs[0]?.id || null
+  }
+
+  if (orgId) {
+    adapter.setOrganization(orgId)
+    await storeOrg(platform, orgId)
+  }
+  return orgId
+}
+
 // ==================== Content Indexing System ====================
 
 /**
  * Get content index from storage
  */
-async function getContentIndex(platform: PlatformType): Promise<ContentIndex> {
-  return new Promise((resolve) => {
-    chrome.storage.local.get([getContentIndexKey(platform)], (result) => {
-      resolve((result[getContentIndexKey(platform)] as ContentIndex) || {})
-    })
-  })
+async function getContentIndex(platform: PlatformType, orgId: string | null): Promise<ContentIndex> {
+  return getIndexEntries(getStorageScope(platform, orgId))
 }
 
 /**
- * Save content index to storage
+ * Number of indexed conversations, without loading their text
  */
-async function saveContentIndex(platform: PlatformType, index: ContentIndex): Promise<void> {
-  await chrome.storage.local.set({ [getContentIndexKey(platform)]: index })
+async function countIndexed(platform: PlatformType, orgId: string | null): Promise<number> {
+  return countIndexEntries(getStorageScope(platform, orgId))
 }
 
 /**
  * Get index progress from storage
  */
-async function getIndexProgress(platform: PlatformType): Promise<IndexProgress | null> {
+async function getIndexProgress(platform: PlatformType, orgId: string | null): Promise<IndexProgress | null> {
+  const key = getIndexProgressKey(platform, orgId)
   return new Promise((resolve) => {
-    chrome.storage.local.get([getIndexProgressKey(platform)], (result) => {
-      resolve((result[getIndexProgressKey(platform)] as IndexProgress) || null)
+    chrome.storage.local.get([key], (result) => {
+      resolve((result[key] as IndexProgress) || null)
     })
   })
 }
@@ -185,15 +477,15 @@ async function getIndexProgress(platform: PlatformType): Promise<IndexProgress |
 /**
  * Save index progress to storage
  */
-async function saveIndexProgress(platform: PlatformType, progress: IndexProgress): Promise<void> {
-  await chrome.storage.local.set({ [getIndexProgressKey(platform)]: progress })
+async function saveIndexProgress(platform: PlatformType, orgId: string | null, progress: IndexProgress): Promise<void> {
+  await chrome.storage.local.set({ [getIndexProgressKey(platform, orgId)]: progress })
 }
 
 /**
  * Add conversation to priority index queue (for user previews)
  */
 function addToPriorityQueue(platform: PlatformType, conversationId: string) {
-  const queue = priorityIndexQueue[platform]
+  const queue = priorityIndexQueue(platform)
   if (!queue.includes(conversationId)) {
     queue.unshift(conversationId) // Add to front
   }
@@ -202,7 +494,7 @@ function addToPriorityQueue(platform: PlatformType, conversationId: string) {
 /**
  * Index a single conversation
  */
-async function indexConversation(platform: PlatformType, conversationId: string): Promise<boolean> {
+async function indexConversation(platform: PlatformType, orgId: string | null, conversationId: string): Promise<boolean> {
   const adapter = getPlatform(platform)
   if (!adapter) return false
 
@@ -210,47 +502,47 @@ async function indexConversation(platform: PlatformType, conversationId: string)
   if (storedToken) {
     adapter.setToken(storedToken)
   }
+  if (orgId) {
+    adapter.setOrganization?.(orgId)
+  }
 
   try {
     const messages = await adapter.getConversationDetail(conversationId)
 
-    // Concatenate all message content
-    let contentText = messages
-      .map(m => m.content)
-      .join(' ')
-      .replace(/\s+/g, ' ')
-      .trim()
+    // Concatenate all searchable text (prose, code, tool I/O, attachment names),
+    // noting where the user's messages are for role: searches
+    let contentText = ''
+    const userRanges: TextRange[] = []
+    for (const message of messages) {
+      const text = partsToSearchText(getMessageParts(message)).replace(/\s+/g, ' ').trim()
+      if (!text) continue
+      if (contentText) contentText += ' '
+      if (message.role === 'user') userRanges.push([contentText.length, contentText.length + text.length])
+      contentText += text
+    }
 
     // Limit to max length
     if (contentText.length > INDEX_CONFIG.maxContentLength) {
       contentText = contentText.substring(0, INDEX_CONFIG.maxContentLength)
     }
 
-    // Save to index
-    const index = await getContentIndex(platform)
-    index[conversationId] = {
-      contentText,
-      indexedAt: Date.now()
-    }
+    // Save to index, replacing the conversation's previous postings
+    const scope = getStorageScope(platform, orgId)
+    const models = countModels(messages)
+    const { length, terms } = buildDocument(contentText, userRanges)
+    await putIndexedDocument(scope, conversationId, {
+      indexedAt: Date.now(),
+      length,
+      hasCode: messages.some(m => hasPartType(m, 'code')) || undefined,
+      models: Object.keys(models).length > 0 ? models : undefined
+    }, contentText, terms)
 
     // Enforce max indexed conversations (remove oldest)
-    const entries = Object.entries(index)
-    if (entries.length > INDEX_CONFIG.maxIndexedConversations) {
-      entries.sort((a, b) => a[1].indexedAt - b[1].indexedAt)
-      const toRemove = entries.slice(0, entries.length - INDEX_CONFIG.maxIndexedConversations)
-      for (const [id] of toRemove) {
-        delete index[id]
-      }
-    }
-
-    await saveContentIndex(platform, index)
+    await trimIndexEntries(scope, INDEX_CONFIG.maxIndexedConversations)
+    await touchContentIndex(platform, orgId)
     return true
   } catch (err) {
-    const errorMsg = String(err)
-    if (errorMsg.includes('429')) {
-      throw new Error('RATE_LIMITED')
-    }
-    throw err
+    throw toPlatformError(err, { platform })
   }
 }
 
@@ -258,33 +550,53 @@ async function indexConversation(platform: PlatformType, conversationId: string)
  * Start background content indexing
  */
 async function startContentIndexing(platform: PlatformType) {
-  const state = indexState[platform]
+  const state = indexState(platform)
 
   if (state.inProgress) {
     logger.log(`[${platform}] Indexing already in progress`)
     return
   }
 
+  const adapter = getPlatform(platform)
+  if (!adapter) return
+
+  // Claimed before the first await so a second start (resume on wake,
+  // preview priority) can't run a parallel loop
+  state.inProgress = true
+  state.aborted = false
+
+  let orgId: string | null
+  try {
+    orgId = await resolveOrg(platform, adapter)
+  } catch (err) {
+    logger.error(`[${platform}] Indexing: failed to resolve organization:`, err)
+    state.inProgress = false
+    return
+  }
+
   // Get cached conversations
-  const cached = await chrome.storage.local.get(getCacheKey(platform))
-  const cache = cached[getCacheKey(platform)] as PlatformCache | undefined
+  const cache = await readCache(platform, orgId)
 
   if (!cache?.conversations?.length) {
     logger.log(`[${platform}] No conversations to index`)
+    state.inProgress = false
+    await updateJobs(platform, jobs => { delete jobs.index })
     return
   }
 
   const conversations = cache.conversations
-  const contentIndex = await getContentIndex(platform)
+  const contentIndex = await getContentIndex(platform, orgId)
 
-  // Find conversations that need indexing (not already indexed)
+  // Find conversations that need indexing (new, or updated since indexed)
   const needsIndexing = conversations
-    .filter(c => !contentIndex[c.id])
+    .filter(c => !contentIndex[c.id] || contentIndex[c.id].indexedAt < c.updateTime)
     .sort((a, b) => b.updateTime - a.updateTime) // Newest first
 
   if (needsIndexing.length === 0) {
     logger.log(`[${platform}] All conversations already indexed`)
-    await saveIndexProgress(platform, {
+    state.inProgress = false
+    await updateJobs(platform, jobs => { delete jobs.index })
+    await saveIndexProgress(platform, orgId, {
       indexed: Object.keys(contentIndex).length,
       total: conversations.length,
       inProgress: false
@@ -292,16 +604,13 @@ async function startContentIndexing(platform: PlatformType) {
     return
   }
 
-  state.inProgress = true
-  state.aborted = false
-
   diagLog('INFO', 'Content indexing started', {
     platform,
     message: `${needsIndexing.length} conversations to index`
   })
 
   // Start indexing loop
-  indexNextConversation(platform, needsIndexing, 0)
+  indexNextConversation(platform, orgId, needsIndexing, 0)
 }
 
 /**
@@ -309,41 +618,42 @@ async function startContentIndexing(platform: PlatformType) {
  */
 async function indexNextConversation(
   platform: PlatformType,
+  orgId: string | null,
   queue: UnifiedConversation[],
   currentIndex: number
 ) {
-  const state = indexState[platform]
+  const state = indexState(platform)
 
   if (state.aborted || currentIndex >= queue.length) {
     state.inProgress = false
-    const index = await getContentIndex(platform)
-    const cached = await chrome.storage.local.get(getCacheKey(platform))
-    const cache = cached[getCacheKey(platform)] as PlatformCache | undefined
+    await updateJobs(platform, jobs => { delete jobs.index })
+    const indexed = await countIndexed(platform, orgId)
+    const meta = await readCacheMeta(platform, orgId)
 
-    await saveIndexProgress(platform, {
-      indexed: Object.keys(index).length,
-      total: cache?.conversations?.length || 0,
+    await saveIndexProgress(platform, orgId, {
+      indexed,
+      total: meta?.totalCount || 0,
       inProgress: false
     })
 
     if (!state.aborted) {
       diagLog('INFO', 'Content indexing completed', {
         platform,
-        message: `${Object.keys(index).length} conversations indexed`
+        message: `${indexed} conversations indexed`
       })
     }
     return
   }
 
   // Check priority queue first
-  const priorityId = priorityIndexQueue[platform].shift()
+  const priorityId = priorityIndexQueue(platform).shift()
   let conversationId: string
   let skipIndex = false
 
   if (priorityId) {
     // Check if priority item needs indexing
-    const index = await getContentIndex(platform)
-    if (!index[priorityId]) {
+    const entry = await getIndexEntry(getStorageScope(platform, orgId), priorityId)
+    if (!entry) {
       conversationId = priorityId
       skipIndex = true // Don't advance the queue index
     } else {
@@ -354,32 +664,34 @@ async function indexNextConversation(
   }
 
   // Update progress
-  const cached = await chrome.storage.local.get(getCacheKey(platform))
-  const cache = cached[getCacheKey(platform)] as PlatformCache | undefined
-  const index = await getContentIndex(platform)
+  const meta = await readCacheMeta(platform, orgId)
 
-  await saveIndexProgress(platform, {
-    indexed: Object.keys(index).length,
-    total: cache?.conversations?.length || 0,
+  await saveIndexProgress(platform, orgId, {
+    indexed: await countIndexed(platform, orgId),
+    total: meta?.totalCount || 0,
     inProgress: true,
     currentId: conversationId
   })
+  await updateJobs(platform, jobs => {
+    if (!state.aborted) jobs.index = { orgId, priority: [...priorityIndexQueue(platform)] }
+  })
 
   try {
-    await indexConversation(platform, conversationId)
+    await indexConversation(platform, orgId, conversationId)
     logger.log(`[${platform}] Indexed conversation ${conversationId.slice(0, 8)}...`)
 
     // Schedule next
     state.timeoutId = setTimeout(() => {
-      indexNextConversation(platform, queue, skipIndex ? currentIndex : currentIndex + 1)
+      indexNextConversation(platform, orgId, queue, skipIndex ? currentIndex : currentIndex + 1)
     }, INDEX_CONFIG.requestInterval)
 
   } catch (err) {
-    const errorMsg = String(err)
+    const error = toPlatformError(err, { platform })
     let pauseTime = INDEX_CONFIG.pauseOnError
 
-    if (errorMsg.includes('RATE_LIMITED') || errorMsg.includes('429')) {
-      pauseTime = INDEX_CONFIG.pauseOn429
+    if (error.code === ErrorCode.RATE_LIMITED) {
+      // Honour Retry-After when the platform sends one
+      pauseTime = error.retryAfter ? error.retryAfter * 1000 : INDEX_CONFIG.pauseOn429
       diagLog('WARN', 'Indexing rate limited', {
         platform,
         message: `Pausing for ${pauseTime / 1000}s`
@@ -387,21 +699,27 @@ async function indexNextConversation(
     } else {
       diagLog('WARN', 'Indexing error', {
         platform,
-        message: errorMsg
+        status: error.status,
+        message: error.toString()
       })
     }
 
     // Update progress with pause info
-    await saveIndexProgress(platform, {
-      indexed: Object.keys(index).length,
-      total: cache?.conversations?.length || 0,
+    const pausedUntil = Date.now() + pauseTime
+    await saveIndexProgress(platform, orgId, {
+      indexed: await countIndexed(platform, orgId),
+      total: meta?.totalCount || 0,
       inProgress: true,
-      pausedUntil: Date.now() + pauseTime
+      pausedUntil
+    })
+    // A worker suspended during the pause resumes once it's over
+    await updateJobs(platform, jobs => {
+      if (!state.aborted) jobs.index = { orgId, priority: [...priorityIndexQueue(platform)], pausedUntil }
     })
 
     // Resume after pause
     state.timeoutId = setTimeout(() => {
-      indexNextConversation(platform, queue, skipIndex ? currentIndex : currentIndex + 1)
+      indexNextConversation(platform, orgId, queue, skipIndex ? currentIndex : currentIndex + 1)
     }, pauseTime)
   }
 }
@@ -410,13 +728,14 @@ async function indexNextConversation(
  * Stop content indexing
  */
 function stopContentIndexing(platform: PlatformType) {
-  const state = indexState[platform]
+  const state = indexState(platform)
   state.aborted = true
   if (state.timeoutId) {
     clearTimeout(state.timeoutId)
     state.timeoutId = undefined
   }
   state.inProgress = false
+  updateJobs(platform, jobs => { delete jobs.index })
   logger.log(`[${platform}] Indexing stopped`)
 }
 
@@ -428,31 +747,38 @@ function stopContentIndexing(platform: PlatformType) {
  */
 async function checkForNewConversations(platform: PlatformType): Promise<boolean> {
   // Skip if sync or indexing is already in progress
-  if (syncState[platform].inProgress) {
+  if (syncState(platform).inProgress) {
     logger.log(`[${platform}] Auto-sync: Skipping, sync already in progress`)
     return false
   }
-  if (indexState[platform].inProgress) {
+  if (indexState(platform).inProgress) {
     logger.log(`[${platform}] Auto-sync: Skipping, indexing in progress`)
     return false
   }
   // Skip if there are pending deletes to avoid race conditions
-  if (pendingDeletes[platform].size > 0) {
-    logger.log(`[${platform}] Auto-sync: Skipping, ${pendingDeletes[platform].size} pending deletes`)
+  if (pendingDeletes(platform).size > 0) {
+    logger.log(`[${platform}] Auto-sync: Skipping, ${pendingDeletes(platform).size} pending deletes`)
+    return false
+  }
+  if (pendingEdits(platform).size > 0) {
+    logger.log(`[${platform}] Auto-sync: Skipping, ${pendingEdits(platform).size} pending edits`)
     return false
   }
 
   const adapter = getPlatform(platform)
   if (!adapter) return false
 
+  // Self-hosted platforms carry their credentials in their config
   const storedToken = await getStoredToken(platform)
-  if (!storedToken) {
+  if (!storedToken && !isCustomPlatform(platform)) {
     logger.log(`[${platform}] Auto-sync: No token, skipping`)
     return false
   }
-  adapter.setToken(storedToken)
+  if (storedToken) adapter.setToken(storedToken)
 
   try {
+    const orgId = await resolveOrg(platform, adapter)
+
     // Only fetch latest conversations for comparison
     const latest = await adapter.getConversations(0, AUTO_SYNC_CONFIG.checkBatchSize)
 
@@ -461,35 +787,40 @@ async function checkForNewConversations(platform: PlatformType): Promise<boolean
     }
 
     // Filter out pending deletes from latest to avoid false positives
-    const pending = pendingDeletes[platform]
+    const pending = pendingDeletes(platform)
     const filteredLatest = pending.size > 0
       ? latest.conversations.filter(c => !pending.has(c.id))
       : latest.conversations
 
     // Get cached conversations
-    const cached = await chrome.storage.local.get(getCacheKey(platform))
-    const cache = cached[getCacheKey(platform)] as PlatformCache | undefined
+    const cache = await readCacheMeta(platform, orgId)
+    const cachedConv = await getNewestConversation(getStorageScope(platform, orgId))
 
-    if (!cache?.conversations?.length) {
+    if (!cache || !cachedConv) {
       // No cache, need full sync
       logger.log(`[${platform}] Auto-sync: No cache, triggering full sync`)
       startSync(platform, true)
       return true
     }
 
+    if (isReconcileDue(cache)) {
+      logger.log(`[${platform}] Auto-sync: Reconciliation due`)
+      startSync(platform, true)
+      return true
+    }
+
     if (filteredLatest.length === 0) {
       return false
     }
 
     const latestConv = filteredLatest[0]
-    const cachedConv = cache.conversations[0]
 
     // Check if there's a new conversation or update
     const hasNew = latestConv.id !== cachedConv.id
     const hasUpdate = latestConv.updateTime > cachedConv.updateTime
-    // Adjust count comparison to account for pending deletes
-    const expectedCount = latest.total - pending.size
-    const countChanged = expectedCount !== cache.totalCount
+    // Adjust count comparison to account for pending deletes; platforms
+    // that don't report a total can't be compared
+    const countChanged = latest.total !== null && latest.total - pending.size !== cache.totalCount
 
     if (hasNew || hasUpdate || countChanged) {
       logger.log(`[${platform}] Auto-sync: Changes detected (new=${hasNew}, update=${hasUpdate}, count=${countChanged})`)
@@ -497,7 +828,10 @@ async function checkForNewConversations(platform: PlatformType): Promise<boolean
         platform,
         message: `new=${hasNew}, update=${hasUpdate}, count=${countChanged}`
       })
-      startSync(platform, true)
+      // New or updated conversations surface at the top of the list, so a
+      // delta reaches them; a count change alone means something further down
+      // was deleted, which only a full pass can find
+      startSync(platform, true, hasNew || hasUpdate ? 'delta' : 'full')
       return true
     }
 
@@ -509,63 +843,309 @@ async function checkForNewConversations(platform: PlatformType): Promise<boolean
   }
 }
 
+function getAutoSyncAlarmName(platform: PlatformType): string {
+  return `${AUTO_SYNC_ALARM_PREFIX}${platform}`
+}
+
 /**
  * Start auto-sync for a platform
+ * An alarm rather than a timer, so the checks outlive worker suspension
  */
-function startAutoSync(platform: PlatformType) {
-  const state = autoSyncState[platform]
-
-  // Stop existing timer if any
-  stopAutoSync(platform)
-
-  state.active = true
+async function startAutoSync(platform: PlatformType) {
+  await chrome.alarms.create(getAutoSyncAlarmName(platform), {
+    periodInMinutes: AUTO_SYNC_CONFIG.interval / 60000
+  })
   logger.log(`[${platform}] Auto-sync started (interval: ${AUTO_SYNC_CONFIG.interval}ms)`)
 
   // Check immediately
   checkForNewConversations(platform)
-
-  // Then check periodically
-  state.timerId = setInterval(() => {
-    if (state.active) {
-      checkForNewConversations(platform)
-    }
-  }, AUTO_SYNC_CONFIG.interval)
 }
 
 /**
  * Stop auto-sync for a platform
  */
-function stopAutoSync(platform: PlatformType) {
-  const state = autoSyncState[platform]
+async function stopAutoSync(platform: PlatformType) {
+  await chrome.alarms.clear(getAutoSyncAlarmName(platform))
+  logger.log(`[${platform}] Auto-sync stopped`)
+}
+
+async function isAutoSyncActive(platform: PlatformType): Promise<boolean> {
+  return !!(await chrome.alarms.get(getAutoSyncAlarmName(platform)))
+}
+
+/**
+ * Stop all auto-sync alarms
+ */
+async function stopAllAutoSync() {
+  const alarms = await chrome.alarms.getAll()
+  await Promise.all(alarms
+    .filter(alarm => alarm.name.startsWith(AUTO_SYNC_ALARM_PREFIX))
+    .map(alarm => chrome.alarms.clear(alarm.name)))
+}
 
-  if (state.timerId) {
-    clearInterval(state.timerId)
-    state.timerId = undefined
+/**
+ * Auto-sync alarm tick. The popup stops auto-sync when it closes; if that
+ * message got lost the alarm would keep firing, so it also stops once no
+ * popup is open.
+ */
+async function runAutoSyncAlarm(platform: PlatformType) {
+  const popups = await chrome.runtime.getContexts({ contextTypes: ['POPUP'] })
+  if (popups.length === 0 || !getPlatform(platform)) {
+    await stopAutoSync(platform)
+    return
   }
-  state.active = false
-  logger.log(`[${platform}] Auto-sync stopped`)
+  checkForNewConversations(platform)
 }
 
 /**
- * Stop all auto-sync timers
+ * Write synced conversations into the cache, keeping in-flight deletes,
+ * edits and local stars applied
+ * @param syncRun - id of the full sync that fetched them
  */
-function stopAllAutoSync() {
-  const platforms: PlatformType[] = ['chatgpt', 'claude', 'gemini']
-  for (const platform of platforms) {
-    stopAutoSync(platform)
+async function saveSyncedCache(
+  platform: PlatformType,
+  orgId: string | null,
+  conversations: UnifiedConversation[],
+  fields: Omit<PlatformCacheMeta, 'totalCount' | 'lastSyncTime' | 'revision'>,
+  syncRun?: number
+): Promise<void> {
+  const scope = getStorageScope(platform, orgId)
+  const pending = pendingDeletes(platform)
+  const filtered = await applyLocalStars(platform, orgId, applyPendingEdits(platform, pending.size > 0
+    ? conversations.filter(c => !pending.has(c.id))
+    : conversations))
+
+  await putConversations(scope, filtered, syncRun)
+  if (pending.size > 0) await deleteConversations(scope, [...pending])
+  await saveCacheMeta(platform, orgId, { ...fields, lastSyncTime: Date.now() })
+}
+
+function isUnchanged(cached: UnifiedConversation | undefined, conv: UnifiedConversation): boolean {
+  return !!cached && cached.updateTime === conv.updateTime && cached.title === conv.title
+}
+
+/**
+ * New and changed conversations among the fetched ones
+ */
+function diffConversations(
+  cachedById: Map<string, UnifiedConversation>,
+  fetched: UnifiedConversation[]
+): Pick<SyncChanges, 'added' | 'updated'> {
+  return {
+    added: fetched.filter(c => !cachedById.has(c.id)).map(c => c.id),
+    updated: fetched.filter(c => cachedById.has(c.id) && !isUnchanged(cachedById.get(c.id), c)).map(c => c.id)
   }
 }
 
+function isReconcileDue(cache: PlatformCacheMeta): boolean {
+  return Date.now() - (cache.lastReconcileTime || 0) > RECONCILE_INTERVAL_MS
+}
+
+function describeChanges(changes: SyncChanges): string {
+  return `${changes.mode}: +${changes.added.length} ~${changes.updated.length} -${changes.removed.length} in ${changes.requests} requests`
+}
+
+/**
+ * Page through the whole list, writing each page into the cache as it
+ * arrives. Conversations are tagged with the run; once the last page is in,
+ * the ones the run didn't see are gone from the platform.
+ * @param syncRun - id of this run; a resumed sync keeps the original one
+ * @param startOffset - where an interrupted sync stopped; its pages are
+ *   already in the cache
+ */
+async function runFullSync(
+  platform: PlatformType,
+  adapter: PlatformAdapter,
+  orgId: string | null,
+  previousCache: PlatformCache | undefined,
+  syncRun: number,
+  startOffset = 0
+): Promise<SyncChanges | null> {
+  const state = syncState(platform)
+  const cachedById = new Map((previousCache?.conversations || []).map(c => [c.id, c]))
+  const added: string[] = []
+  const updated: string[] = []
+  let offset = startOffset
+  let totalCount = 0
+  let requests = 0
+
+  // Client-paginated platforms fetch the whole list anyway; take it in one page
+  // rather than re-slicing it with a delay between slices
+  const limit = adapter.capabilities.serverPagination ? SYNC_BATCH_SIZE : Number.MAX_SAFE_INTEGER
+
+  while (!state.aborted) {
+    logger.log(`[${platform}] Fetching: offset=${offset}, limit=${limit}`)
+
+    const result = await adapter.getConversations(offset, limit)
+    requests++
+
+    if (!result?.conversations) {
+      throw new PlatformError(ErrorCode.API_CHANGED, 'Conversation list missing from response', { platform })
+    }
+
+    // Conversations created since an interrupted sync shift the offsets, so
+    // a page may repeat some of the previous one; rewriting them is harmless
+    const pageChanges = diffConversations(cachedById, result.conversations)
+    added.push(...pageChanges.added)
+    updated.push(...pageChanges.updated)
+    const loaded = offset + result.conversations.length
+    totalCount = result.total || loaded
+
+    logger.log(`[${platform}] Fetched ${loaded}/${totalCount}`)
+
+    if (!result.hasMore) {
+      await saveSyncedCache(platform, orgId, result.conversations, { syncComplete: false }, syncRun)
+      const removed = await deleteConversationsNotInRun(getStorageScope(platform, orgId), syncRun)
+      const changes: SyncChanges = {
+        mode: 'full',
+        timestamp: Date.now(),
+        added: [...new Set(added)],
+        updated: [...new Set(updated)],
+        removed,
+        requests
+      }
+      await saveCacheMeta(platform, orgId, {
+        syncComplete: true,
+        lastReconcileTime: Date.now(),
+        lastChanges: changes
+      })
+      return changes
+    }
+
+    // Save progress to storage
+    await saveSyncedCache(platform, orgId, result.conversations, { syncComplete: false }, syncRun)
+    await chrome.storage.local.set({
+      [getSyncProgressKey(platform, orgId)]: {
+        loaded,
+        total: totalCount,
+        inProgress: true
+      }
+    })
+
+    offset += limit
+    await updateJobs(platform, jobs => {
+      if (jobs.sync) jobs.sync.offset = offset
+    })
+    await sleep(SYNC_DELAY_MS)
+  }
+
+  return null
+}
+
+/**
+ * Fetch from the newest conversation until DELTA_UNCHANGED_RUN conversations
+ * in a row match the cache, then write only what changed.
+ * Returns null when aborted, or when the merged count disagrees with the
+ * platform's total so that only a full pass can settle it.
+ */
+async function runDeltaSync(
+  platform: PlatformType,
+  adapter: PlatformAdapter,
+  orgId: string | null,
+  cache: PlatformCache
+): Promise<SyncChanges | null> {
+  const state = syncState(platform)
+  const cachedById = new Map(cache.conversations.map(c => [c.id, c]))
+  const fetched: UnifiedConversation[] = []
+  let offset = 0
+  let total: number | null = null
+  let requests = 0
+  let unchangedRun = 0
+  let complete = false
+
+  const limit = adapter.capabilities.serverPagination ? SYNC_BATCH_SIZE : Number.MAX_SAFE_INTEGER
+
+  while (!state.aborted) {
+    const result = await adapter.getConversations(offset, limit)
+    requests++
+
+    if (!result?.conversations) {
+      throw new PlatformError(ErrorCode.API_CHANGED, 'Conversation list missing from response', { platform })
+    }
+
+    for (const conv of result.conversations) {
+      fetched.push(conv)
+      unchangedRun = isUnchanged(cachedById.get(conv.id), conv) ? unchangedRun + 1 : 0
+    }
+    total = result.total
+
+    if (!result.hasMore) {
+      complete = true
+      break
+    }
+    if (unchangedRun >= DELTA_UNCHANGED_RUN) break
+
+    offset += limit
+    await sleep(SYNC_DELAY_MS)
+  }
+
+  if (state.aborted) return null
+
+  // The list is newest-first, so a cached conversation newer than the oldest
+  // fetched one would have been on the pages; if it wasn't, it was deleted
+  const fetchedIds = new Set(fetched.map(c => c.id))
+  const oldestFetched = fetched.length > 0 ? fetched[fetched.length - 1].updateTime : 0
+  const removed = cache.conversations
+    .filter(c => !fetchedIds.has(c.id) && (complete || c.updateTime > oldestFetched))
+    .map(c => c.id)
+
+  const { added, updated } = diffConversations(cachedById, fetched)
+  const mergedCount = cache.conversations.length + added.length - removed.length
+
+  // Platforms without a total get reconciled by the periodic full pass instead
+  if (!complete && total && mergedCount !== total) {
+    logger.log(`[${platform}] Delta sync: ${mergedCount} merged vs ${total} on server, reconciling`)
+    return null
+  }
+
+  const changes: SyncChanges = {
+    mode: 'delta',
+    timestamp: Date.now(),
+    added,
+    updated,
+    removed,
+    requests
+  }
+  const changedIds = new Set([...added, ...updated])
+  await deleteConversations(getStorageScope(platform, orgId), removed)
+  await saveSyncedCache(platform, orgId, fetched.filter(c => changedIds.has(c.id)), {
+    syncComplete: true,
+    // A complete list is as good as a reconciliation
+    lastReconcileTime: complete ? Date.now() : cache.lastReconcileTime,
+    lastChanges: changes
+  })
+  return changes
+}
+
 /**
  * Main sync function - runs in background, survives popup close
+ * @param mode - 'delta' merges only what changed into a complete cache;
+ *   it falls back to a full pass when there is no complete cache, a
+ *   reconciliation is due, or the merged count disagrees with the server
+ * @param resume - persisted job of a sync the suspended worker didn't finish
  */
-async function startSync(platform: PlatformType, forceRefresh = false) {
-  const state = syncState[platform]
+async function startSync(platform: PlatformType, forceRefresh = false, mode: SyncMode = 'full', resume?: SyncJob) {
+  const state = syncState(platform)
   if (state.inProgress) {
     logger.log(`[${platform}] Sync already in progress, skipping`)
     return
   }
 
+  // Claimed before the first await so a resume on wake and a popup
+  // request can't both start
+  state.inProgress = true
+  try {
+    await runSync(platform, forceRefresh, mode, resume)
+  } finally {
+    state.inProgress = false
+    // Finished, failed or skipped; only a suspended worker leaves the job behind
+    await updateJobs(platform, jobs => { delete jobs.sync })
+    logger.log(`[${platform}] Sync finished`)
+  }
+}
+
+async function runSync(platform: PlatformType, forceRefresh: boolean, mode: SyncMode, resume?: SyncJob) {
+  const state = syncState(platform)
   const adapter = getPlatform(platform)
   if (!adapter) {
     logger.error(`[${platform}] Platform not found`)
@@ -586,106 +1166,115 @@ async function startSync(platform: PlatformType, forceRefresh = false) {
       platform,
       message: authResult.error || ErrorCode.AUTH_REQUIRED
     })
+    const authError = new PlatformError(
+      authResult.error || ErrorCode.AUTH_REQUIRED,
+      authResult.message || 'Authentication required',
+      { platform, retryAfter: authResult.retryAfter }
+    )
     await chrome.storage.local.set({
-      [getSyncErrorKey(platform)]: authResult.message || 'Authentication required'
+      [getSyncErrorKey(platform, await getStoredOrg(platform))]: authError.toJSON()
+    })
+    return
+  }
+
+  // Every key below is scoped to the organization selected at sync start,
+  // so switching organizations mid-sync cannot mix data
+  let orgId: string | null
+  try {
+    orgId = await resolveOrg(platform, adapter)
+  } catch (err) {
+    logger.error(`[${platform}] Failed to resolve organization:`, err)
+    // Under the organization the popup shows, like the auth error above
+    await chrome.storage.local.set({
+      [getSyncErrorKey(platform, await getStoredOrg(platform))]: serializeError(err, { platform })
     })
     return
   }
 
   // Check cache freshness
   if (!forceRefresh) {
-    const cached = await chrome.storage.local.get(getCacheKey(platform))
-    const cache = cached[getCacheKey(platform)] as PlatformCache | undefined
+    const cache = await readCacheMeta(platform, orgId)
     if (cache?.lastSyncTime && cache?.syncComplete) {
       const age = Date.now() - cache.lastSyncTime
       if (age < CACHE_FRESHNESS_MS) {
         logger.log(`[${platform}] Cache is fresh (< 5 min), skipping sync`)
         return
       }
+      // Stale but complete: only what changed since needs fetching
+      mode = 'delta'
     }
   }
 
-  state.inProgress = true
   state.aborted = false
   logger.log(`[${platform}] Starting background sync`)
   diagLog('INFO', 'Sync started', { platform })
 
-  // Clear previous error
-  await chrome.storage.local.remove(getSyncErrorKey(platform))
-
-  try {
-    const allConversations: UnifiedConversation[] = []
-    let offset = 0
-    let totalCount = 0
+  // A job from before an organization switch doesn't apply any more
+  const resumeFrom = resume?.orgId === orgId ? resume : undefined
+  const startedAt = resumeFrom?.startedAt || Date.now()
+  await updateJobs(platform, jobs => {
+    jobs.sync = { orgId, mode, offset: resumeFrom?.offset || 0, startedAt }
+  })
 
-    while (!state.aborted) {
-      logger.log(`[${platform}] Fetching: offset=${offset}, limit=${SYNC_BATCH_SIZE}`)
+  // Clear previous error
+  await chrome.storage.local.remove(getSyncErrorKey(platform, orgId))
 
-      const result = await adapter.getConversations(offset, SYNC_BATCH_SIZE)
+  // Last good cache; its metadata is put back if the platform starts
+  // returning structurally invalid data partway through the sync
+  const previousCache = await readCache(platform, orgId)
 
-      if (!result?.conversations) {
-        logger.error(`[${platform}] Invalid API response`)
-        break
-      }
+  try {
+    const useDelta = mode === 'delta' && !!previousCache?.syncComplete && !isReconcileDue(previousCache)
+    let changes = useDelta && previousCache
+      ? await runDeltaSync(platform, adapter, orgId, previousCache)
+      : null
+    if (!changes && !state.aborted) {
+      changes = await runFullSync(platform, adapter, orgId, previousCache, startedAt, resumeFrom?.offset || 0)
+    }
 
-      allConversations.push(...result.conversations)
-      totalCount = result.total || allConversations.length
-
-      logger.log(`[${platform}] Fetched ${allConversations.length}/${totalCount}`)
-
-      // Filter out any conversations that are pending deletion to prevent race conditions
-      const pending = pendingDeletes[platform]
-      const filteredConversations = pending.size > 0
-        ? allConversations.filter(c => !pending.has(c.id))
-        : allConversations
-
-      // Save progress to storage
-      await chrome.storage.local.set({
-        [getCacheKey(platform)]: {
-          conversations: filteredConversations,
-          totalCount: filteredConversations.length,
-          lastSyncTime: Date.now(),
-          syncComplete: !result.hasMore
-        } as PlatformCache,
-        [getSyncProgressKey(platform)]: {
-          loaded: filteredConversations.length,
-          total: totalCount,
-          inProgress: true
-        }
+    if (changes) {
+      logger.log(`[${platform}] Sync complete! (${describeChanges(changes)})`)
+      diagLog('INFO', 'Sync completed', {
+        platform,
+        message: describeChanges(changes)
       })
-
-      if (!result.hasMore) {
-        logger.log(`[${platform}] Sync complete!`)
-        diagLog('INFO', 'Sync completed', {
-          platform,
-          message: `${allConversations.length} conversations synced`
-        })
-        // Trigger background content indexing after sync
+      // Conversations gone remotely leave the search index too
+      if (changes.removed.length > 0) {
+        await deleteIndexEntries(getStorageScope(platform, orgId), changes.removed)
+        await touchContentIndex(platform, orgId)
+      }
+      // Trigger background content indexing after sync
+      if (changes.mode === 'full' || changes.added.length > 0 || changes.updated.length > 0) {
         setTimeout(() => startContentIndexing(platform), 2000)
-        break
       }
-
-      offset += SYNC_BATCH_SIZE
-      await sleep(SYNC_DELAY_MS)
     }
 
     // Clear sync progress when done
-    await chrome.storage.local.remove(getSyncProgressKey(platform))
+    await chrome.storage.local.remove(getSyncProgressKey(platform, orgId))
 
   } catch (err) {
     logger.error(`[${platform}] Sync error:`, err)
+    const error = toPlatformError(err, { platform })
     diagLog('ERROR', 'Sync failed', {
       platform,
-      message: String(err),
+      status: error.status,
+      message: error.toString(),
       stack: err instanceof Error ? err.stack : undefined
     })
     await chrome.storage.local.set({
-      [getSyncErrorKey(platform)]: String(err)
+      [getSyncErrorKey(platform, orgId)]: error.toJSON()
     })
-    await chrome.storage.local.remove(getSyncProgressKey(platform))
-  } finally {
-    state.inProgress = false
-    logger.log(`[${platform}] Sync finished`)
+    if (error.code === ErrorCode.API_CHANGED && previousCache) {
+      // Pages written before the failure passed validation; only the
+      // metadata needs restoring, and a full sync then isn't resumed
+      const { conversations: _conversations, ...meta } = previousCache
+      await saveCacheMeta(platform, orgId, meta)
+      diagLog('WARN', 'Kept previous cache', {
+        platform,
+        message: `${previousCache.conversations.length} cached conversations kept; response failed validation`
+      })
+    }
+    await chrome.storage.local.remove(getSyncProgressKey(platform, orgId))
   }
 }
 
@@ -693,27 +1282,348 @@ async function startSync(platform: PlatformType, forceRefresh = false) {
  * Stop sync for a platform
  */
 function stopSync(platform: PlatformType) {
-  syncState[platform].aborted = true
+  syncState(platform).aborted = true
   logger.log(`[${platform}] Sync aborted by user`)
 }
 
+/**
+ * Wait for an aborted sync loop to exit (bounded)
+ */
+async function waitForSyncIdle(platform: PlatformType, timeoutMs = 10000): Promise<void> {
+  const deadline = Date.now() + timeoutMs
+  while (syncState(platform).inProgress && Date.now() < deadline) {
+    await sleep(100)
+  }
+}
+
+/**
+ * Switch the organization a platform operates on.
+ * Stops running jobs first so nothing in flight writes under the new org.
+ */
+async function switchOrganization(platform: PlatformType, orgId: string) {
+  const adapter = getPlatform(platform)
+  if (!adapter?.setOrganization) return
+
+  stopSync(platform)
+  stopContentIndexing(platform)
+  priorityIndexQueue(platform).length = 0
+
+  adapter.setOrganization(orgId)
+  await storeOrg(platform, orgId)
+  diagLog('INFO', 'Organization switched', { platform })
+
+  await waitForSyncIdle(platform)
+  startSync(platform)
+}
+
 /**
  * Remove conversation from cache after deletion
  */
-async function removeFromCache(platform: PlatformType, conversationId: string) {
-  const cacheKey = getCacheKey(platform)
-  const cached = await chrome.storage.local.get(cacheKey)
-  const cache = cached[cacheKey] as PlatformCache | undefined
-
-  if (cache?.conversations) {
-    cache.conversations = cache.conversations.filter(c => c.id !== conversationId)
-    cache.totalCount = cache.conversations.length
-    await chrome.storage.local.set({ [cacheKey]: cache })
+async function removeFromCache(platform: PlatformType, orgId: string | null, conversationId: string) {
+  if (!await readCacheMeta(platform, orgId)) return
+  await deleteConversations(getStorageScope(platform, orgId), [conversationId])
+  await saveCacheMeta(platform, orgId)
+}
+
+/**
+ * Drop a deleted conversation from the cache and content index
+ */
+async function finishDelete(platform: PlatformType, orgId: string | null, conversationId: string) {
+  await removeFromCache(platform, orgId, conversationId)
+  await deleteIndexEntries(getStorageScope(platform, orgId), [conversationId])
+  await touchContentIndex(platform, orgId)
+}
+
+function forgetDelete(platform: PlatformType, conversationId: string): Promise<void> {
+  return updateJobs(platform, jobs => {
+    jobs.deletes = jobs.deletes?.filter(job => job.id !== conversationId)
+  })
+}
+
+/**
+ * Finish a delete the suspended worker had started. The platform may
+ * already have deleted it, so NOT_FOUND counts as done.
+ */
+async function resumeDelete(platform: PlatformType, job: DeleteJob) {
+  const adapter = getPlatform(platform)
+  if (!adapter) return
+
+  pendingDeletes(platform).add(job.id)
+  try {
+    const token = await getStoredToken(platform)
+    if (token) adapter.setToken(token)
+
+    const orgId = await resolveOrg(platform, adapter)
+    if (orgId !== job.orgId) {
+      diagLog('WARN', 'Resumed delete dropped', { platform, message: 'Organization changed since the delete started' })
+      return
+    }
+
+    try {
+      await adapter.deleteConversation(job.id)
+    } catch (err) {
+      if (toPlatformError(err, { platform }).code !== ErrorCode.NOT_FOUND) throw err
+    }
+    await finishDelete(platform, orgId, job.id)
+    diagLog('INFO', 'Delete resumed', { platform })
+  } catch (err) {
+    const error = toPlatformError(err, { platform })
+    diagLog('WARN', 'Resumed delete failed', { platform, status: error.status, message: error.toString() })
+  } finally {
+    pendingDeletes(platform).delete(job.id)
+    await forgetDelete(platform, job.id)
+  }
+}
+
+/**
+ * Apply an edit to a cached conversation, returning the previous values of
+ * the edited fields (null when the conversation isn't cached)
+ */
+async function editCachedConversation(
+  platform: PlatformType,
+  orgId: string | null,
+  conversationId: string,
+  edit: ConversationEdit
+): Promise<ConversationEdit | null> {
+  const scope = getStorageScope(platform, orgId)
+  const conv = await getConversation(scope, conversationId)
+
+  if (!conv) return null
+
+  const previous: ConversationEdit = {}
+  for (const field of Object.keys(edit) as (keyof ConversationEdit)[]) {
+    previous[field] = conv[field] as never
+  }
+  await putConversations(scope, [{ ...conv, ...edit }])
+  await saveCacheMeta(platform, orgId)
+  return previous
+}
+
+/**
+ * Insert (or replace) a conversation in the cache
+ */
+async function addToCache(platform: PlatformType, orgId: string | null, conversation: UnifiedConversation) {
+  if (!await readCacheMeta(platform, orgId)) return
+  await putConversations(getStorageScope(platform, orgId), [conversation])
+  await saveCacheMeta(platform, orgId)
+}
+
+// ==================== Export ====================
+
+/**
+ * Fetch conversations with their messages for an export file.
+ * Conversations that fail to load are left out and listed in failed.
+ */
+async function exportConversations(
+  platform: PlatformType,
+  adapter: PlatformAdapter,
+  conversationIds: string[]
+): Promise<{ data: ConversationExport; failed: string[] }> {
+  const token = await getStoredToken(platform)
+  if (token) adapter.setToken(token)
+
+  const orgId = await resolveOrg(platform, adapter)
+  const scope = getStorageScope(platform, orgId)
+
+  const conversations: ExportedConversation[] = []
+  const failed: string[] = []
+
+  for (const id of conversationIds) {
+    try {
+      const messages = await adapter.getConversationDetail(id)
+      const conv = await getConversation(scope, id)
+      conversations.push({
+        ...(conv || { id, title: 'Untitled', createTime: 0, updateTime: 0, platform }),
+        messages
+      })
+    } catch (err) {
+      logger.error(`[${platform}] Failed to export conversation ${id}:`, err)
+      failed.push(id)
+    }
+    await sleep(SYNC_DELAY_MS)
+  }
+
+  diagLog('INFO', 'Conversations exported', {
+    platform,
+    message: `${conversations.length} exported, ${failed.length} failed`
+  })
+  const data: ConversationExport = { platform, orgId, exportedAt: Date.now(), conversations }
+  return { data, failed }
+}
+
+interface ExportItem {
+  platform: PlatformType
+  conversationId: string
+}
+
+/**
+ * Export conversations of several platforms, one platform after another.
+ * A platform that can't export at all fails only its own conversations.
+ */
+async function exportAllPlatforms(items: ExportItem[]): Promise<{ data: CrossPlatformExport; failed: string[] }> {
+  const idsByPlatform = new Map<PlatformType, string[]>()
+  for (const item of items) {
+    idsByPlatform.set(item.platform, [...(idsByPlatform.get(item.platform) || []), item.conversationId])
+  }
+
+  const exports: ConversationExport[] = []
+  const failed: string[] = []
+
+  for (const [platform, ids] of idsByPlatform) {
+    const adapter = getPlatform(platform)
+    if (!adapter) {
+      failed.push(...ids)
+      continue
+    }
+    try {
+      const result = await exportConversations(platform, adapter, ids)
+      exports.push(result.data)
+      failed.push(...result.failed)
+    } catch (err) {
+      logger.error(`[${platform}] Failed to export conversations:`, err)
+      failed.push(...ids)
+    }
+  }
+
+  return { data: { exportedAt: Date.now(), exports }, failed }
+}
+
+// ==================== Storage Maintenance ====================
+
+/**
+ * Purge stored data, stopping the jobs that would write it back mid-purge
+ */
+async function purgePlatformStorage(categories: StorageCategory[], platform?: PlatformType) {
+  const affected = platform ? [platform] : getAllPlatformAdapters().map(a => a.name)
+  if (categories.includes('cache') || categories.includes('index')) {
+    for (const name of affected) {
+      stopSync(name)
+      stopContentIndexing(name)
+      priorityIndexQueue(name).length = 0
+    }
+    await Promise.all(affected.map(name => waitForSyncIdle(name)))
+  }
+
+  await purgeStorage(categories, platform)
+  diagLog('INFO', 'Storage purged', {
+    platform,
+    message: categories.join(', ')
+  })
+}
+
+/**
+ * Evict stale previews and warn when a quota is nearly used up
+ */
+async function runStorageMaintenance() {
+  try {
+    const evicted = await evictPreviews(PREVIEW_CACHE_EXPIRY_MS, PREVIEW_CACHE_MAX_ENTRIES)
+    if (evicted > 0) {
+      diagLog('INFO', 'Previews evicted', { message: `${evicted} stale or least recently used` })
+    }
+
+    const warnings = getQuotaWarnings(await getStorageQuotas())
+    if (warnings.length > 0) {
+      diagLog('WARN', 'Storage nearly full', {
+        message: `${warnings.join(', ')} above ${Math.round(STORAGE_WARNING_RATIO * 100)}%`
+      })
+    }
+  } catch (err) {
+    logger.error('Storage maintenance failed:', err)
   }
 }
 
+// ==================== Self-hosted Platforms ====================
+
+const customPlatformsReady = loadCustomPlatforms()
+  .catch(err => logger.error('Failed to load self-hosted platforms:', err))
+
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName !== 'local' || !changes[CUSTOM_PLATFORMS_KEY]) return
+  const configs = (changes[CUSTOM_PLATFORMS_KEY].newValue as CustomPlatformConfig[] | undefined) || []
+  const names = new Set(configs.map(c => getCustomPlatformName(c.id)))
+  // Stop timers of removed platforms before they disappear from the registry
+  for (const adapter of getAllPlatformAdapters()) {
+    if (isCustomPlatform(adapter.name) && !names.has(adapter.name)) stopAutoSync(adapter.name)
+  }
+  registerCustomPlatforms(configs)
+  diagLog('INFO', 'Self-hosted platforms updated', { message: `${configs.length} configured` })
+})
+
+// ==================== Wake-up ====================
+
+// Data written by earlier versions is brought up to the current schema
+// before anything reads it
+async function migrateStorage() {
+  try {
+    const result = await runMigrations()
+    if (result.applied.length > 0) {
+      diagLog('INFO', 'Storage migrated', {
+        message: `schema ${result.from} → ${result.to}: ${result.applied.join('; ')}`
+      })
+    }
+  } catch (err) {
+    logger.error('Storage migration failed:', err)
+    diagLog('ERROR', 'Storage migration failed', {
+      message: `to schema ${SCHEMA_VERSION}: ${String(err)}`,
+      stack: err instanceof Error ? err.stack : undefined
+    })
+  }
+}
+
+const storageMigrated = migrateStorage()
+
+// Also runs at module load above; an update fires both and they share one run
+chrome.runtime.onInstalled.addListener(details => {
+  logger.log(`Installed (${details.reason}${details.previousVersion ? ` from ${details.previousVersion}` : ''})`)
+  migrateStorage()
+})
+
+// Messages and alarms wait for this so a freshly started worker knows every
+// platform and reads migrated data
+let workerLoaded = false
+const workerReady = Promise.all([customPlatformsReady, storageMigrated])
+  .finally(() => { workerLoaded = true })
+
+// Every worker start may follow a suspension that cut jobs short
+workerReady.then(() => {
+  resumeJobs(true)
+  runStorageMaintenance()
+})
+
+chrome.alarms.onAlarm.addListener(alarm => {
+  workerReady.then(() => {
+    if (alarm.name === JOBS_ALARM) {
+      resumeJobs()
+    } else if (alarm.name.startsWith(AUTO_SYNC_ALARM_PREFIX)) {
+      runAutoSyncAlarm(alarm.name.slice(AUTO_SYNC_ALARM_PREFIX.length) as PlatformType)
+    }
+  })
+})
+
 // Message handler
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+  if (!workerLoaded) {
+    workerReady.then(() => handleMessage(message, sender, sendResponse))
+    return true
+  }
+  return handleMessage(message, sender, sendResponse)
+})
+
+/**
+ * A message from the popup or a content script; each type reads its own
+ * fields and narrows them
+ */
+interface RuntimeMessage {
+  type: string
+  platform?: PlatformType
+  [key: string]: unknown
+}
+
+function handleMessage(
+  message: RuntimeMessage,
+  sender: chrome.runtime.MessageSender,
+  sendResponse: (response?: unknown) => void
+): boolean {
   logger.log('Background received:', message)
 
   try {
@@ -725,9 +1635,9 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     // === Sync management ===
     if (message.type === 'START_SYNC') {
       const platform = (message.platform || 'chatgpt') as PlatformType
-      const forceRefresh = message.forceRefresh ?? false
+      const forceRefresh = (message.forceRefresh as boolean | undefined) ?? false
       startSync(platform, forceRefresh)
-      sendResponse({ status: 'started', inProgress: syncState[platform].inProgress })
+      sendResponse({ status: 'started', inProgress: syncState(platform).inProgress })
       return true
     }
 
@@ -740,14 +1650,19 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
 
     if (message.type === 'GET_SYNC_STATUS') {
       const platform = (message.platform || 'chatgpt') as PlatformType
-      sendResponse({ inProgress: syncState[platform].inProgress })
+      // A persisted job is about to be resumed even if nothing runs yet
+      getJobs(platform).then(jobs => sendResponse({
+        inProgress: syncState(platform).inProgress || !!jobs.sync,
+        indexing: indexState(platform).inProgress || !!jobs.index,
+        pendingDeletes: jobs.deletes?.length || 0
+      }))
       return true
     }
 
     // === Token management ===
     if (message.type === 'SET_TOKEN') {
       const platform = (message.platform || 'chatgpt') as PlatformType
-      const token = message.token
+      const token = message.token as string
 
       const adapter = getPlatform(platform)
       if (adapter) {
@@ -767,6 +1682,11 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
 
     if (message.type === 'GET_TOKEN_STATUS') {
       const platform = (message.platform || 'chatgpt') as PlatformType
+      if (isCustomPlatform(platform)) {
+        // Configured credentials; checkAuth reports whether they work
+        sendResponse({ hasToken: !!getPlatform(platform) })
+        return true
+      }
       getStoredToken(platform).then(token => {
         if (token) {
           sendResponse({ hasToken: true, tokenPreview: token.substring(0, 20) + '...' })
@@ -781,6 +1701,7 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     if (message.type === 'GET_CONVERSATION_DETAIL') {
       const platform = (message.platform || 'chatgpt') as PlatformType
       const adapter = getPlatform(platform)
+      const conversationId = message.conversationId as string
 
       if (!adapter) {
         sendResponse({ error: 'Platform not found' })
@@ -791,11 +1712,12 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
         if (token) adapter.setToken(token)
 
         try {
-          const messages = await adapter.getConversationDetail(message.conversationId)
+          await resolveOrg(platform, adapter)
+          const messages = await adapter.getConversationDetail(conversationId)
           sendResponse({ data: { messages } })
         } catch (err) {
           logger.error(`[${platform}] Failed to fetch conversation:`, err)
-          sendResponse({ error: String(err) })
+          sendResponse({ error: serializeError(err, { platform }) })
         }
       })
       return true
@@ -812,27 +1734,162 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       }
 
       // Add to pending deletes to prevent race conditions with sync
-      pendingDeletes[platform].add(conversationId)
+      pendingDeletes(platform).add(conversationId)
 
       getStoredToken(platform).then(async token => {
         if (token) adapter.setToken(token)
 
         try {
+          const orgId = await resolveOrg(platform, adapter)
+          // Persisted so a delete cut short by worker suspension is finished on wake
+          await updateJobs(platform, jobs => {
+            jobs.deletes = [...(jobs.deletes || []).filter(job => job.id !== conversationId), { id: conversationId, orgId }]
+          })
           await adapter.deleteConversation(conversationId)
-          await removeFromCache(platform, conversationId)
-          // Also remove from content index
-          const index = await getContentIndex(platform)
-          if (index[conversationId]) {
-            delete index[conversationId]
-            await saveContentIndex(platform, index)
-          }
+          await finishDelete(platform, orgId, conversationId)
           sendResponse({ success: true })
         } catch (err) {
           logger.error(`[${platform}] Failed to delete conversation:`, err)
-          sendResponse({ error: String(err) })
+          sendResponse({ error: serializeError(err, { platform }) })
         } finally {
           // Remove from pending deletes after operation completes
-          pendingDeletes[platform].delete(conversationId)
+          pendingDeletes(platform).delete(conversationId)
+          await forgetDelete(platform, conversationId)
+        }
+      })
+      return true
+    }
+
+    if (message.type === 'RENAME_CONVERSATION') {
+      const platform = (message.platform || 'chatgpt') as PlatformType
+      const adapter = getPlatform(platform)
+      const conversationId = message.conversationId as string
+      const title = String(message.title || '').trim()
+
+      if (!adapter) {
+        sendResponse({ error: 'Platform not found' })
+        return true
+      }
+
+      if (!adapter.renameConversation) {
+        sendResponse({
+          error: serializeError(new PlatformError(ErrorCode.NOT_SUPPORTED, `${adapter.displayName} conversations can't be renamed`, { platform }))
+        })
+        return true
+      }
+
+      if (!title) {
+        sendResponse({ error: 'Title cannot be empty' })
+        return true
+      }
+
+      addPendingEdit(platform, conversationId, { title })
+
+      getStoredToken(platform).then(async token => {
+        if (token) adapter.setToken(token)
+
+        let orgId: string | null = null
+        let previous: ConversationEdit | null = null
+        try {
+          orgId = await resolveOrg(platform, adapter)
+          // Optimistic: the list shows the new title while the request runs
+          previous = await editCachedConversation(platform, orgId, conversationId, { title })
+          await adapter.renameConversation!(conversationId, title)
+          sendResponse({ success: true, title })
+        } catch (err) {
+          logger.error(`[${platform}] Failed to rename conversation:`, err)
+          // Roll back the optimistic title
+          if (previous) {
+            await editCachedConversation(platform, orgId, conversationId, previous)
+          }
+          sendResponse({ error: serializeError(err, { platform }), previousTitle: previous?.title ?? null })
+        } finally {
+          clearPendingEdit(platform, conversationId, { title })
+        }
+      })
+      return true
+    }
+
+    if (message.type === 'STAR_CONVERSATION') {
+      const platform = (message.platform || 'chatgpt') as PlatformType
+      const adapter = getPlatform(platform)
+      const conversationId = message.conversationId as string
+      const isStarred = !!message.starred
+
+      if (!adapter) {
+        sendResponse({ error: 'Platform not found' })
+        return true
+      }
+
+      getStoredToken(platform).then(async token => {
+        if (token) adapter.setToken(token)
+
+        let orgId: string | null = null
+        let previous: ConversationEdit | null = null
+        try {
+          orgId = await resolveOrg(platform, adapter)
+
+          // No star API: keep the star locally so sync doesn't drop it
+          if (!adapter.setStarred) {
+            await saveLocalStar(platform, orgId, conversationId, isStarred)
+            await editCachedConversation(platform, orgId, conversationId, { isStarred })
+            sendResponse({ success: true, local: true })
+            return
+          }
+
+          addPendingEdit(platform, conversationId, { isStarred })
+          previous = await editCachedConversation(platform, orgId, conversationId, { isStarred })
+          await adapter.setStarred(conversationId, isStarred)
+          sendResponse({ success: true })
+        } catch (err) {
+          logger.error(`[${platform}] Failed to star conversation:`, err)
+          if (previous) {
+            await editCachedConversation(platform, orgId, conversationId, previous)
+          }
+          sendResponse({ error: serializeError(err, { platform }) })
+        } finally {
+          clearPendingEdit(platform, conversationId, { isStarred })
+        }
+      })
+      return true
+    }
+
+    if (message.type === 'RESTORE_CONVERSATION') {
+      const platform = (message.platform || 'chatgpt') as PlatformType
+      const adapter = getPlatform(platform)
+      const conversationId = message.conversationId as string
+
+      if (!adapter) {
+        sendResponse({ error: 'Platform not found' })
+        return true
+      }
+
+      if (!adapter.restoreConversation) {
+        sendResponse({
+          error: serializeError(new PlatformError(ErrorCode.NOT_SUPPORTED, `${adapter.displayName} deletes permanently; the backup is a local archive only`, { platform }))
+        })
+        return true
+      }
+
+      getStoredToken(platform).then(async token => {
+        if (token) adapter.setToken(token)
+
+        try {
+          const orgId = await resolveOrg(platform, adapter)
+          const conversation = await adapter.restoreConversation!(conversationId)
+          await addToCache(platform, orgId, conversation)
+          diagLog('INFO', 'Conversation restored', { platform, message: conversationId })
+          sendResponse({ success: true, conversation })
+
+          // Re-index so content search finds it again; the indexer retries
+          // rate limits and failures without undoing the restore
+          addToPriorityQueue(platform, conversationId)
+          if (!indexState(platform).inProgress) {
+            startContentIndexing(platform)
+          }
+        } catch (err) {
+          logger.error(`[${platform}] Failed to restore conversation:`, err)
+          sendResponse({ error: serializeError(err, { platform }) })
         }
       })
       return true
@@ -842,6 +1899,7 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     if (message.type === 'BACKUP_CONVERSATION') {
       const platform = (message.platform || 'chatgpt') as PlatformType
       const adapter = getPlatform(platform)
+      const conversationId = message.conversationId as string
 
       if (!adapter) {
         sendResponse({ error: 'Platform not found' })
@@ -852,47 +1910,67 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
         if (token) adapter.setToken(token)
 
         try {
-          const messages = await adapter.getConversationDetail(message.conversationId)
+          const orgId = await resolveOrg(platform, adapter)
+          const messages = await adapter.getConversationDetail(conversationId)
 
           // Get title from cache
-          const cacheKey = getCacheKey(platform)
-          const cached = await chrome.storage.local.get(cacheKey)
-          const cache = cached[cacheKey] as PlatformCache | undefined
-          const conv = cache?.conversations?.find(c => c.id === message.conversationId)
+          const scope = getStorageScope(platform, orgId)
+          const conv = await getConversation(scope, conversationId)
 
-          const backup = {
-            id: message.conversationId,
+          const backup: Backup = {
+            id: conversationId,
             title: conv?.title || 'Untitled',
             platform,
+            orgId,
             messages,
             backupTime: Date.now()
           }
-          await chrome.storage.local.set({
-            [getBackupKey(platform, message.conversationId)]: backup
-          })
+          await putBackup(scope, backup)
           sendResponse({ success: true })
         } catch (err) {
           logger.error(`[${platform}] Failed to backup conversation:`, err)
-          sendResponse({ error: String(err) })
+          sendResponse({ error: serializeError(err, { platform }) })
         }
       })
       return true
     }
 
+    if (message.type === 'EXPORT_CONVERSATIONS') {
+      const platform = (message.platform || 'chatgpt') as PlatformType
+      const adapter = getPlatform(platform)
+      const conversationIds = (message.conversationIds || []) as string[]
+
+      if (!adapter) {
+        sendResponse({ error: 'Platform not found' })
+        return true
+      }
+
+      exportConversations(platform, adapter, conversationIds)
+        .then(result => sendResponse(result))
+        .catch(err => {
+          logger.error(`[${platform}] Failed to export conversations:`, err)
+          sendResponse({ error: serializeError(err, { platform }) })
+        })
+      return true
+    }
+
+    // Selections from the popup's All view, each exported by its own platform
+    if (message.type === 'EXPORT_ALL_PLATFORMS') {
+      const items = (message.items || []) as ExportItem[]
+      exportAllPlatforms(items).then(result => sendResponse(result))
+      return true
+    }
+
     if (message.type === 'GET_BACKUPS') {
       const platform = message.platform as PlatformType | undefined
-
-      chrome.storage.local.get(null, (items) => {
-        const backups = Object.entries(items)
-          .filter(([key]) => {
-            if (platform) {
-              return key.startsWith(`${platform}_backup_`)
-            }
-            // Return all backups
-            return key.includes('_backup_')
-          })
-          .map(([, value]) => value)
-          .sort((a: any, b: any) => b.backupTime - a.backupTime)
+      const orgId = (message.orgId as string | undefined) || null
+
+      getBackups(platform).then(all => {
+        // Backups made before organization support carry no orgId and
+        // cannot be attributed, so they are listed for every organization
+        const backups = platform
+          ? all.filter(backup => !backup.orgId || backup.orgId === orgId)
+          : all
         sendResponse({ backups })
       })
       return true
@@ -900,10 +1978,8 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
 
     if (message.type === 'DELETE_BACKUP') {
       const platform = (message.platform || 'chatgpt') as PlatformType
-      chrome.storage.local.remove(
-        getBackupKey(platform, message.conversationId),
-        () => sendResponse({ success: true })
-      )
+      deleteBackup(getStorageScope(platform, (message.orgId as string | undefined) || null), message.conversationId as string)
+        .then(() => sendResponse({ success: true }))
       return true
     }
 
@@ -930,6 +2006,8 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
 
       getStoredToken(platform).then(async token => {
         if (token) adapter.setToken(token)
+        const orgId = await getStoredOrg(platform)
+        if (orgId) adapter.setOrganization?.(orgId)
 
         const result = await adapter.checkAuth()
         sendResponse(result)
@@ -937,6 +2015,46 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       return true
     }
 
+    // === Organizations ===
+    if (message.type === 'GET_ORGANIZATIONS') {
+      const platform = (message.platform || 'chatgpt') as PlatformType
+      const adapter = getPlatform(platform)
+
+      if (!adapter?.getOrganizations) {
+        sendResponse({ organizations: [], activeOrgId: null })
+        return true
+      }
+
+      getStoredToken(platform).then(async token => {
+        if (token) adapter.setToken(token)
+
+        try {
+          const organizations = await adapter.getOrganizations!()
+          let activeOrgId = await resolveOrg(platform, adapter)
+
+          // Selected organization no longer available (left the team, etc.)
+          if (organizations.length > 0 && !organizations.some(o => o.id === activeOrgId)) {
+            activeOrgId = organizations[0].id
+            await switchOrganization(platform, activeOrgId)
+          }
+
+          await chrome.storage.local.set({ [getOrganizationsKey(platform)]: organizations })
+          sendResponse({ organizations, activeOrgId })
+        } catch (err) {
+          logger.error(`[${platform}] Failed to fetch organizations:`, err)
+          sendResponse({ error: serializeError(err, { platform }) })
+        }
+      })
+      return true
+    }
+
+    if (message.type === 'SET_ORGANIZATION') {
+      const platform = (message.platform || 'chatgpt') as PlatformType
+      const orgId = message.orgId as string
+      switchOrganization(platform, orgId).then(() => sendResponse({ success: true }))
+      return true
+    }
+
     // === Legacy support ===
     if (message.type === 'GET_PAGE_INFO') {
       chrome.tabs.query({ active: true, currentWindow: true }, async (tabs) => {
@@ -965,24 +2083,53 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       return true
     }
 
+    if (message.type === 'GET_DRIFT_REPORTS') {
+      getDriftReports().then(reports => sendResponse({ reports }))
+      return true
+    }
+
     if (message.type === 'CLEAR_LOGS') {
-      clearDiagnosticsLogs().then(() => {
+      Promise.all([
+        clearDiagnosticsLogs(),
+        chrome.storage.local.remove(SCHEMA_DRIFT_KEY)
+      ]).then(() => {
         diagLog('INFO', 'Logs cleared')
         sendResponse({ success: true })
       })
       return true
     }
 
+    // === Storage ===
+    if (message.type === 'GET_STORAGE_USAGE') {
+      getStorageUsage()
+        .then(usage => sendResponse({ usage }))
+        .catch(err => sendResponse({ error: serializeError(err) }))
+      return true
+    }
+
+    if (message.type === 'PURGE_STORAGE') {
+      const categories = (message.categories || []) as StorageCategory[]
+      const platform = message.platform as PlatformType | undefined
+      purgePlatformStorage(categories, platform)
+        .then(() => sendResponse({ success: true }))
+        .catch(err => sendResponse({ error: serializeError(err, { platform }) }))
+      return true
+    }
+
     // === Content Indexing ===
     if (message.type === 'GET_CONTENT_INDEX') {
       const platform = (message.platform || 'chatgpt') as PlatformType
-      getContentIndex(platform).then(index => sendResponse({ index }))
+      getStoredOrg(platform)
+        .then(orgId => getContentIndex(platform, orgId))
+        .then(index => sendResponse({ index }))
       return true
     }
 
     if (message.type === 'GET_INDEX_PROGRESS') {
       const platform = (message.platform || 'chatgpt') as PlatformType
-      getIndexProgress(platform).then(progress => sendResponse({ progress }))
+      getStoredOrg(platform)
+        .then(orgId => getIndexProgress(platform, orgId))
+        .then(progress => sendResponse({ progress }))
       return true
     }
 
@@ -1006,7 +2153,7 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       if (conversationId) {
         addToPriorityQueue(platform, conversationId)
         // If not already indexing, start indexing
-        if (!indexState[platform].inProgress) {
+        if (!indexState(platform).inProgress) {
           startContentIndexing(platform)
         }
       }
@@ -1017,21 +2164,19 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     // === Auto-Sync ===
     if (message.type === 'START_AUTO_SYNC') {
       const platform = (message.platform || 'chatgpt') as PlatformType
-      startAutoSync(platform)
-      sendResponse({ status: 'started', active: autoSyncState[platform].active })
+      startAutoSync(platform).then(() => sendResponse({ status: 'started', active: true }))
       return true
     }
 
     if (message.type === 'STOP_AUTO_SYNC') {
       const platform = (message.platform || 'chatgpt') as PlatformType
-      stopAutoSync(platform)
-      sendResponse({ status: 'stopped' })
+      stopAutoSync(platform).then(() => sendResponse({ status: 'stopped' }))
       return true
     }
 
     if (message.type === 'GET_AUTO_SYNC_STATUS') {
       const platform = (message.platform || 'chatgpt') as PlatformType
-      sendResponse({ active: autoSyncState[platform].active })
+      isAutoSyncActive(platform).then(active => sendResponse({ active }))
       return true
     }
 
@@ -1053,6 +2198,7 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
         if (token) adapter.setToken(token)
 
         try {
+          await resolveOrg(platform, adapter)
           // Try to fetch just 1 conversation to test API
           const result = await adapter.getConversations(0, 1)
           const duration = Date.now() - startTime
@@ -1061,7 +2207,7 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
             platform,
             duration,
             status: 200,
-            message: `API OK - ${result.total} total conversations`
+            message: result.total !== null ? `API OK - ${result.total} total conversations` : 'API OK'
           })
 
           sendResponse({
@@ -1072,26 +2218,15 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
           })
         } catch (err) {
           const duration = Date.now() - startTime
-          const errorMsg = String(err)
-          let errorCode = ErrorCode.NETWORK_ERROR
-          let status = 0
-
-          if (errorMsg.includes('AUTH_REQUIRED') || errorMsg.includes('401')) {
-            errorCode = ErrorCode.AUTH_REQUIRED
-            status = 401
-          } else if (errorMsg.includes('403')) {
-            errorCode = ErrorCode.AUTH_REQUIRED
-            status = 403
-          } else if (errorMsg.includes('429')) {
-            errorCode = ErrorCode.RATE_LIMITED
-            status = 429
-          }
+          const error = toPlatformError(err, { platform })
+          const errorCode = error.code
+          const status = error.status || 0
 
           diagLog('ERROR', 'Probe failed', {
             platform,
             duration,
             status,
-            message: errorCode,
+            message: error.endpoint ? `${errorCode} at ${error.endpoint}` : errorCode,
             stack: err instanceof Error ? err.stack : undefined
           })
 
@@ -1112,8 +2247,8 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       message: String(err),
       stack: err instanceof Error ? err.stack : undefined
     })
-    sendResponse({ error: String(err) })
+    sendResponse({ error: serializeError(err) })
   }
 
   return true
-})
+}
@@ -1,6 +1,6 @@
 /**
  * Content Script
- * Runs on ChatGPT and Claude pages to extract auth tokens
+ * Runs on ChatGPT, Claude and Gemini pages to extract auth tokens
  */
 
 import { logger } from '../utils/logger'
@@ -32,7 +32,8 @@ async function getChatGPTToken(): Promise<string | null> {
 
 /**
  * Get Claude organization ID (used as "token")
- * Claude uses cookie auth, so we just need to verify we can access the API
+ * Claude uses cookie auth, so we just need to verify we can access the API;
+ * the organization actually used is selected in the extension
  */
 async function getClaudeOrgId(): Promise<string | null> {
   try {
@@ -51,6 +52,44 @@ async function getClaudeOrgId(): Promise<string | null> {
   return null
 }
 
+/**
+ * Read a WIZ_global_data value from Gemini page markup
+ */
+function readGeminiValue(html: string, key: string): string | undefined {
+  const match = html.match(new RegExp(`"${key}":"([^"]+)"`))
+  return match?.[1]
+}
+
+/**
+ * Get Gemini session values (used as "token")
+ * Gemini uses cookie auth plus an XSRF token embedded in the page,
+ * so we scrape it from the current document, falling back to a fresh fetch
+ */
+async function getGeminiSession(): Promise<string | null> {
+  try {
+    let html = document.documentElement.innerHTML
+    if (!readGeminiValue(html, 'SNlM0e')) {
+      const response = await fetch('https://gemini.google.com/app', {
+        credentials: 'include'
+      })
+      if (!response.ok) return null
+      html = await response.text()
+    }
+
+    const at = readGeminiValue(html, 'SNlM0e')
+    if (at) {
+      return JSON.stringify({
+        at,
+        bl: readGeminiValue(html, 'cfb2h'),
+        sid: readGeminiValue(html, 'FdrFJe')
+      })
+    }
+  } catch (err) {
+    logger.warn('Failed to get Gemini session:', err)
+  }
+  return null
+}
+
 /**
  * Get token for current platform
  */
@@ -65,6 +104,8 @@ async function getToken(): Promise<{ platform: PlatformType; token: string } | n
     token = await getChatGPTToken()
   } else if (currentPlatform === 'claude') {
     token = await getClaudeOrgId()
+  } else if (currentPlatform === 'gemini') {
+    token = await getGeminiSession()
   }
 
   if (token) {
@@ -9,7 +9,11 @@ export enum ErrorCode {
   API_CHANGED = 'API_CHANGED',
   NETWORK_ERROR = 'NETWORK_ERROR',
   RATE_LIMITED = 'RATE_LIMITED',
-  TIMEOUT = 'TIMEOUT'
+  TIMEOUT = 'TIMEOUT',
+  NOT_FOUND = 'NOT_FOUND',
+  NOT_SUPPORTED = 'NOT_SUPPORTED',
+  SERVER_ERROR = 'SERVER_ERROR',
+  UNKNOWN = 'UNKNOWN'
 }
 
 export interface ErrorInfo {
@@ -20,15 +24,15 @@ export interface ErrorInfo {
 export const ErrorMessages: Record<ErrorCode, ErrorInfo> = {
   [ErrorCode.AUTH_REQUIRED]: {
     title: 'Authentication Required',
-    suggestion: 'Please open ChatGPT/Claude and log in'
+    suggestion: 'Please open ChatGPT/Claude/Gemini and log in'
   },
   [ErrorCode.NO_TAB]: {
     title: 'Platform Tab Not Found',
-    suggestion: 'Please open ChatGPT or Claude in a browser tab'
+    suggestion: 'Please open ChatGPT, Claude or Gemini in a browser tab'
   },
   [ErrorCode.INJECT_FAILED]: {
     title: 'Script Injection Failed',
-    suggestion: 'Try refreshing the ChatGPT/Claude page'
+    suggestion: 'Try refreshing the ChatGPT/Claude/Gemini page'
   },
   [ErrorCode.API_CHANGED]: {
     title: 'API Structure Changed',
@@ -45,6 +49,22 @@ export const ErrorMessages: Record<ErrorCode, ErrorInfo> = {
   [ErrorCode.TIMEOUT]: {
     title: 'Request Timeout',
     suggestion: 'The request took too long. Please try again'
+  },
+  [ErrorCode.NOT_FOUND]: {
+    title: 'Not Found',
+    suggestion: 'The conversation no longer exists. Try syncing again'
+  },
+  [ErrorCode.NOT_SUPPORTED]: {
+    title: 'Not Supported',
+    suggestion: 'This platform does not support this action'
+  },
+  [ErrorCode.SERVER_ERROR]: {
+    title: 'Server Error',
+    suggestion: 'The platform is temporarily unavailable. Please try again later'
+  },
+  [ErrorCode.UNKNOWN]: {
+    title: 'Unknown Error',
+    suggestion: 'Please try again or restart the extension'
   }
 }
 
@@ -58,3 +78,147 @@ export function getErrorInfo(code: ErrorCode): ErrorInfo {
 export function isErrorCode(value: string): value is ErrorCode {
   return Object.values(ErrorCode).includes(value as ErrorCode)
 }
+
+/**
+ * Error thrown by platform API wrappers and adapters
+ */
+export interface PlatformErrorDetails {
+  status?: number        // HTTP status, when the error came from a response
+  retryAfter?: number    // Seconds to wait before retrying (429/503)
+  platform?: string
+  endpoint?: string      // e.g. 'GET /conversations'
+}
+
+/**
+ * Plain-object form sent over chrome.runtime messaging and kept in storage
+ */
+export interface SerializedError extends PlatformErrorDetails {
+  name: 'PlatformError'
+  code: ErrorCode
+  message: string
+}
+
+export class PlatformError extends Error {
+  readonly code: ErrorCode
+  readonly status?: number
+  readonly retryAfter?: number
+  readonly platform?: string
+  readonly endpoint?: string
+
+  constructor(code: ErrorCode, message: string, details: PlatformErrorDetails = {}) {
+    super(message)
+    this.name = 'PlatformError'
+    this.code = code
+    this.status = details.status
+    this.retryAfter = details.retryAfter
+    this.platform = details.platform
+    this.endpoint = details.endpoint
+  }
+
+  /**
+   * Classify a non-OK HTTP response
+   */
+  static fromResponse(response: Response, details: PlatformErrorDetails = {}): PlatformError {
+    const status = response.status
+    const retryAfter = parseRetryAfter(response.headers.get('Retry-After'))
+    return new PlatformError(
+      codeForStatus(status),
+      `${statusText(status)} (${status})`,
+      { ...details, status, retryAfter }
+    )
+  }
+
+  toJSON(): SerializedError {
+    return {
+      name: 'PlatformError',
+      code: this.code,
+      message: this.message,
+      status: this.status,
+      retryAfter: this.retryAfter,
+      platform: this.platform,
+      endpoint: this.endpoint
+    }
+  }
+
+  toString(): string {
+    return `${this.code}: ${this.message}`
+  }
+}
+
+function codeForStatus(status: number): ErrorCode {
+  if (status === 401 || status === 403) return ErrorCode.AUTH_REQUIRED
+  if (status === 404) return ErrorCode.NOT_FOUND
+  if (status === 408 || status === 504) return ErrorCode.TIMEOUT
+  if (status === 429) return ErrorCode.RATE_LIMITED
+  if (status >= 500) return ErrorCode.SERVER_ERROR
+  // Other 4xx: the request shape no longer matches what the platform expects
+  return ErrorCode.API_CHANGED
+}
+
+function statusText(status: number): string {
+  if (status === 401) return 'Session expired'
+  if (status === 403) return 'Access denied'
+  if (status === 404) return 'Not found'
+  if (status === 429) return 'Too many requests'
+  if (status >= 500) return 'Server error'
+  return 'Unexpected response'
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into seconds
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds))
+  const date = Date.parse(value)
+  if (Number.isNaN(date)) return undefined
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000))
+}
+
+/**
+ * Normalize anything thrown (or received over messaging) into a PlatformError
+ */
+export function toPlatformError(err: unknown, details: PlatformErrorDetails = {}): PlatformError {
+  if (err instanceof PlatformError) return err
+
+  if (isSerializedError(err)) {
+    return new PlatformError(err.code, err.message, err)
+  }
+
+  if (err instanceof Error) {
+    if (err.name === 'AbortError' || err.name === 'TimeoutError') {
+      return new PlatformError(ErrorCode.TIMEOUT, 'Request timed out', details)
+    }
+    // fetch() rejects with TypeError when the network is unreachable
+    if (err instanceof TypeError && /fetch|network/i.test(err.message)) {
+      return new PlatformError(ErrorCode.NETWORK_ERROR, err.message, details)
+    }
+    // Unparseable JSON means the response format changed
+    if (err instanceof SyntaxError) {
+      return new PlatformError(ErrorCode.API_CHANGED, err.message, details)
+    }
+    return new PlatformError(ErrorCode.UNKNOWN, err.message, details)
+  }
+
+  const message = String(err)
+  // Plain strings may still carry a code prefix (e.g. from older storage entries)
+  const prefix = message.match(/^([A-Z_]+):\s*(.*)$/s)
+  if (prefix && isErrorCode(prefix[1])) {
+    return new PlatformError(prefix[1], prefix[2], details)
+  }
+  return new PlatformError(ErrorCode.UNKNOWN, message, details)
+}
+
+/**
+ * Serialize an error for sendResponse / storage
+ */
+export function serializeError(err: unknown, details: PlatformErrorDetails = {}): SerializedError {
+  return toPlatformError(err, details).toJSON()
+}
+
+export function isSerializedError(value: unknown): value is SerializedError {
+  return typeof value === 'object' && value !== null &&
+    (value as SerializedError).name === 'PlatformError' &&
+    isErrorCode(String((value as SerializedError).code))
+}
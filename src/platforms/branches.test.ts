@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+import { resolveBranchPath, selectBranchTo } from './branches'
+import type { UnifiedMessage } from './types'
+
+function message(id: string, parentId: string | null, childIds: string[], isActive = false): UnifiedMessage {
+  return { id, role: id.startsWith('u') ? 'user' : 'assistant', content: id, createTime: 0, parentId, childIds, isActive }
+}
+
+// u1 -> a1 -> (u2 edited as u2b) -> a2 / a2b, with u2b -> a2b active
+const MESSAGES = [
+  message('u1', null, ['a1'], true),
+  message('a1', 'u1', ['u2', 'u2b'], true),
+  message('u2', 'a1', ['a2']),
+  message('a2', 'u2', []),
+  message('u2b', 'a1', ['a2b'], true),
+  message('a2b', 'u2b', [], true)
+]
+
+describe('selectBranchTo', () => {
+  it('leads the thread through a message on another branch', () => {
+    const path = resolveBranchPath(MESSAGES, selectBranchTo(MESSAGES, 'a2'))
+    expect(path.map(msg => msg.id)).toEqual(['u1', 'a1', 'u2', 'a2'])
+  })
+
+  it('keeps the thread when the message is already on it', () => {
+    const path = resolveBranchPath(MESSAGES, selectBranchTo(MESSAGES, 'u2b'))
+    expect(path.map(msg => msg.id)).toEqual(['u1', 'a1', 'u2b', 'a2b'])
+  })
+
+  it('selects nothing for an unknown message', () => {
+    expect(selectBranchTo(MESSAGES, 'missing')).toEqual({})
+  })
+})
@@ -0,0 +1,88 @@
+/**
+ * Message tree helpers
+ * Platforms such as ChatGPT keep every edited prompt and regenerated answer
+ * as a branch; these helpers pick a single thread out of the flat message list
+ */
+
+import type { UnifiedMessage } from './types'
+
+/**
+ * Branch choices made by the user: parent message id ('' for roots) -> chosen child id
+ */
+export type BranchSelections = Record<string, string>
+
+/**
+ * Check whether messages carry tree fields
+ */
+export function hasBranches(messages: UnifiedMessage[]): boolean {
+  return messages.some(m => (m.siblingCount || 0) > 1)
+}
+
+/**
+ * Get the alternatives at a message's position (including itself)
+ */
+export function getSiblings(messages: UnifiedMessage[], message: UnifiedMessage): UnifiedMessage[] {
+  if (!message.childIds) return [message]
+
+  if (message.parentId) {
+    const parent = messages.find(m => m.id === message.parentId)
+    const ids = parent?.childIds || [message.id]
+    return ids
+      .map(id => messages.find(m => m.id === id))
+      .filter((m): m is UnifiedMessage => !!m)
+  }
+
+  return messages.filter(m => m.childIds && !m.parentId)
+}
+
+/**
+ * Resolve one thread through the tree.
+ * At each fork the user's selection wins, then the platform's active branch,
+ * then the most recent alternative.
+ */
+export function resolveBranchPath(
+  messages: UnifiedMessage[],
+  selections: BranchSelections = {}
+): UnifiedMessage[] {
+  // Linear conversations have no tree fields
+  if (!messages.some(m => m.childIds)) return messages
+
+  const byId = new Map(messages.map(m => [m.id, m]))
+  const path: UnifiedMessage[] = []
+  let candidates = messages.filter(m => !m.parentId)
+  let parentKey = ''
+
+  while (candidates.length > 0) {
+    const chosen = candidates.find(c => c.id === selections[parentKey])
+      || candidates.find(c => c.isActive)
+      || candidates[candidates.length - 1]
+
+    path.push(chosen)
+    parentKey = chosen.id
+    candidates = (chosen.childIds || [])
+      .map(id => byId.get(id))
+      .filter((m): m is UnifiedMessage => !!m)
+  }
+
+  return path
+}
+
+/**
+ * Selections that lead the thread through a message: it and each of its
+ * ancestors chosen at their forks
+ */
+export function selectBranchTo(messages: UnifiedMessage[], messageId: string): BranchSelections {
+  const byId = new Map(messages.map(m => [m.id, m]))
+  const selections: BranchSelections = {}
+  for (let msg = byId.get(messageId); msg; msg = msg.parentId ? byId.get(msg.parentId) : undefined) {
+    selections[msg.parentId || ''] = msg.id
+  }
+  return selections
+}
+
+/**
+ * Get the thread currently selected on the platform
+ */
+export function getActivePath(messages: UnifiedMessage[]): UnifiedMessage[] {
+  return resolveBranchPath(messages)
+}
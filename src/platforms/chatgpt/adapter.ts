@@ -3,12 +3,14 @@
  * Converts ChatGPT API responses to unified format
  */
 
-import type { UnifiedConversation, UnifiedMessage } from '../types'
+import type { MessagePart, UnifiedConversation, UnifiedMessage } from '../types'
 import type {
   ChatGPTConversation,
   ChatGPTConversationDetail,
-  ChatGPTMappingNode
+  ChatGPTMappingNode,
+  ChatGPTMessage
 } from './api'
+import { splitMarkdownCode, partsToText } from '../parts'
 
 /**
  * Convert ChatGPT conversation to unified format
@@ -19,47 +21,206 @@ export function toUnifiedConversation(conv: ChatGPTConversation): UnifiedConvers
     title: conv.title || 'Untitled',
     createTime: new Date(conv.create_time).getTime(),
     updateTime: new Date(conv.update_time).getTime(),
-    platform: 'chatgpt'
+    platform: 'chatgpt',
+    isStarred: !!conv.pinned_time
   }
 }
 
 /**
- * Extract messages from ChatGPT mapping tree
+ * Build list metadata from a conversation detail (times are unix seconds here)
+ */
+export function detailToUnifiedConversation(
+  id: string,
+  detail: ChatGPTConversationDetail
+): UnifiedConversation {
+  return {
+    id,
+    title: detail.title || 'Untitled',
+    createTime: detail.create_time * 1000,
+    updateTime: detail.update_time * 1000,
+    platform: 'chatgpt',
+    models: detail.default_model_slug ? [detail.default_model_slug] : undefined
+  }
+}
+
+/**
+ * Convert ChatGPT message content and metadata to typed parts
+ */
+export function toMessageParts(msg: ChatGPTMessage): MessagePart[] {
+  const parts: MessagePart[] = []
+  const content = msg.content
+
+  switch (content.content_type) {
+    case 'text':
+    case 'multimodal_text':
+      for (const part of content.parts || []) {
+        if (typeof part === 'string') {
+          parts.push(...splitMarkdownCode(part))
+        } else if (part?.content_type === 'image_asset_pointer') {
+          parts.push({ type: 'image', assetId: part.asset_pointer })
+        } else if (typeof part?.text === 'string' && part.text.trim()) {
+          parts.push({ type: 'text', text: part.text })
+        }
+      }
+      break
+    case 'code':
+      // Assistant writing code for a tool (e.g. python) rather than the user
+      if (msg.recipient && msg.recipient !== 'all') {
+        parts.push({ type: 'tool_call', name: msg.recipient, input: content.text })
+      } else if (content.text) {
+        parts.push({ type: 'code', code: content.text, language: content.language || undefined })
+      }
+      break
+    case 'execution_output':
+      parts.push({ type: 'tool_result', name: msg.author.name || undefined, output: content.text || '' })
+      break
+    case 'tether_browsing_display':
+      if (content.result) {
+        parts.push({ type: 'tool_result', name: msg.author.name || 'browser', output: content.result })
+      }
+      break
+    case 'tether_quote':
+      if (content.url) {
+        parts.push({ type: 'citation', url: content.url, title: content.title, snippet: content.text })
+      }
+      break
+    case 'system_error':
+      parts.push({ type: 'tool_result', name: msg.author.name || undefined, output: content.text || '', isError: true })
+      break
+    default:
+      if (typeof content.text === 'string' && content.text.trim()) {
+        parts.push({ type: 'text', text: content.text })
+      }
+  }
+
+  for (const attachment of msg.metadata?.attachments || []) {
+    parts.push({
+      type: 'attachment',
+      id: attachment.id,
+      name: attachment.name,
+      mimeType: attachment.mime_type,
+      size: attachment.size
+    })
+  }
+
+  const citedUrls = new Set<string>()
+  for (const citation of msg.metadata?.citations || []) {
+    const url = citation.metadata?.url
+    if (!url || citedUrls.has(url)) continue
+    citedUrls.add(url)
+    parts.push({ type: 'citation', url, title: citation.metadata?.title, snippet: citation.metadata?.text })
+  }
+
+  return parts.filter(part => part.type !== 'text' || part.text.trim())
+}
+
+/**
+ * Convert a mapping node to a unified message, or null if it is not shown
+ * (system prompts, hidden context, empty nodes).
+ * Tool output is shown as part of the assistant's side of the conversation.
+ */
+function toUnifiedMessage(node: ChatGPTMappingNode): UnifiedMessage | null {
+  const msg = node.message
+  if (!msg?.content || !msg.author) return null
+  if (msg.metadata?.is_visually_hidden_from_conversation) return null
+
+  const authorRole = msg.author.role
+  if (authorRole !== 'user' && authorRole !== 'assistant' && authorRole !== 'tool') return null
+  const role = authorRole === 'user' ? 'user' : 'assistant'
+
+  const parts = toMessageParts(msg)
+  if (parts.length === 0) return null
+
+  return {
+    id: msg.id,
+    role,
+    content: partsToText(parts),
+    parts,
+    createTime: msg.create_time ? msg.create_time * 1000 : Date.now(),
+    model: role === 'assistant' ? msg.metadata?.model_slug || undefined : undefined
+  }
+}
+
+/**
+ * Collect node ids on the branch ChatGPT currently displays.
+ * Follows `current_node` up to the root; without it, follows the newest
+ * child down from the root.
+ */
+function getActiveNodeIds(mapping: Record<string, ChatGPTMappingNode>, rootId: string, currentNode?: string): Set<string> {
+  const active = new Set<string>()
+
+  if (currentNode && mapping[currentNode]) {
+    let nodeId: string | null | undefined = currentNode
+    while (nodeId && mapping[nodeId] && !active.has(nodeId)) {
+      active.add(nodeId)
+      nodeId = mapping[nodeId].parent
+    }
+    return active
+  }
+
+  let nodeId: string | undefined = rootId
+  while (nodeId && mapping[nodeId] && !active.has(nodeId)) {
+    active.add(nodeId)
+    const children: string[] = mapping[nodeId].children || []
+    nodeId = children[children.length - 1]
+  }
+  return active
+}
+
+/**
+ * Extract messages from ChatGPT mapping tree.
+ * Returns every branch in depth-first order; hidden nodes are collapsed so
+ * parentId/childIds link visible messages only.
  */
 export function extractMessages(detail: ChatGPTConversationDetail): UnifiedMessage[] {
   const messages: UnifiedMessage[] = []
   const mapping = detail.mapping || {}
+  const byId = new Map<string, UnifiedMessage>()
+  const rootIds: string[] = []
 
-  function traverse(nodeId: string | null) {
-    if (!nodeId || !mapping[nodeId]) return
-
-    const node: ChatGPTMappingNode = mapping[nodeId]
-    const msg = node.message
-
-    if (msg?.content?.parts && msg.author) {
-      const role = msg.author.role as 'user' | 'assistant' | 'system'
-      if (role === 'user' || role === 'assistant') {
-        const content = msg.content.parts.join('')
-        if (content.trim()) {
-          messages.push({
-            id: msg.id,
-            role,
-            content,
-            createTime: msg.create_time ? msg.create_time * 1000 : Date.now()
-          })
-        }
+  // Find root node (no parent)
+  const rootId = Object.keys(mapping).find(id => !mapping[id].parent)
+  if (!rootId) return messages
+
+  const activeNodeIds = getActiveNodeIds(mapping, rootId, detail.current_node)
+  const visited = new Set<string>()
+
+  function traverse(nodeId: string, visibleParentId: string | null) {
+    if (!mapping[nodeId] || visited.has(nodeId)) return
+    visited.add(nodeId)
+
+    const node = mapping[nodeId]
+    const message = toUnifiedMessage(node)
+
+    if (message) {
+      message.parentId = visibleParentId
+      message.childIds = []
+      message.isActive = activeNodeIds.has(nodeId)
+      messages.push(message)
+      byId.set(message.id, message)
+
+      if (visibleParentId) {
+        byId.get(visibleParentId)?.childIds?.push(message.id)
+      } else {
+        rootIds.push(message.id)
       }
     }
 
-    // Traverse first child (linear path)
-    if (node.children && node.children.length > 0) {
-      traverse(node.children[0])
+    for (const childId of node.children || []) {
+      traverse(childId, message ? message.id : visibleParentId)
     }
   }
 
-  // Find root node (no parent)
-  const rootId = Object.keys(mapping).find(id => !mapping[id].parent)
-  traverse(rootId || null)
+  traverse(rootId, null)
+
+  // Fill in sibling position now that every child list is complete
+  for (const message of messages) {
+    const siblings = message.parentId
+      ? byId.get(message.parentId)?.childIds || [message.id]
+      : rootIds
+    message.siblingIndex = siblings.indexOf(message.id)
+    message.siblingCount = siblings.length
+  }
 
   return messages
 }
@@ -3,6 +3,9 @@
  * Base URL: https://chatgpt.com/backend-api
  */
 
+import { request, requestJson } from '../http'
+import * as s from '../schema'
+
 const API_BASE = 'https://chatgpt.com/backend-api'
 
 export interface ChatGPTConversation {
@@ -10,6 +13,7 @@ export interface ChatGPTConversation {
   title: string
   create_time: string
   update_time: string
+  pinned_time?: string | null   // Set while the conversation is pinned
 }
 
 export interface ChatGPTConversationsResponse {
@@ -19,14 +23,52 @@ export interface ChatGPTConversationsResponse {
   offset: number
 }
 
+/**
+ * Non-string entry in `content.parts` (multimodal_text)
+ */
+export interface ChatGPTContentPart {
+  content_type: string          // e.g. 'image_asset_pointer', 'audio_transcription'
+  asset_pointer?: string        // file-service://file-...
+  text?: string
+}
+
+export interface ChatGPTMessageContent {
+  content_type: string          // 'text', 'multimodal_text', 'code', 'execution_output', 'tether_quote', ...
+  parts?: (string | ChatGPTContentPart)[]
+  text?: string                 // code / execution_output / tether_quote
+  result?: string               // tether_browsing_display
+  language?: string             // code
+  url?: string                  // tether_quote
+  title?: string                // tether_quote
+}
+
+export interface ChatGPTCitation {
+  metadata?: {
+    url?: string
+    title?: string
+    text?: string
+  }
+}
+
+export interface ChatGPTAttachment {
+  id: string
+  name: string
+  mime_type?: string
+  size?: number
+}
+
 export interface ChatGPTMessage {
   id: string
-  author: { role: string }
-  content: {
-    parts: string[]
-    content_type: string
-  }
+  author: { role: string; name?: string | null }
+  content: ChatGPTMessageContent
   create_time?: number
+  recipient?: string            // 'all' for chat replies, tool name for tool calls
+  metadata?: {
+    citations?: ChatGPTCitation[]
+    attachments?: ChatGPTAttachment[]
+    is_visually_hidden_from_conversation?: boolean
+    model_slug?: string | null  // Model that wrote an assistant message, e.g. 'gpt-4o'
+  }
 }
 
 export interface ChatGPTMappingNode {
@@ -41,85 +83,129 @@ export interface ChatGPTConversationDetail {
   create_time: number
   update_time: number
   mapping: Record<string, ChatGPTMappingNode>
+  current_node?: string  // Leaf of the branch currently shown in ChatGPT
+  default_model_slug?: string | null
 }
 
+// Response validators: the fields the adapter reads. Titles may be null
+// (untitled chats) but must be present; a missing one means a renamed field.
+
+const conversationSchema = s.object({
+  id: s.string,
+  title: s.nullable(s.string),
+  create_time: s.timestamp,
+  update_time: s.timestamp,
+  pinned_time: s.optional(s.nullable(s.timestamp))
+})
+
+const conversationsResponseSchema = s.object({
+  items: s.array(conversationSchema),
+  total: s.number
+})
+
+const messageSchema = s.object({
+  id: s.string,
+  author: s.object({ role: s.string }),
+  content: s.object({
+    content_type: s.string,
+    parts: s.optional(s.array(s.unknown))
+  }),
+  create_time: s.optional(s.nullable(s.number))
+})
+
+const conversationDetailSchema = s.object({
+  title: s.nullable(s.string),
+  create_time: s.number,
+  update_time: s.number,
+  mapping: s.record(s.object({
+    id: s.string,
+    message: s.optional(s.nullable(messageSchema)),
+    parent: s.optional(s.nullable(s.string)),
+    children: s.optional(s.array(s.string))
+  })),
+  current_node: s.optional(s.nullable(s.string))
+})
+
 export async function fetchConversations(
   token: string,
   offset = 0,
   limit = 50
 ): Promise<ChatGPTConversationsResponse> {
-  const response = await fetch(
-    `${API_BASE}/conversations?offset=${offset}&limit=${limit}&order=updated`,
-    {
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json'
-      }
+  return requestJson(`${API_BASE}/conversations?offset=${offset}&limit=${limit}&order=updated`, {
+    platform: 'chatgpt',
+    endpoint: 'GET /conversations',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json'
     }
-  )
-
-  if (!response.ok) {
-    if (response.status === 401) {
-      throw new Error('AUTH_REQUIRED: Session expired')
-    }
-    if (response.status === 429) {
-      throw new Error('RATE_LIMIT: Too many requests')
-    }
-    throw new Error(`API error: ${response.status}`)
-  }
-
-  return response.json()
+  }, conversationsResponseSchema)
 }
 
 export async function fetchConversationDetail(
   token: string,
   conversationId: string
 ): Promise<ChatGPTConversationDetail> {
-  const response = await fetch(
-    `${API_BASE}/conversation/${conversationId}`,
-    {
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json'
-      }
+  return requestJson(`${API_BASE}/conversation/${conversationId}`, {
+    platform: 'chatgpt',
+    endpoint: 'GET /conversation/{id}',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json'
     }
-  )
+  }, conversationDetailSchema)
+}
 
-  if (!response.ok) {
-    if (response.status === 401) {
-      throw new Error('AUTH_REQUIRED: Session expired')
-    }
-    if (response.status === 404) {
-      throw new Error('NOT_FOUND: Conversation not found')
-    }
-    throw new Error(`API error: ${response.status}`)
-  }
+/**
+ * Update conversation fields. Deleting only hides (`is_visible: false`), so it is reversible.
+ */
+async function patchConversation(
+  token: string,
+  conversationId: string,
+  fields: Record<string, unknown>
+): Promise<boolean> {
+  await request(`${API_BASE}/conversation/${conversationId}`, {
+    platform: 'chatgpt',
+    endpoint: 'PATCH /conversation/{id}',
+    method: 'PATCH',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(fields)
+  })
 
-  return response.json()
+  return true
 }
 
 export async function deleteConversation(
   token: string,
   conversationId: string
 ): Promise<boolean> {
-  const response = await fetch(
-    `${API_BASE}/conversation/${conversationId}`,
-    {
-      method: 'PATCH',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({ is_visible: false })
-    }
-  )
+  return patchConversation(token, conversationId, { is_visible: false })
+}
 
-  if (!response.ok) {
-    if (response.status === 401) {
-      throw new Error('AUTH_REQUIRED: Session expired')
-    }
-    throw new Error(`API error: ${response.status}`)
-  }
+export async function restoreConversation(
+  token: string,
+  conversationId: string
+): Promise<boolean> {
+  return patchConversation(token, conversationId, { is_visible: true })
+}
 
-  return true
+export async function renameConversation(
+  token: string,
+  conversationId: string,
+  title: string
+): Promise<boolean> {
+  return patchConversation(token, conversationId, { title })
+}
+
+/**
+ * Pin or unpin a conversation in the sidebar
+ */
+export async function setConversationPinned(
+  token: string,
+  conversationId: string,
+  pinned: boolean
+): Promise<boolean> {
+  return patchConversation(token, conversationId, { is_pinned: pinned })
 }
@@ -4,17 +4,23 @@
 
 import type {
   PlatformAdapter,
+  PlatformCapabilities,
   PlatformType,
   AuthResult,
   ConversationsResult,
+  UnifiedConversation,
   UnifiedMessage
 } from '../types'
+import { ErrorCode, PlatformError, toPlatformError } from '../../errors'
 import {
   fetchConversations,
   fetchConversationDetail,
-  deleteConversation as apiDeleteConversation
+  deleteConversation as apiDeleteConversation,
+  restoreConversation as apiRestoreConversation,
+  renameConversation as apiRenameConversation,
+  setConversationPinned
 } from './api'
-import { toUnifiedConversation, extractMessages } from './adapter'
+import { toUnifiedConversation, detailToUnifiedConversation, extractMessages } from './adapter'
 
 // Official ChatGPT logo SVG
 const CHATGPT_ICON = `<svg viewBox="0 0 24 24" fill="currentColor"><path d="M22.2819 9.8211a5.9847 5.9847 0 0 0-.5157-4.9108 6.0462 6.0462 0 0 0-6.5098-2.9A6.0651 6.0651 0 0 0 4.9807 4.1818a5.9847 5.9847 0 0 0-3.9977 2.9 6.0462 6.0462 0 0 0 .7427 7.0966 5.98 5.98 0 0 0 .511 4.9107 6.051 6.051 0 0 0 6.5146 2.9001A5.9847 5.9847 0 0 0 13.2599 24a6.0557 6.0557 0 0 0 5.7718-4.2058 5.9894 5.9894 0 0 0 3.9977-2.9001 6.0557 6.0557 0 0 0-.7475-7.0729zm-9.022 12.6081a4.4755 4.4755 0 0 1-2.8764-1.0408l.1419-.0804 4.7783-2.7582a.7948.7948 0 0 0 .3927-.6813v-6.7369l2.02 1.1686a.071.071 0 0 1 .038.052v5.5826a4.504 4.504 0 0 1-4.4945 4.4944zm-9.6607-4.1254a4.4708 4.4708 0 0 1-.5346-3.0137l.142.0852 4.783 2.7582a.7712.7712 0 0 0 .7806 0l5.8428-3.3685v2.3324a.0804.0804 0 0 1-.0332.0615L9.74 19.9502a4.4992 4.4992 0 0 1-6.1408-1.6464zM2.3408 7.8956a4.485 4.485 0 0 1 2.3655-1.9728V11.6a.7664.7664 0 0 0 .3879.6765l5.8144 3.3543-2.0201 1.1685a.0757.0757 0 0 1-.071 0l-4.8303-2.7865A4.504 4.504 0 0 1 2.3408 7.872zm16.5963 3.8558L13.1038 8.364 15.1192 7.2a.0757.0757 0 0 1 .071 0l4.8303 2.7913a4.4944 4.4944 0 0 1-.6765 8.1042v-5.6772a.79.79 0 0 0-.407-.667zm2.0107-3.0231l-.142-.0852-4.7735-2.7818a.7759.7759 0 0 0-.7854 0L9.409 9.2297V6.8974a.0662.0662 0 0 1 .0284-.0615l4.8303-2.7866a4.4992 4.4992 0 0 1 6.6802 4.66zM8.3065 12.863l-2.02-1.1638a.0804.0804 0 0 1-.038-.0567V6.0742a4.4992 4.4992 0 0 1 7.3757-3.4537l-.142.0805L8.704 5.459a.7948.7948 0 0 0-.3927.6813zm1.0976-2.3654l2.602-1.4998 2.6069 1.4998v2.9994l-2.5974 1.4997-2.6067-1.4997Z"/></svg>`
@@ -25,6 +31,16 @@ export class ChatGPTPlatform implements PlatformAdapter {
   readonly hostPatterns = ['chatgpt.com', 'chat.openai.com']
   readonly icon = CHATGPT_ICON
   readonly color = '#10a37f'
+  readonly capabilities: PlatformCapabilities = {
+    serverPagination: true,
+    deleteMode: 'soft',       // Delete sets is_visible: false
+    restore: true,
+    rename: true,
+    star: true,               // Mapped to pinning
+    projects: false,
+    searchApi: false,
+    attachments: true
+  }
 
   private token: string | null = null
 
@@ -40,7 +56,7 @@ export class ChatGPTPlatform implements PlatformAdapter {
     if (!this.token) {
       return {
         ok: false,
-        error: 'AUTH_REQUIRED',
+        error: ErrorCode.AUTH_REQUIRED,
         message: 'Please open ChatGPT and log in first'
       }
     }
@@ -50,25 +66,26 @@ export class ChatGPTPlatform implements PlatformAdapter {
       await fetchConversations(this.token, 0, 1)
       return { ok: true }
     } catch (err) {
-      const errorMsg = String(err)
-      if (errorMsg.includes('AUTH_REQUIRED') || errorMsg.includes('401')) {
+      const error = toPlatformError(err, { platform: this.name })
+      if (error.code === ErrorCode.AUTH_REQUIRED) {
         return {
           ok: false,
-          error: 'AUTH_REQUIRED',
+          error: ErrorCode.AUTH_REQUIRED,
           message: 'Session expired. Please refresh ChatGPT page.'
         }
       }
       return {
         ok: false,
-        error: 'NETWORK_ERROR',
-        message: errorMsg
+        error: error.code,
+        message: error.message,
+        retryAfter: error.retryAfter
       }
     }
   }
 
   async getConversations(offset = 0, limit = 50): Promise<ConversationsResult> {
     if (!this.token) {
-      throw new Error('AUTH_REQUIRED: No token available')
+      throw new PlatformError(ErrorCode.AUTH_REQUIRED, 'No token available', { platform: this.name })
     }
 
     const data = await fetchConversations(this.token, offset, limit)
@@ -85,7 +102,7 @@ export class ChatGPTPlatform implements PlatformAdapter {
 
   async getConversationDetail(id: string): Promise<UnifiedMessage[]> {
     if (!this.token) {
-      throw new Error('AUTH_REQUIRED: No token available')
+      throw new PlatformError(ErrorCode.AUTH_REQUIRED, 'No token available', { platform: this.name })
     }
 
     const detail = await fetchConversationDetail(this.token, id)
@@ -94,7 +111,7 @@ export class ChatGPTPlatform implements PlatformAdapter {
 
   async deleteConversation(id: string): Promise<boolean> {
     if (!this.token) {
-      throw new Error('AUTH_REQUIRED: No token available')
+      throw new PlatformError(ErrorCode.AUTH_REQUIRED, 'No token available', { platform: this.name })
     }
 
     return apiDeleteConversation(this.token, id)
@@ -115,6 +132,33 @@ export class ChatGPTPlatform implements PlatformAdapter {
 
     return { success, failed }
   }
+
+  async restoreConversation(id: string): Promise<UnifiedConversation> {
+    if (!this.token) {
+      throw new PlatformError(ErrorCode.AUTH_REQUIRED, 'No token available', { platform: this.name })
+    }
+
+    await apiRestoreConversation(this.token, id)
+    const detail = await fetchConversationDetail(this.token, id)
+    return detailToUnifiedConversation(id, detail)
+  }
+
+  async renameConversation(id: string, title: string): Promise<boolean> {
+    if (!this.token) {
+      throw new PlatformError(ErrorCode.AUTH_REQUIRED, 'No token available', { platform: this.name })
+    }
+
+    return apiRenameConversation(this.token, id, title)
+  }
+
+  // ChatGPT has no stars; pinning is the closest equivalent
+  async setStarred(id: string, starred: boolean): Promise<boolean> {
+    if (!this.token) {
+      throw new PlatformError(ErrorCode.AUTH_REQUIRED, 'No token available', { platform: this.name })
+    }
+
+    return setConversationPinned(this.token, id, starred)
+  }
 }
 
 export const chatgptPlatform = new ChatGPTPlatform()
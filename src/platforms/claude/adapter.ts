@@ -3,13 +3,60 @@
  * Converts Claude API responses to unified format
  */
 
-import type { UnifiedConversation, UnifiedMessage } from '../types'
-import type { ClaudeConversation, ClaudeMessage, ClaudeConversationDetail } from './api'
+import type {
+  MessagePart,
+  PlatformOrganization,
+  PlatformProject,
+  UnifiedConversation,
+  UnifiedMessage
+} from '../types'
+import type {
+  ClaudeOrganization,
+  ClaudeProject,
+  ClaudeConversation,
+  ClaudeMessage,
+  ClaudeContentBlock,
+  ClaudeConversationDetail
+} from './api'
+import { splitMarkdownCode, partsToText, stringifyToolInput } from '../parts'
+
+/**
+ * Convert Claude organization to unified format
+ */
+export function toUnifiedOrganization(org: ClaudeOrganization): PlatformOrganization {
+  return {
+    id: org.uuid,
+    name: org.name || 'Organization'
+  }
+}
+
+/**
+ * Check whether an organization can use claude.ai chat
+ * (API-only Console orgs have no chat conversations)
+ */
+export function isChatOrganization(org: ClaudeOrganization): boolean {
+  return !Array.isArray(org.capabilities) || org.capabilities.includes('chat')
+}
+
+/**
+ * Convert Claude project to unified format
+ */
+export function toUnifiedProject(project: ClaudeProject): PlatformProject {
+  return {
+    id: project.uuid,
+    name: project.name || 'Untitled project',
+    description: project.description || undefined
+  }
+}
 
 /**
  * Convert Claude conversation to unified format
+ * @param projectNames - project uuid -> name, to label project conversations
  */
-export function toUnifiedConversation(conv: ClaudeConversation): UnifiedConversation {
+export function toUnifiedConversation(
+  conv: ClaudeConversation,
+  projectNames?: Map<string, string>
+): UnifiedConversation {
   return {
     id: conv.uuid,
     title: conv.name || 'Untitled',
@@ -17,7 +64,52 @@ export function toUnifiedConversation(conv: ClaudeConversation): UnifiedConversa
     createTime: new Date(conv.created_at).getTime(),
     updateTime: new Date(conv.updated_at).getTime(),
     platform: 'claude',
-    isStarred: conv.is_starred
+    isStarred: conv.is_starred,
+    projectId: conv.project_uuid,
+    projectName: conv.project_uuid ? projectNames?.get(conv.project_uuid) : undefined,
+    models: conv.model ? [conv.model] : undefined
+  }
+}
+
+/**
+ * Convert a Claude content block to typed parts
+ */
+function toMessageParts(block: ClaudeContentBlock): MessagePart[] {
+  switch (block.type) {
+    case 'text': {
+      const parts = splitMarkdownCode(block.text || '')
+      for (const citation of block.citations || []) {
+        if (citation.url) {
+          parts.push({ type: 'citation', url: citation.url, title: citation.title, snippet: citation.cited_text })
+        }
+      }
+      return parts
+    }
+    case 'tool_use':
+      return [{
+        type: 'tool_call',
+        id: block.id,
+        name: block.name || 'tool',
+        input: stringifyToolInput(block.input)
+      }]
+    case 'tool_result': {
+      const output = typeof block.content === 'string'
+        ? block.content
+        : (block.content || [])
+            .filter(item => item.type === 'text' && item.text)
+            .map(item => item.text)
+            .join('\n')
+      return [{
+        type: 'tool_result',
+        id: block.tool_use_id,
+        name: block.name,
+        output,
+        isError: block.is_error || undefined
+      }]
+    }
+    default:
+      // Thinking blocks are internal reasoning, not part of the conversation
+      return []
   }
 }
 
@@ -25,21 +117,34 @@ export function toUnifiedConversation(conv: ClaudeConversation): UnifiedConversa
  * Convert Claude message to unified format
  */
 export function toUnifiedMessage(msg: ClaudeMessage): UnifiedMessage {
-  // Extract text content
-  let content = msg.text || ''
+  // Prefer structured content blocks, fall back to the flat text field
+  const parts: MessagePart[] = msg.content && msg.content.length > 0
+    ? msg.content.flatMap(toMessageParts)
+    : splitMarkdownCode(msg.text || '')
+
+  for (const file of msg.files || []) {
+    if (file.file_kind === 'image') {
+      parts.push({ type: 'image', assetId: file.file_uuid, url: file.preview_url || file.thumbnail_url, alt: file.file_name })
+    } else {
+      parts.push({ type: 'attachment', id: file.file_uuid, name: file.file_name })
+    }
+  }
 
-  // If no text but has content blocks, extract from there
-  if (!content && msg.content) {
-    content = msg.content
-      .filter(block => block.type === 'text' && block.text)
-      .map(block => block.text)
-      .join('\n')
+  for (const attachment of msg.attachments || []) {
+    parts.push({
+      type: 'attachment',
+      id: attachment.id,
+      name: attachment.file_name,
+      mimeType: attachment.file_type,
+      size: attachment.file_size
+    })
   }
 
   return {
     id: msg.uuid,
     role: msg.sender === 'human' ? 'user' : 'assistant',
-    content,
+    content: partsToText(parts),
+    parts,
     createTime: new Date(msg.created_at).getTime()
   }
 }
@@ -55,5 +160,5 @@ export function extractMessages(detail: ClaudeConversationDetail): UnifiedMessag
   return detail.chat_messages
     .sort((a, b) => a.index - b.index)
     .map(toUnifiedMessage)
-    .filter(msg => msg.content.trim())
+    .filter(msg => msg.parts && msg.parts.length > 0)
 }
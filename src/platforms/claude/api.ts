@@ -4,6 +4,9 @@
  * Authentication: Session Cookie (credentials: 'include')
  */
 
+import { request, requestJson } from '../http'
+import * as s from '../schema'
+
 const API_BASE = 'https://claude.ai/api'
 
 export interface ClaudeOrganization {
@@ -23,6 +26,16 @@ export interface ClaudeConversation {
   project_uuid: string | null
 }
 
+export interface ClaudeProject {
+  uuid: string
+  name: string
+  description?: string
+  is_private?: boolean
+  archived_at?: string | null
+  created_at: string
+  updated_at: string
+}
+
 export interface ClaudeMessage {
   uuid: string
   text: string
@@ -31,11 +44,44 @@ export interface ClaudeMessage {
   created_at: string
   updated_at: string
   content?: ClaudeContentBlock[]
+  attachments?: ClaudeAttachment[]
+  files?: ClaudeFile[]
 }
 
 export interface ClaudeContentBlock {
-  type: 'text' | 'tool_use' | 'tool_result'
+  type: 'text' | 'tool_use' | 'tool_result' | 'thinking'
   text?: string
+  // tool_use
+  id?: string
+  name?: string
+  input?: unknown
+  // tool_result
+  tool_use_id?: string
+  content?: { type: string; text?: string }[] | string
+  is_error?: boolean
+  // text
+  citations?: { url?: string; title?: string; cited_text?: string }[]
+}
+
+/**
+ * Pasted or uploaded document whose text Claude extracted
+ */
+export interface ClaudeAttachment {
+  id?: string
+  file_name: string
+  file_type?: string
+  file_size?: number
+}
+
+/**
+ * Uploaded file (images, PDFs)
+ */
+export interface ClaudeFile {
+  file_uuid?: string
+  file_name: string
+  file_kind?: string            // 'image' | 'document' | ...
+  preview_url?: string
+  thumbnail_url?: string
 }
 
 export interface ClaudeConversationDetail {
@@ -48,22 +94,50 @@ export interface ClaudeConversationDetail {
   chat_messages: ClaudeMessage[]
 }
 
+// Response validators: the fields the adapter reads
+
+const organizationsSchema = s.array(s.object({
+  uuid: s.string,
+  name: s.nullable(s.string),
+  capabilities: s.optional(s.array(s.string))
+}))
+
+const conversationsSchema = s.array(s.object({
+  uuid: s.string,
+  name: s.nullable(s.string),
+  created_at: s.timestamp,
+  updated_at: s.timestamp,
+  model: s.optional(s.nullable(s.string)),
+  is_starred: s.optional(s.boolean),
+  project_uuid: s.optional(s.nullable(s.string))
+}))
+
+const projectsSchema = s.array(s.object({
+  uuid: s.string,
+  name: s.string
+}))
+
+const conversationDetailSchema = s.object({
+  uuid: s.string,
+  name: s.nullable(s.string),
+  chat_messages: s.array(s.object({
+    uuid: s.string,
+    sender: s.string,
+    text: s.optional(s.nullable(s.string)),
+    created_at: s.timestamp,
+    content: s.optional(s.array(s.object({ type: s.string })))
+  }))
+})
+
 /**
  * Get user's organizations (needed for all other API calls)
  */
 export async function fetchOrganizations(): Promise<ClaudeOrganization[]> {
-  const response = await fetch(`${API_BASE}/organizations`, {
+  return requestJson(`${API_BASE}/organizations`, {
+    platform: 'claude',
+    endpoint: 'GET /organizations',
     credentials: 'include'
-  })
-
-  if (!response.ok) {
-    if (response.status === 401 || response.status === 403) {
-      throw new Error('AUTH_REQUIRED: Please log in to Claude')
-    }
-    throw new Error(`API error: ${response.status}`)
-  }
-
-  return response.json()
+  }, organizationsSchema)
 }
 
 /**
@@ -72,19 +146,24 @@ export async function fetchOrganizations(): Promise<ClaudeOrganization[]> {
 export async function fetchConversations(
   orgId: string
 ): Promise<ClaudeConversation[]> {
-  const response = await fetch(
-    `${API_BASE}/organizations/${orgId}/chat_conversations`,
-    { credentials: 'include' }
-  )
-
-  if (!response.ok) {
-    if (response.status === 401 || response.status === 403) {
-      throw new Error('AUTH_REQUIRED: Session expired')
-    }
-    throw new Error(`API error: ${response.status}`)
-  }
+  return requestJson(`${API_BASE}/organizations/${orgId}/chat_conversations`, {
+    platform: 'claude',
+    endpoint: 'GET /chat_conversations',
+    credentials: 'include'
+  }, conversationsSchema)
+}
 
-  return response.json()
+/**
+ * Get projects for an organization
+ */
+export async function fetchProjects(
+  orgId: string
+): Promise<ClaudeProject[]> {
+  return requestJson(`${API_BASE}/organizations/${orgId}/projects`, {
+    platform: 'claude',
+    endpoint: 'GET /projects',
+    credentials: 'include'
+  }, projectsSchema)
 }
 
 /**
@@ -94,22 +173,11 @@ export async function fetchConversationDetail(
   orgId: string,
   conversationId: string
 ): Promise<ClaudeConversationDetail> {
-  const response = await fetch(
-    `${API_BASE}/organizations/${orgId}/chat_conversations/${conversationId}`,
-    { credentials: 'include' }
-  )
-
-  if (!response.ok) {
-    if (response.status === 401 || response.status === 403) {
-      throw new Error('AUTH_REQUIRED: Session expired')
-    }
-    if (response.status === 404) {
-      throw new Error('NOT_FOUND: Conversation not found')
-    }
-    throw new Error(`API error: ${response.status}`)
-  }
-
-  return response.json()
+  return requestJson(`${API_BASE}/organizations/${orgId}/chat_conversations/${conversationId}`, {
+    platform: 'claude',
+    endpoint: 'GET /chat_conversations/{id}',
+    credentials: 'include'
+  }, conversationDetailSchema)
 }
 
 /**
@@ -119,20 +187,50 @@ export async function deleteConversation(
   orgId: string,
   conversationId: string
 ): Promise<boolean> {
-  const response = await fetch(
-    `${API_BASE}/organizations/${orgId}/chat_conversations/${conversationId}`,
-    {
-      method: 'DELETE',
-      credentials: 'include'
-    }
-  )
-
-  if (!response.ok) {
-    if (response.status === 401 || response.status === 403) {
-      throw new Error('AUTH_REQUIRED: Session expired')
-    }
-    throw new Error(`API error: ${response.status}`)
-  }
+  await request(`${API_BASE}/organizations/${orgId}/chat_conversations/${conversationId}`, {
+    platform: 'claude',
+    endpoint: 'DELETE /chat_conversations/{id}',
+    method: 'DELETE',
+    credentials: 'include'
+  })
+
+  return true
+}
+
+/**
+ * Update conversation settings (name, is_starred)
+ */
+async function updateConversation(
+  orgId: string,
+  conversationId: string,
+  fields: Partial<Pick<ClaudeConversation, 'name' | 'is_starred'>>
+): Promise<boolean> {
+  await request(`${API_BASE}/organizations/${orgId}/chat_conversations/${conversationId}`, {
+    platform: 'claude',
+    endpoint: 'PUT /chat_conversations/{id}',
+    method: 'PUT',
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(fields)
+  })
 
   return true
 }
+
+export async function renameConversation(
+  orgId: string,
+  conversationId: string,
+  title: string
+): Promise<boolean> {
+  return updateConversation(orgId, conversationId, { name: title })
+}
+
+export async function setConversationStarred(
+  orgId: string,
+  conversationId: string,
+  starred: boolean
+): Promise<boolean> {
+  return updateConversation(orgId, conversationId, { is_starred: starred })
+}
@@ -0,0 +1,70 @@
+/**
+ * Self-hosted data adapter
+ * Converts configured list items and messages to unified format
+ */
+
+import type { UnifiedConversation, UnifiedMessage } from '../types'
+import type { CustomPlatformConfig } from './config'
+import { getCustomPlatformName } from './config'
+import { getPath } from './api'
+import { splitMarkdownCode, partsToText } from '../parts'
+
+const DEFAULT_USER_ROLES = ['user', 'human']
+
+/**
+ * Convert a timestamp of unknown style to milliseconds.
+ * Numbers below 1e12 are taken as unix seconds (Open WebUI), larger ones as
+ * milliseconds; strings are parsed as dates.
+ */
+export function toMillis(value: unknown): number {
+  if (typeof value === 'number') return value < 1e12 ? value * 1000 : value
+  if (typeof value === 'string') {
+    const numeric = Number(value)
+    if (value.trim() && !isNaN(numeric)) return toMillis(numeric)
+    const parsed = new Date(value).getTime()
+    return isNaN(parsed) ? 0 : parsed
+  }
+  return 0
+}
+
+function toText(value: unknown): string {
+  return typeof value === 'string' ? value : value === undefined || value === null ? '' : String(value)
+}
+
+export function toUnifiedConversation(config: CustomPlatformConfig, item: unknown): UnifiedConversation {
+  const fields = config.conversationFields
+  const createTime = toMillis(getPath(item, fields.createTime))
+  return {
+    id: toText(getPath(item, fields.id)),
+    title: toText(getPath(item, fields.title)) || 'Untitled',
+    createTime,
+    updateTime: toMillis(getPath(item, fields.updateTime)) || createTime,
+    platform: getCustomPlatformName(config.id)
+  }
+}
+
+/**
+ * Convert messages; anything not from the user is treated as the assistant
+ */
+export function extractMessages(config: CustomPlatformConfig, items: unknown[]): UnifiedMessage[] {
+  const fields = config.messageFields
+  const userRoles = fields.userRoleValues || DEFAULT_USER_ROLES
+
+  return items.flatMap((item, index): UnifiedMessage[] => {
+    const text = toText(getPath(item, fields.content))
+    if (!text.trim()) return []
+
+    const role = userRoles.includes(toText(getPath(item, fields.role))) ? 'user' : 'assistant'
+    const model = fields.model ? toText(getPath(item, fields.model)) : ''
+    const parts = splitMarkdownCode(text)
+
+    return [{
+      id: toText(getPath(item, fields.id)) || String(index),
+      role,
+      content: partsToText(parts),
+      parts,
+      createTime: fields.createTime ? toMillis(getPath(item, fields.createTime)) : 0,
+      model: role === 'assistant' && model ? model : undefined
+    }]
+  })
+}
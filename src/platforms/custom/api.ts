@@ -0,0 +1,126 @@
+/**
+ * Self-hosted chat UI API wrapper
+ * Endpoints and auth come from the user's CustomPlatformConfig
+ */
+
+import { request, requestJson } from '../http'
+import { ErrorCode, PlatformError } from '../../errors'
+import type { CustomPlatformConfig } from './config'
+import { getCustomPlatformName } from './config'
+
+/**
+ * Read a dot path ('chat.messages'); '' returns the value itself
+ */
+export function getPath(value: unknown, path: string): unknown {
+  if (!path) return value
+  let current = value
+  for (const key of path.split('.')) {
+    if (typeof current !== 'object' || current === null) return undefined
+    current = (current as Record<string, unknown>)[key]
+  }
+  return current
+}
+
+function buildUrl(config: CustomPlatformConfig, path: string, params: Record<string, string | number> = {}): string {
+  const url = new URL(config.baseUrl.replace(/\/+$/, '') + path)
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, String(value))
+  }
+  return url.toString()
+}
+
+function buildInit(config: CustomPlatformConfig): RequestInit {
+  const { auth } = config
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  if (auth.style === 'bearer' && auth.token) headers['Authorization'] = `Bearer ${auth.token}`
+  if (auth.style === 'header' && auth.headerName && auth.token) headers[auth.headerName] = auth.token
+
+  return {
+    headers,
+    credentials: auth.style === 'cookie' ? 'include' : 'omit'
+  }
+}
+
+/**
+ * Pull an array out of a response; anything else means the mapping no
+ * longer matches the server
+ */
+function expectArray(config: CustomPlatformConfig, data: unknown, path: string, endpoint: string): unknown[] {
+  const value = getPath(data, path)
+  if (!Array.isArray(value)) {
+    throw new PlatformError(ErrorCode.API_CHANGED, `No array at "${path || '(root)'}"`, {
+      platform: getCustomPlatformName(config.id),
+      endpoint
+    })
+  }
+  return value
+}
+
+/**
+ * Fetch one page of the conversation list, with the server's total count
+ * when list.totalPath points at one
+ * @param params - offset/limit or page query parameters
+ */
+export async function fetchConversationPage(
+  config: CustomPlatformConfig,
+  params: Record<string, string | number> = {}
+): Promise<{ items: unknown[]; total: number | null }> {
+  const endpoint = `GET ${config.list.path}`
+  const data = await requestJson<unknown>(buildUrl(config, config.list.path, params), {
+    ...buildInit(config),
+    platform: getCustomPlatformName(config.id),
+    endpoint
+  })
+  const total = config.list.totalPath ? Number(getPath(data, config.list.totalPath)) : NaN
+  return {
+    items: expectArray(config, data, config.list.itemsPath, endpoint),
+    total: Number.isFinite(total) ? total : null
+  }
+}
+
+/**
+ * Fetch one page of the conversation list
+ * @param params - offset/limit or page query parameters
+ */
+export async function fetchConversations(
+  config: CustomPlatformConfig,
+  params: Record<string, string | number> = {}
+): Promise<unknown[]> {
+  return (await fetchConversationPage(config, params)).items
+}
+
+export async function fetchConversationDetail(
+  config: CustomPlatformConfig,
+  conversationId: string
+): Promise<unknown[]> {
+  const endpoint = `GET ${config.detail.path}`
+  const path = config.detail.path.replace('{id}', encodeURIComponent(conversationId))
+  const data = await requestJson<unknown>(buildUrl(config, path), {
+    ...buildInit(config),
+    platform: getCustomPlatformName(config.id),
+    endpoint
+  })
+  return expectArray(config, data, config.detail.messagesPath, endpoint)
+}
+
+export async function deleteConversation(
+  config: CustomPlatformConfig,
+  conversationId: string
+): Promise<boolean> {
+  const endpoint = config.delete
+  if (!endpoint) {
+    throw new PlatformError(ErrorCode.NOT_SUPPORTED, 'No delete endpoint configured', {
+      platform: getCustomPlatformName(config.id)
+    })
+  }
+
+  await request(buildUrl(config, endpoint.path.replace('{id}', encodeURIComponent(conversationId))), {
+    ...buildInit(config),
+    platform: getCustomPlatformName(config.id),
+    endpoint: `${endpoint.method} ${endpoint.path}`,
+    method: endpoint.method,
+    body: endpoint.body ? endpoint.body.replace('{id}', JSON.stringify(conversationId).slice(1, -1)) : undefined
+  })
+
+  return true
+}
@@ -0,0 +1,175 @@
+/**
+ * Self-hosted platform configuration
+ * The user describes their instance (base URL, auth style, endpoint paths
+ * and field mappings); presets cover Open WebUI and LibreChat
+ */
+
+import type { CustomPlatformType, PlatformType } from '../types'
+
+export const CUSTOM_PLATFORMS_KEY = 'custom_platforms'
+
+export type CustomAuthStyle = 'bearer' | 'header' | 'cookie'
+
+export interface CustomAuthConfig {
+  style: CustomAuthStyle
+  token?: string                // Bearer token or header value (API key)
+  headerName?: string           // 'header' style, e.g. 'X-API-Key'
+}
+
+export interface CustomListEndpoint {
+  path: string
+  itemsPath: string             // Dot path to the conversation array; '' when the response is the array
+  pagination: 'offset' | 'page' | 'none'
+  offsetParam?: string          // 'offset' pagination
+  limitParam?: string
+  totalPath?: string            // 'offset' pagination: dot path to the total count, if the server reports it
+  pageParam?: string            // 'page' pagination; pages are walked until one comes back empty
+  firstPage?: number            // Defaults to 1
+}
+
+export interface CustomDetailEndpoint {
+  path: string                  // '{id}' is replaced with the conversation id
+  messagesPath: string          // Dot path to the message array; '' when the response is the array
+}
+
+export interface CustomDeleteEndpoint {
+  path: string
+  method: 'DELETE' | 'POST'
+  body?: string                 // JSON template; '{id}' is replaced
+}
+
+/**
+ * Dot paths into a list item
+ */
+export interface CustomConversationFields {
+  id: string
+  title: string
+  createTime: string
+  updateTime: string
+}
+
+/**
+ * Dot paths into a message
+ */
+export interface CustomMessageFields {
+  id: string
+  role: string
+  content: string
+  createTime?: string
+  model?: string
+  userRoleValues?: string[]     // Role values meaning the user (default: user, human)
+}
+
+/**
+ * Endpoint and field mappings; what a preset provides
+ */
+export interface CustomMappings {
+  deleteMode: 'soft' | 'hard'
+  list: CustomListEndpoint
+  detail: CustomDetailEndpoint
+  delete?: CustomDeleteEndpoint
+  conversationFields: CustomConversationFields
+  messageFields: CustomMessageFields
+}
+
+export interface CustomPlatformConfig extends CustomMappings {
+  id: string                    // Slug; the platform name is `custom-${id}`
+  displayName: string
+  baseUrl: string               // e.g. 'https://chat.internal.example.com'
+  color: string
+  auth: CustomAuthConfig
+}
+
+export type CustomPreset = 'openwebui' | 'librechat'
+
+export const CUSTOM_PRESETS: Record<CustomPreset, { label: string; mappings: CustomMappings }> = {
+  openwebui: {
+    label: 'Open WebUI',
+    mappings: {
+      deleteMode: 'hard',
+      list: { path: '/api/v1/chats/', itemsPath: '', pagination: 'page', pageParam: 'page', firstPage: 1 },
+      detail: { path: '/api/v1/chats/{id}', messagesPath: 'chat.messages' },
+      delete: { path: '/api/v1/chats/{id}', method: 'DELETE' },
+      conversationFields: { id: 'id', title: 'title', createTime: 'created_at', updateTime: 'updated_at' },
+      messageFields: { id: 'id', role: 'role', content: 'content', createTime: 'timestamp', model: 'model' }
+    }
+  },
+  librechat: {
+    label: 'LibreChat',
+    mappings: {
+      deleteMode: 'hard',
+      list: { path: '/api/convos', itemsPath: 'conversations', pagination: 'page', pageParam: 'pageNumber', firstPage: 1 },
+      detail: { path: '/api/messages/{id}', messagesPath: '' },
+      delete: { path: '/api/convos', method: 'DELETE', body: '{"arg":{"conversationId":"{id}"}}' },
+      conversationFields: { id: 'conversationId', title: 'title', createTime: 'createdAt', updateTime: 'updatedAt' },
+      messageFields: {
+        id: 'messageId',
+        role: 'isCreatedByUser',
+        content: 'text',
+        createTime: 'createdAt',
+        model: 'model',
+        userRoleValues: ['true']
+      }
+    }
+  }
+}
+
+export function isCustomPlatform(name: PlatformType | string): name is CustomPlatformType {
+  return name.startsWith('custom-')
+}
+
+export function getCustomPlatformName(id: string): CustomPlatformType {
+  return `custom-${id}`
+}
+
+/**
+ * Turn a display name into a config id
+ */
+export function slugifyPlatformId(displayName: string): string {
+  return displayName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'selfhosted'
+}
+
+/**
+ * Host permission pattern for an instance, requested at runtime
+ */
+export function getOriginPattern(baseUrl: string): string {
+  return `${new URL(baseUrl).origin}/*`
+}
+
+/**
+ * Check a config before saving; returns a message for the first problem
+ */
+export function validateCustomPlatformConfig(config: CustomPlatformConfig): string | null {
+  if (!config.displayName.trim()) return 'Name is required'
+
+  let url: URL
+  try {
+    url = new URL(config.baseUrl)
+  } catch {
+    return 'Base URL is not a valid URL'
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return 'Base URL must use http or https'
+
+  if (config.auth.style !== 'cookie' && !config.auth.token) return 'Token is required for this auth style'
+  if (config.auth.style === 'header' && !config.auth.headerName) return 'Header name is required'
+
+  const paths = [config.list?.path, config.detail?.path, config.delete?.path]
+  if (!config.list?.path || !config.detail?.path) return 'List and detail endpoints are required'
+  if (paths.some(path => path !== undefined && !path.startsWith('/'))) return 'Endpoint paths must start with /'
+  if (!config.detail.path.includes('{id}')) return 'Detail path must contain {id}'
+
+  const fields = config.conversationFields
+  if (!fields?.id || !fields.title || !config.messageFields?.content || !config.messageFields.role) {
+    return 'Conversation id/title and message role/content mappings are required'
+  }
+  return null
+}
+
+export async function loadCustomPlatformConfigs(): Promise<CustomPlatformConfig[]> {
+  const result = await chrome.storage.local.get(CUSTOM_PLATFORMS_KEY)
+  return (result[CUSTOM_PLATFORMS_KEY] as CustomPlatformConfig[] | undefined) || []
+}
+
+export async function saveCustomPlatformConfigs(configs: CustomPlatformConfig[]): Promise<void> {
+  await chrome.storage.local.set({ [CUSTOM_PLATFORMS_KEY]: configs })
+}
@@ -0,0 +1,199 @@
+/**
+ * Self-hosted Platform Implementation
+ * One instance per user-configured chat UI (Open WebUI, LibreChat, ...)
+ */
+
+import type {
+  PlatformAdapter,
+  PlatformCapabilities,
+  CustomPlatformType,
+  AuthResult,
+  ConversationsResult,
+  UnifiedConversation,
+  UnifiedMessage
+} from '../types'
+import { ErrorCode, toPlatformError } from '../../errors'
+import {
+  fetchConversationPage,
+  fetchConversations,
+  fetchConversationDetail,
+  deleteConversation as apiDeleteConversation
+} from './api'
+import { toUnifiedConversation, extractMessages } from './adapter'
+import type { CustomPlatformConfig } from './config'
+import { getCustomPlatformName, getOriginPattern } from './config'
+
+// Generic server icon (Feather "server")
+const SERVER_ICON = `<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect x="2" y="2" width="20" height="8" rx="2" ry="2"/><rect x="2" y="14" width="20" height="8" rx="2" ry="2"/><line x1="6" y1="6" x2="6.01" y2="6"/><line x1="6" y1="18" x2="6.01" y2="18"/></svg>`
+
+// Safety stop for 'page' pagination against servers that ignore the page parameter
+const MAX_LIST_PAGES = 200
+
+export class CustomPlatform implements PlatformAdapter {
+  readonly name: CustomPlatformType
+  readonly displayName: string
+  readonly hostPatterns: string[]
+  readonly icon = SERVER_ICON
+  readonly color: string
+  readonly capabilities: PlatformCapabilities
+
+  private token: string | null
+
+  // Page- and un-paginated lists are walked in full on offset 0 and later
+  // offsets are served from the snapshot, like Gemini
+  private listSnapshot: UnifiedConversation[] = []
+
+  constructor(readonly config: CustomPlatformConfig) {
+    this.name = getCustomPlatformName(config.id)
+    this.displayName = config.displayName
+    this.hostPatterns = [new URL(config.baseUrl).host]
+    this.color = config.color
+    this.token = config.auth.token || null
+    this.capabilities = {
+      serverPagination: config.list.pagination === 'offset',
+      deleteMode: config.deleteMode,
+      restore: false,
+      rename: false,
+      star: false,
+      projects: false,
+      searchApi: false,
+      attachments: false
+    }
+  }
+
+  // Credentials come from the config, not from a content script
+  setToken(token: string): void {
+    this.token = token
+  }
+
+  getToken(): string | null {
+    return this.token
+  }
+
+  async checkAuth(): Promise<AuthResult> {
+    const origin = getOriginPattern(this.config.baseUrl)
+    const granted = await chrome.permissions.contains({ origins: [origin] })
+    if (!granted) {
+      return {
+        ok: false,
+        error: ErrorCode.AUTH_REQUIRED,
+        message: `Access to ${this.hostPatterns[0]} was not granted. Edit the platform and save to allow it.`
+      }
+    }
+
+    try {
+      await fetchConversations(this.config, this.getListParams(0, 1))
+      return { ok: true }
+    } catch (err) {
+      const error = toPlatformError(err, { platform: this.name })
+      if (error.code === ErrorCode.AUTH_REQUIRED) {
+        return {
+          ok: false,
+          error: ErrorCode.AUTH_REQUIRED,
+          message: this.config.auth.style === 'cookie'
+            ? `Please log in to ${this.hostPatterns[0]} first`
+            : 'Token rejected. Check the token in the platform settings.'
+        }
+      }
+      return {
+        ok: false,
+        error: error.code,
+        message: error.message,
+        retryAfter: error.retryAfter
+      }
+    }
+  }
+
+  private getListParams(offset: number, limit: number, page?: number): Record<string, string | number> {
+    const list = this.config.list
+    if (list.pagination === 'offset') {
+      return {
+        [list.offsetParam || 'offset']: offset,
+        [list.limitParam || 'limit']: limit
+      }
+    }
+    if (list.pagination === 'page') {
+      return { [list.pageParam || 'page']: page ?? list.firstPage ?? 1 }
+    }
+    return {}
+  }
+
+  /**
+   * Walk every page until one comes back empty or repeats
+   */
+  private async fetchAllConversations(): Promise<UnifiedConversation[]> {
+    const list = this.config.list
+    if (list.pagination === 'none') {
+      const items = await fetchConversations(this.config)
+      return items.map(item => toUnifiedConversation(this.config, item))
+    }
+
+    const all: UnifiedConversation[] = []
+    const seen = new Set<string>()
+    const firstPage = list.firstPage ?? 1
+
+    for (let page = firstPage; page < firstPage + MAX_LIST_PAGES; page++) {
+      const items = await fetchConversations(this.config, this.getListParams(0, 0, page))
+      const fresh = items
+        .map(item => toUnifiedConversation(this.config, item))
+        .filter(conv => !seen.has(conv.id))
+      if (fresh.length === 0) break
+
+      fresh.forEach(conv => seen.add(conv.id))
+      all.push(...fresh)
+    }
+    return all
+  }
+
+  async getConversations(offset = 0, limit = 50): Promise<ConversationsResult> {
+    if (this.config.list.pagination === 'offset') {
+      const { items, total } = await fetchConversationPage(this.config, this.getListParams(offset, limit))
+      const conversations = items.map(item => toUnifiedConversation(this.config, item))
+      // Without a reported total, the count isn't known until the last page
+      return {
+        conversations,
+        total: total ?? (conversations.length < limit ? offset + conversations.length : null),
+        hasMore: conversations.length === limit
+      }
+    }
+
+    if (offset === 0 || this.listSnapshot.length === 0) {
+      const all = await this.fetchAllConversations()
+      all.sort((a, b) => b.updateTime - a.updateTime)
+      this.listSnapshot = all
+    }
+
+    return {
+      conversations: this.listSnapshot.slice(offset, offset + limit),
+      total: this.listSnapshot.length,
+      hasMore: offset + limit < this.listSnapshot.length
+    }
+  }
+
+  async getConversationDetail(id: string): Promise<UnifiedMessage[]> {
+    const items = await fetchConversationDetail(this.config, id)
+    return extractMessages(this.config, items)
+  }
+
+  async deleteConversation(id: string): Promise<boolean> {
+    const deleted = await apiDeleteConversation(this.config, id)
+    this.listSnapshot = this.listSnapshot.filter(c => c.id !== id)
+    return deleted
+  }
+
+  async deleteConversations(ids: string[]): Promise<{ success: string[]; failed: string[] }> {
+    const success: string[] = []
+    const failed: string[] = []
+
+    for (const id of ids) {
+      try {
+        await this.deleteConversation(id)
+        success.push(id)
+      } catch {
+        failed.push(id)
+      }
+    }
+
+    return { success, failed }
+  }
+}
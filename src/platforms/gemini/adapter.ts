@@ -0,0 +1,87 @@
+/**
+ * Gemini data adapter
+ * Converts Gemini batchexecute payloads to unified format
+ */
+
+import type { UnifiedConversation, UnifiedMessage } from '../types'
+import type { GeminiChatItem, GeminiTurn } from './api'
+import { splitMarkdownCode, partsToText } from '../parts'
+
+/**
+ * Safely walk a nested positional array
+ */
+function pick(value: unknown, ...path: number[]): unknown {
+  let current = value
+  for (const i of path) {
+    if (!Array.isArray(current)) return undefined
+    current = current[i]
+  }
+  return current
+}
+
+/**
+ * Convert a [seconds, nanos] timestamp to milliseconds
+ */
+function toMillis(value: unknown): number {
+  const seconds = pick(value, 0)
+  const nanos = pick(value, 1)
+  if (typeof seconds !== 'number') return 0
+  return seconds * 1000 + (typeof nanos === 'number' ? Math.floor(nanos / 1e6) : 0)
+}
+
+/**
+ * Convert Gemini chat list item to unified format
+ */
+export function toUnifiedConversation(item: GeminiChatItem): UnifiedConversation {
+  // The list only carries the last-activity time, so it doubles as createTime
+  const time = toMillis(item[5])
+  return {
+    id: item[0],
+    title: item[1] || 'Untitled',
+    createTime: time,
+    updateTime: time,
+    platform: 'gemini',
+    isStarred: item[2] === true
+  }
+}
+
+/**
+ * Extract messages from Gemini chat turns.
+ * Each turn holds one user prompt and the selected model response;
+ * the API returns turns newest first.
+ */
+export function extractMessages(turns: GeminiTurn[]): UnifiedMessage[] {
+  const messages: UnifiedMessage[] = []
+
+  for (const turn of [...turns].reverse()) {
+    const responseId = String(pick(turn, 0, 1) ?? '')
+    const createTime = toMillis(pick(turn, 4)) || Date.now()
+
+    const prompt = pick(turn, 2, 0, 0)
+    if (typeof prompt === 'string' && prompt.trim()) {
+      const parts = splitMarkdownCode(prompt)
+      messages.push({
+        id: `${responseId}_prompt`,
+        role: 'user',
+        content: partsToText(parts),
+        parts,
+        createTime
+      })
+    }
+
+    const candidateId = pick(turn, 3, 0, 0, 0)
+    const reply = pick(turn, 3, 0, 0, 1, 0)
+    if (typeof reply === 'string' && reply.trim()) {
+      const parts = splitMarkdownCode(reply)
+      messages.push({
+        id: typeof candidateId === 'string' ? candidateId : `${responseId}_reply`,
+        role: 'assistant',
+        content: partsToText(parts),
+        parts,
+        createTime
+      })
+    }
+  }
+
+  return messages
+}
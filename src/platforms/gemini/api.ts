@@ -0,0 +1,188 @@
+/**
+ * Gemini API wrapper
+ * Base URL: https://gemini.google.com/_/BardChatUi/data/batchexecute
+ * Authentication: Google session cookies (credentials: 'include') + page-level XSRF token
+ *
+ * Gemini has no REST API - the web app talks to a single "batchexecute" RPC
+ * endpoint, selecting the operation by rpc id and passing positional JSON arrays.
+ */
+
+import { ErrorCode, PlatformError } from '../../errors'
+import { request } from '../http'
+
+const BATCH_EXECUTE_URL = 'https://gemini.google.com/_/BardChatUi/data/batchexecute'
+
+// RPC ids used by the Gemini web app
+const RPC_LIST_CHATS = 'MaZiqc'
+const RPC_READ_CHAT = 'hNvQHb'
+const RPC_DELETE_CHAT = 'GzXR5e'
+
+/**
+ * Session values scraped from the Gemini page (WIZ_global_data)
+ */
+export interface GeminiSession {
+  at: string      // SNlM0e - XSRF token required on every RPC call
+  bl?: string     // cfb2h - frontend build label
+  sid?: string    // FdrFJe - session id
+}
+
+/**
+ * List item: [id, title, isPinned, ..., [seconds, nanos], ...]
+ */
+export type GeminiChatItem = [string, string, boolean | null, ...unknown[]]
+
+export interface GeminiChatsPage {
+  chats: GeminiChatItem[]
+  nextPageToken: string | null
+}
+
+/**
+ * One prompt/response turn as returned by the read-chat RPC (newest first)
+ */
+export type GeminiTurn = unknown[]
+
+export function parseSession(token: string): GeminiSession | null {
+  try {
+    const session = JSON.parse(token) as GeminiSession
+    return session?.at ? session : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Call a batchexecute RPC and return the decoded payload
+ */
+async function batchExecute(
+  session: GeminiSession,
+  rpcId: string,
+  payload: unknown[]
+): Promise<unknown> {
+  const params = new URLSearchParams({
+    rpcids: rpcId,
+    'source-path': '/app',
+    hl: 'en',
+    _reqid: String(Math.floor(Math.random() * 900000) + 100000),
+    rt: 'c'
+  })
+  if (session.bl) params.set('bl', session.bl)
+  if (session.sid) params.set('f.sid', session.sid)
+
+  const body = new URLSearchParams({
+    'f.req': JSON.stringify([[[rpcId, JSON.stringify(payload), null, 'generic']]]),
+    at: session.at
+  })
+
+  const response = await request(`${BATCH_EXECUTE_URL}?${params.toString()}`, {
+    platform: 'gemini',
+    endpoint: `POST batchexecute ${rpcId}`,
+    method: 'POST',
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded;charset=UTF-8'
+    },
+    body: body.toString(),
+    // Reads go through POST too, but only deletes change anything
+    idempotent: rpcId !== RPC_DELETE_CHAT,
+    // batchexecute answers 400 when the XSRF token is stale
+    statusCodes: { 400: ErrorCode.AUTH_REQUIRED }
+  })
+
+  return parseBatchResponse(await response.text(), rpcId)
+}
+
+/**
+ * Decode a batchexecute response body.
+ * The body starts with an anti-XSSI prefix followed by length-prefixed JSON
+ * chunks; the RPC result is a JSON string inside a ["wrb.fr", rpcId, ...] envelope.
+ */
+export function parseBatchResponse(text: string, rpcId: string): unknown {
+  const lines = text.replace(/^\)\]\}'/, '').split('\n')
+
+  for (const line of lines) {
+    const trimmed = line.trim()
+    if (!trimmed.startsWith('[')) continue
+
+    let chunk: unknown
+    try {
+      chunk = JSON.parse(trimmed)
+    } catch {
+      continue
+    }
+    if (!Array.isArray(chunk)) continue
+
+    for (const envelope of chunk) {
+      if (Array.isArray(envelope) && envelope[0] === 'wrb.fr' && envelope[1] === rpcId) {
+        if (typeof envelope[2] !== 'string') {
+          throw new PlatformError(ErrorCode.API_CHANGED, `Empty ${rpcId} response`, {
+            platform: 'gemini',
+            endpoint: `POST batchexecute ${rpcId}`
+          })
+        }
+        try {
+          return JSON.parse(envelope[2])
+        } catch {
+          throw new PlatformError(ErrorCode.API_CHANGED, `Malformed ${rpcId} payload`, {
+            platform: 'gemini',
+            endpoint: `POST batchexecute ${rpcId}`
+          })
+        }
+      }
+    }
+  }
+
+  throw new PlatformError(ErrorCode.API_CHANGED, `No ${rpcId} payload in response`, {
+    platform: 'gemini',
+    endpoint: `POST batchexecute ${rpcId}`
+  })
+}
+
+/**
+ * Get one page of the chat list
+ */
+export async function fetchConversations(
+  session: GeminiSession,
+  pageSize = 50,
+  pageToken: string | null = null
+): Promise<GeminiChatsPage> {
+  const data = await batchExecute(session, RPC_LIST_CHATS, [pageSize, pageToken, [0, null, 1]]) as unknown[] | null
+
+  return {
+    chats: (Array.isArray(data?.[2]) ? data[2] : []) as GeminiChatItem[],
+    nextPageToken: typeof data?.[1] === 'string' && data[1] ? data[1] : null
+  }
+}
+
+/**
+ * Get all turns of a chat
+ */
+export async function fetchConversationDetail(
+  session: GeminiSession,
+  conversationId: string
+): Promise<GeminiTurn[]> {
+  const data = await batchExecute(
+    session,
+    RPC_READ_CHAT,
+    [conversationId, 1000, null, 1, [0], [4], null, 1]
+  ) as unknown[] | null
+
+  if (!data) {
+    throw new PlatformError(ErrorCode.NOT_FOUND, 'Conversation not found', {
+      platform: 'gemini',
+      endpoint: `POST batchexecute ${RPC_READ_CHAT}`
+    })
+  }
+
+  return (Array.isArray(data[0]) ? data[0] : []) as GeminiTurn[]
+}
+
+/**
+ * Delete a chat (hard delete)
+ */
+export async function deleteConversation(
+  session: GeminiSession,
+  conversationId: string
+): Promise<boolean> {
+  await batchExecute(session, RPC_DELETE_CHAT, [conversationId])
+  return true
+}
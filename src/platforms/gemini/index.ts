@@ -0,0 +1,158 @@
+/**
+ * Gemini Platform Implementation
+ */
+
+import type {
+  PlatformAdapter,
+  PlatformCapabilities,
+  PlatformType,
+  AuthResult,
+  ConversationsResult,
+  UnifiedConversation,
+  UnifiedMessage
+} from '../types'
+import { ErrorCode, PlatformError, toPlatformError } from '../../errors'
+import {
+  parseSession,
+  fetchConversations,
+  fetchConversationDetail,
+  deleteConversation as apiDeleteConversation
+} from './api'
+import type { GeminiSession } from './api'
+import { toUnifiedConversation, extractMessages } from './adapter'
+
+// Gemini sparkle logo SVG from Simple Icons
+const GEMINI_ICON = `<svg viewBox="0 0 24 24" fill="currentColor"><path d="M12 24A14.304 14.304 0 0 0 0 12 14.304 14.304 0 0 0 12 0a14.305 14.305 0 0 0 12 12 14.305 14.305 0 0 0-12 12"/></svg>`
+
+// Page size used when walking the cursor-paginated chat list
+const LIST_PAGE_SIZE = 100
+
+export class GeminiPlatform implements PlatformAdapter {
+  readonly name: PlatformType = 'gemini'
+  readonly displayName = 'Gemini'
+  readonly hostPatterns = ['gemini.google.com']
+  readonly icon = GEMINI_ICON
+  readonly color = '#4285F4'
+  readonly capabilities: PlatformCapabilities = {
+    serverPagination: false,  // Cursor-paged; walked in full on offset 0
+    deleteMode: 'hard',
+    restore: false,
+    rename: false,
+    star: false,
+    projects: false,
+    searchApi: false,
+    attachments: false
+  }
+
+  // Token is a JSON-encoded GeminiSession scraped by the content script
+  private token: string | null = null
+  private session: GeminiSession | null = null
+
+  // Gemini pages by cursor, not offset. The full list is walked on offset 0
+  // and later offsets are served from it, like Claude's client-side paging.
+  private listSnapshot: UnifiedConversation[] = []
+
+  setToken(token: string): void {
+    this.token = token
+    this.session = parseSession(token)
+  }
+
+  getToken(): string | null {
+    return this.token
+  }
+
+  private ensureSession(): GeminiSession {
+    if (!this.session) {
+      throw new PlatformError(ErrorCode.AUTH_REQUIRED, 'No token available', { platform: this.name })
+    }
+    return this.session
+  }
+
+  async checkAuth(): Promise<AuthResult> {
+    if (!this.session) {
+      return {
+        ok: false,
+        error: ErrorCode.AUTH_REQUIRED,
+        message: 'Please open Gemini and log in first'
+      }
+    }
+
+    try {
+      await fetchConversations(this.session, 1)
+      return { ok: true }
+    } catch (err) {
+      const error = toPlatformError(err, { platform: this.name })
+      if (error.code === ErrorCode.AUTH_REQUIRED) {
+        return {
+          ok: false,
+          error: ErrorCode.AUTH_REQUIRED,
+          message: 'Session expired. Please refresh Gemini page.'
+        }
+      }
+      return {
+        ok: false,
+        error: error.code,
+        message: error.message,
+        retryAfter: error.retryAfter
+      }
+    }
+  }
+
+  async getConversations(offset = 0, limit = 50): Promise<ConversationsResult> {
+    const session = this.ensureSession()
+
+    if (offset === 0 || this.listSnapshot.length === 0) {
+      const all: UnifiedConversation[] = []
+      let pageToken: string | null = null
+
+      do {
+        const page = await fetchConversations(session, LIST_PAGE_SIZE, pageToken)
+        all.push(...page.chats.map(toUnifiedConversation))
+        pageToken = page.nextPageToken
+      } while (pageToken)
+
+      // Sort by update time (newest first)
+      all.sort((a, b) => b.updateTime - a.updateTime)
+      this.listSnapshot = all
+    }
+
+    const paginatedConversations = this.listSnapshot.slice(offset, offset + limit)
+
+    return {
+      conversations: paginatedConversations,
+      total: this.listSnapshot.length,
+      hasMore: offset + limit < this.listSnapshot.length
+    }
+  }
+
+  async getConversationDetail(id: string): Promise<UnifiedMessage[]> {
+    const session = this.ensureSession()
+    const turns = await fetchConversationDetail(session, id)
+    return extractMessages(turns)
+  }
+
+  async deleteConversation(id: string): Promise<boolean> {
+    const session = this.ensureSession()
+    const deleted = await apiDeleteConversation(session, id)
+    this.listSnapshot = this.listSnapshot.filter(c => c.id !== id)
+    return deleted
+  }
+
+  async deleteConversations(ids: string[]): Promise<{ success: string[]; failed: string[] }> {
+    const success: string[] = []
+    const failed: string[] = []
+
+    for (const id of ids) {
+      try {
+        await this.deleteConversation(id)
+        success.push(id)
+      } catch {
+        failed.push(id)
+      }
+    }
+
+    return { success, failed }
+  }
+}
+
+export const geminiPlatform = new GeminiPlatform()
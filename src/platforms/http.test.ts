@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { ErrorCode } from '../errors'
+import { request, requestJson } from './http'
+
+/**
+ * fetch answering with headers at once and then the given body chunks;
+ * without a last chunk the body stalls until the request is aborted
+ */
+function stubFetch(chunks: string[], end = true, status = 200) {
+  const fetch = vi.fn(async (_url: string, init: RequestInit) => {
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const chunk of chunks) controller.enqueue(new TextEncoder().encode(chunk))
+        if (end) controller.close()
+        // As fetch does, aborting errors a body still being read
+        init.signal?.addEventListener('abort', () => controller.error(new DOMException('Aborted', 'AbortError')))
+      }
+    })
+    return new Response(status === 204 ? null : body, { status, headers: { 'Content-Type': 'application/json' } })
+  })
+  vi.stubGlobal('fetch', fetch)
+  return fetch
+}
+
+const options = { platform: 'test', endpoint: 'GET /items', timeoutMs: 50 }
+
+describe('request', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('returns the response with its body read', async () => {
+    stubFetch(['{"items":', '[1,2]}'])
+    expect(await requestJson('https://example.com/items', options)).toEqual({ items: [1, 2] })
+  })
+
+  it('times out a body that stalls after the headers, and retries it', async () => {
+    const fetch = stubFetch(['{"items":'], false)
+    const error = await requestJson('https://example.com/items', { ...options, retries: 1 }).catch(err => err)
+    expect(error).toMatchObject({ code: ErrorCode.TIMEOUT })
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('keeps a no-content response empty', async () => {
+    stubFetch([], true, 204)
+    const response = await request('https://example.com/items/1', { ...options, method: 'DELETE' })
+    expect(response.status).toBe(204)
+    expect(await response.text()).toBe('')
+  })
+})
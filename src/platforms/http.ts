@@ -0,0 +1,219 @@
+/**
+ * HTTP client shared by the platform API wrappers
+ * Adds per-request timeouts, retries for idempotent requests (jittered
+ * exponential backoff, Retry-After aware), response validation and request
+ * diagnostics
+ */
+
+import { ErrorCode, PlatformError, toPlatformError } from '../errors'
+import type { PlatformErrorDetails } from '../errors'
+import { validate, redactSample, formatIssue } from './schema'
+import type { SchemaDriftReport, Validator } from './schema'
+
+export interface RequestOptions extends RequestInit {
+  platform: string
+  endpoint: string            // Label for errors and diagnostics, e.g. 'GET /conversations'
+  timeoutMs?: number
+  idempotent?: boolean        // Safe to retry; defaults to true for GET
+  retries?: number
+  statusCodes?: Record<number, ErrorCode>  // Platform-specific status meanings
+}
+
+/**
+ * One finished request attempt, reported to the diagnostics log
+ */
+export interface RequestLogEntry {
+  platform: string
+  endpoint: string
+  status?: number
+  duration: number
+  attempt: number
+  error?: PlatformError
+  willRetry: boolean
+}
+
+export const HTTP_CONFIG = {
+  timeoutMs: 30000,
+  retries: 3,
+  backoffBaseMs: 500,
+  backoffMaxMs: 10000,
+  maxRetryAfterMs: 30000,     // Longer Retry-After waits are left to the caller
+  slowRequestMs: 5000         // Successful requests slower than this are logged
+}
+
+// Errors worth another attempt; everything else fails immediately
+const RETRYABLE_CODES = new Set([
+  ErrorCode.NETWORK_ERROR,
+  ErrorCode.TIMEOUT,
+  ErrorCode.SERVER_ERROR,
+  ErrorCode.RATE_LIMITED
+])
+
+let requestLogger: ((entry: RequestLogEntry) => void) | null = null
+let driftReporter: ((report: SchemaDriftReport) => void) | null = null
+
+/**
+ * Register the diagnostics sink (the background script's log)
+ */
+export function setRequestLogger(logger: (entry: RequestLogEntry) => void): void {
+  requestLogger = logger
+}
+
+/**
+ * Register the sink for responses that fail schema validation
+ */
+export function setDriftReporter(reporter: (report: SchemaDriftReport) => void): void {
+  driftReporter = reporter
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Delay before the next attempt: Retry-After when given, otherwise
+ * "full jitter" exponential backoff
+ */
+function getRetryDelay(error: PlatformError, attempt: number): number {
+  if (error.retryAfter !== undefined) return error.retryAfter * 1000
+  const ceiling = Math.min(HTTP_CONFIG.backoffMaxMs, HTTP_CONFIG.backoffBaseMs * 2 ** attempt)
+  return Math.random() * ceiling
+}
+
+/**
+ * Fetch with timeout; non-OK responses and transport failures become PlatformErrors.
+ * The timeout covers the body as well as the headers, so a successful
+ * response comes back with its body already read.
+ */
+async function attempt(url: string, options: RequestOptions): Promise<Response> {
+  const { platform, endpoint, timeoutMs = HTTP_CONFIG.timeoutMs, statusCodes, ...init } = options
+  const details: PlatformErrorDetails = { platform, endpoint }
+
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+  // Propagate a caller-supplied signal
+  init.signal?.addEventListener('abort', () => controller.abort())
+
+  let response: Response
+  let body = ''
+  try {
+    response = await fetch(url, { ...init, signal: controller.signal })
+    // A body that stalls after the headers would otherwise hang the caller
+    if (response.ok) body = await response.text()
+  } catch (err) {
+    if (controller.signal.aborted && !init.signal?.aborted) {
+      throw new PlatformError(ErrorCode.TIMEOUT, `No response after ${timeoutMs / 1000}s`, details)
+    }
+    if (err instanceof TypeError) {
+      throw new PlatformError(ErrorCode.NETWORK_ERROR, err.message, details)
+    }
+    throw toPlatformError(err, details)
+  } finally {
+    clearTimeout(timer)
+  }
+
+  if (!response.ok) {
+    const error = PlatformError.fromResponse(response, details)
+    const override = statusCodes?.[response.status]
+    throw override
+      ? new PlatformError(override, error.message, { ...details, status: error.status, retryAfter: error.retryAfter })
+      : error
+  }
+
+  // No-content statuses (204, 205) can't be given a body, even an empty one
+  return new Response(body || null, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers
+  })
+}
+
+/**
+ * Make a request, retrying idempotent ones on transient failures
+ */
+export async function request(url: string, options: RequestOptions): Promise<Response> {
+  const method = (options.method || 'GET').toUpperCase()
+  const idempotent = options.idempotent ?? (method === 'GET' || method === 'HEAD')
+  const maxRetries = idempotent ? (options.retries ?? HTTP_CONFIG.retries) : 0
+
+  for (let i = 0; ; i++) {
+    const startTime = Date.now()
+    try {
+      const response = await attempt(url, options)
+      const duration = Date.now() - startTime
+      if (i > 0 || duration > HTTP_CONFIG.slowRequestMs) {
+        requestLogger?.({
+          platform: options.platform,
+          endpoint: options.endpoint,
+          status: response.status,
+          duration,
+          attempt: i + 1,
+          willRetry: false
+        })
+      }
+      return response
+    } catch (err) {
+      const error = toPlatformError(err, { platform: options.platform, endpoint: options.endpoint })
+      const delay = getRetryDelay(error, i)
+      const willRetry = i < maxRetries &&
+        RETRYABLE_CODES.has(error.code) &&
+        delay <= HTTP_CONFIG.maxRetryAfterMs &&
+        !options.signal?.aborted
+
+      requestLogger?.({
+        platform: options.platform,
+        endpoint: options.endpoint,
+        status: error.status,
+        duration: Date.now() - startTime,
+        attempt: i + 1,
+        error,
+        willRetry
+      })
+
+      if (!willRetry) throw error
+      await sleep(delay)
+    }
+  }
+}
+
+/**
+ * Read a JSON body; an unparseable body (e.g. an HTML error page) means the
+ * API no longer answers the way the wrapper expects
+ */
+export async function readJson<T>(response: Response, details: PlatformErrorDetails = {}): Promise<T> {
+  try {
+    return await response.json() as T
+  } catch {
+    throw new PlatformError(ErrorCode.API_CHANGED, 'Response is not valid JSON', {
+      ...details,
+      status: response.status
+    })
+  }
+}
+
+/**
+ * Request and parse a JSON response. With a schema, a body that doesn't
+ * match is reported as drift and rejected with API_CHANGED.
+ */
+export async function requestJson<T>(url: string, options: RequestOptions, schema?: Validator): Promise<T> {
+  const response = await request(url, options)
+  const details: PlatformErrorDetails = { platform: options.platform, endpoint: options.endpoint }
+  const data = await readJson<T>(response, details)
+  if (!schema) return data
+
+  const issues = validate(schema, data)
+  if (issues.length > 0) {
+    driftReporter?.({
+      timestamp: Date.now(),
+      platform: options.platform,
+      endpoint: options.endpoint,
+      issues,
+      sample: redactSample(data)
+    })
+    throw new PlatformError(ErrorCode.API_CHANGED, `Unexpected response: ${formatIssue(issues[0])}`, {
+      ...details,
+      status: response.status
+    })
+  }
+  return data
+}
@@ -0,0 +1,42 @@
+/**
+ * Model metadata helpers
+ * Platforms report models at different levels: Claude per conversation in
+ * the list, ChatGPT per assistant message in the detail. These helpers merge
+ * both into one view for badges, filtering and stats.
+ */
+
+import type { ContentIndexEntry, UnifiedConversation, UnifiedMessage } from './types'
+
+/**
+ * Count assistant messages per model
+ */
+export function countModels(messages: UnifiedMessage[]): Record<string, number> {
+  const counts: Record<string, number> = {}
+  for (const message of messages) {
+    if (message.model) counts[message.model] = (counts[message.model] || 0) + 1
+  }
+  return counts
+}
+
+/**
+ * Models used in a conversation, most used first.
+ * Per-message counts from the content index win over the list's model.
+ */
+export function getConversationModels(
+  conv: UnifiedConversation,
+  indexEntry?: ContentIndexEntry
+): string[] {
+  const counted = Object.entries(indexEntry?.models || {})
+    .sort((a, b) => b[1] - a[1])
+    .map(([model]) => model)
+  const listed = (conv.models || []).filter(model => !counted.includes(model))
+  return [...counted, ...listed]
+}
+
+/**
+ * Short display name: drops the release date suffix
+ * (claude-3-5-sonnet-20241022 -> claude-3-5-sonnet, gpt-4o-2024-08-06 -> gpt-4o)
+ */
+export function formatModelName(model: string): string {
+  return model.replace(/-(\d{8}|\d{4}-\d{2}-\d{2})$/, '')
+}
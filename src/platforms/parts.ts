@@ -0,0 +1,97 @@
+/**
+ * Message part helpers
+ * Shared by platform adapters (building parts) and UI/indexing (reading them)
+ */
+
+import type { MessagePart, MessagePartType, UnifiedMessage } from './types'
+
+// Fenced markdown code block: ```lang\n...\n```
+const CODE_FENCE_RE = /```([\w+#.-]*)[^\S\n]*\n([\s\S]*?)```/g
+
+/**
+ * Get message parts, falling back to the plain content for messages
+ * stored before parts existed
+ */
+export function getMessageParts(message: UnifiedMessage): MessagePart[] {
+  if (message.parts && message.parts.length > 0) return message.parts
+  return message.content ? [{ type: 'text', text: message.content }] : []
+}
+
+/**
+ * Split markdown text into text and fenced code parts
+ */
+export function splitMarkdownCode(text: string): MessagePart[] {
+  const parts: MessagePart[] = []
+  let lastIndex = 0
+
+  for (const match of text.matchAll(CODE_FENCE_RE)) {
+    const before = text.slice(lastIndex, match.index)
+    if (before.trim()) parts.push({ type: 'text', text: before.trim() })
+
+    parts.push({
+      type: 'code',
+      code: match[2].replace(/\n$/, ''),
+      language: match[1] || undefined
+    })
+    lastIndex = (match.index || 0) + match[0].length
+  }
+
+  const rest = text.slice(lastIndex)
+  if (rest.trim()) parts.push({ type: 'text', text: rest.trim() })
+
+  return parts
+}
+
+/**
+ * Render parts as plain text (used for UnifiedMessage.content and snippets)
+ */
+export function partsToText(parts: MessagePart[]): string {
+  return parts.map(part => {
+    switch (part.type) {
+      case 'text': return part.text
+      case 'code': return '```' + (part.language || '') + '\n' + part.code + '\n```'
+      case 'image': return `[Image${part.alt ? `: ${part.alt}` : ''}]`
+      case 'attachment': return `[Attachment: ${part.name}]`
+      case 'tool_call': return `[Tool: ${part.name}]${part.input ? '\n' + part.input : ''}`
+      case 'tool_result': return part.output
+      case 'citation': return `[${part.title || part.url}](${part.url})`
+    }
+  }).filter(Boolean).join('\n\n')
+}
+
+/**
+ * Render parts as searchable text: every textual payload, no markup
+ */
+export function partsToSearchText(parts: MessagePart[]): string {
+  return parts.map(part => {
+    switch (part.type) {
+      case 'text': return part.text
+      case 'code': return part.code
+      case 'image': return part.alt || ''
+      case 'attachment': return part.name
+      case 'tool_call': return [part.name, part.input].filter(Boolean).join(' ')
+      case 'tool_result': return part.output
+      case 'citation': return [part.title, part.snippet, part.url].filter(Boolean).join(' ')
+    }
+  }).filter(Boolean).join(' ')
+}
+
+/**
+ * Check whether a message contains a part of the given type
+ */
+export function hasPartType(message: UnifiedMessage, type: MessagePartType): boolean {
+  return getMessageParts(message).some(part => part.type === type)
+}
+
+/**
+ * Serialize a tool input object for display
+ */
+export function stringifyToolInput(input: unknown): string | undefined {
+  if (input === undefined || input === null) return undefined
+  if (typeof input === 'string') return input
+  try {
+    return JSON.stringify(input, null, 2)
+  } catch {
+    return String(input)
+  }
+}
@@ -1,20 +1,47 @@
 /**
  * Platform Registry
- * Central place to register and discover platform adapters
+ * Central place to register and discover platform adapters.
+ * Built-in platforms are fixed; self-hosted ones are registered at runtime
+ * from the user's configs.
  */
 
 import type { PlatformAdapter, PlatformConfig, PlatformType } from './types'
 import { ChatGPTPlatform } from './chatgpt'
 import { ClaudePlatform } from './claude'
-// import { GeminiPlatform } from './gemini'  // Future: Gemini support
+import { GeminiPlatform } from './gemini'
+import { CustomPlatform } from './custom'
+import { loadCustomPlatformConfigs, validateCustomPlatformConfig } from './custom/config'
+import type { CustomPlatformConfig } from './custom/config'
 
 // Singleton platform instances
-const platforms: PlatformAdapter[] = [
+const builtinPlatforms: PlatformAdapter[] = [
   new ChatGPTPlatform(),
   new ClaudePlatform(),
-  // new GeminiPlatform(),  // Future: Gemini support
+  new GeminiPlatform(),
 ]
 
+let platforms: PlatformAdapter[] = [...builtinPlatforms]
+
+/**
+ * Replace the registered self-hosted platforms.
+ * Adapters whose config is unchanged are kept, so their state survives.
+ */
+export function registerCustomPlatforms(configs: CustomPlatformConfig[]): void {
+  const existing = platforms.filter((p): p is CustomPlatform => p instanceof CustomPlatform)
+  // A broken stored config must not take the built-in platforms down with it
+  const custom = configs.filter(config => !validateCustomPlatformConfig(config)).map(config =>
+    existing.find(p => JSON.stringify(p.config) === JSON.stringify(config)) || new CustomPlatform(config)
+  )
+  platforms = [...builtinPlatforms, ...custom]
+}
+
+/**
+ * Register the self-hosted platforms saved in storage
+ */
+export async function loadCustomPlatforms(): Promise<void> {
+  registerCustomPlatforms(await loadCustomPlatformConfigs())
+}
+
 /**
  * Get platform adapter by name
  */
@@ -44,7 +71,8 @@ export function getAllPlatforms(): PlatformConfig[] {
     displayName: p.displayName,
     hostPatterns: p.hostPatterns,
     icon: p.icon,
-    color: p.color
+    color: p.color,
+    capabilities: p.capabilities
   }))
 }
 
@@ -0,0 +1,173 @@
+/**
+ * Runtime response validation
+ * The platform APIs are unofficial and change without notice. Validators
+ * describe the fields the adapters rely on, so a changed response fails as
+ * API_CHANGED with the offending field instead of producing "Untitled" rows
+ */
+
+/**
+ * One field that didn't match, e.g. `items[3].title: expected string, got undefined`
+ */
+export interface SchemaIssue {
+  path: string
+  expected: string
+  received: string
+}
+
+/**
+ * A response that failed validation, as shown in the diagnostics panel
+ */
+export interface SchemaDriftReport {
+  timestamp: number
+  platform: string
+  endpoint: string
+  issues: SchemaIssue[]
+  sample: unknown       // Redacted payload: structure and types, no user content
+}
+
+/**
+ * Checks a value and appends any mismatches; `path` locates it in the payload
+ */
+export type Validator = (value: unknown, path: string, issues: SchemaIssue[]) => void
+
+// Enough to pinpoint the drift without flooding storage
+const MAX_ISSUES = 10
+
+function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+function fail(issues: SchemaIssue[], path: string, expected: string, value: unknown): void {
+  if (issues.length < MAX_ISSUES) {
+    issues.push({ path: path || '(root)', expected, received: describe(value) })
+  }
+}
+
+function primitive(type: 'string' | 'number' | 'boolean'): Validator {
+  return (value, path, issues) => {
+    if (typeof value !== type) fail(issues, path, type, value)
+  }
+}
+
+export const string = primitive('string')
+export const number = primitive('number')
+export const boolean = primitive('boolean')
+
+/**
+ * Accepts anything (the field is passed through untouched)
+ */
+export const unknown: Validator = () => {}
+
+/**
+ * ISO string or unix number, both converted with `new Date()` / `* 1000`
+ */
+export const timestamp: Validator = (value, path, issues) => {
+  if (typeof value !== 'string' && typeof value !== 'number') fail(issues, path, 'timestamp', value)
+}
+
+/**
+ * Field may be absent (undefined); present values must match
+ */
+export function optional(validator: Validator): Validator {
+  return (value, path, issues) => {
+    if (value !== undefined) validator(value, path, issues)
+  }
+}
+
+/**
+ * Field must be present but may be null
+ */
+export function nullable(validator: Validator): Validator {
+  return (value, path, issues) => {
+    if (value !== null) validator(value, path, issues)
+  }
+}
+
+export function array(item: Validator): Validator {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      fail(issues, path, 'array', value)
+      return
+    }
+    value.forEach((v, i) => item(v, `${path}[${i}]`, issues))
+  }
+}
+
+/**
+ * Object with known fields; extra fields are ignored
+ */
+export function object(shape: Record<string, Validator>): Validator {
+  return (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      fail(issues, path, 'object', value)
+      return
+    }
+    const record = value as Record<string, unknown>
+    for (const [key, validator] of Object.entries(shape)) {
+      validator(record[key], path ? `${path}.${key}` : key, issues)
+    }
+  }
+}
+
+/**
+ * Object used as a map (e.g. ChatGPT's message `mapping`)
+ */
+export function record(item: Validator): Validator {
+  return (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      fail(issues, path, 'object', value)
+      return
+    }
+    for (const [key, v] of Object.entries(value)) {
+      item(v, `${path}[${JSON.stringify(key)}]`, issues)
+    }
+  }
+}
+
+/**
+ * Run a validator; an empty result means the payload matches
+ */
+export function validate(validator: Validator, value: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = []
+  validator(value, '', issues)
+  return issues
+}
+
+// Sample size limits
+const SAMPLE_MAX_DEPTH = 6
+const SAMPLE_MAX_ITEMS = 2
+const SAMPLE_MAX_KEYS = 25
+
+/**
+ * Reduce a payload to its shape for the drift report: strings become
+ * `<string:N>`, arrays and maps are truncated. Keys, numbers and booleans
+ * are kept since they describe structure rather than content.
+ */
+export function redactSample(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return `<string:${value.length}>`
+  if (typeof value !== 'object' || value === null) return value
+  if (depth >= SAMPLE_MAX_DEPTH) return Array.isArray(value) ? '<array>' : '<object>'
+
+  if (Array.isArray(value)) {
+    const items = value.slice(0, SAMPLE_MAX_ITEMS).map(v => redactSample(v, depth + 1))
+    if (value.length > SAMPLE_MAX_ITEMS) items.push(`<${value.length - SAMPLE_MAX_ITEMS} more>`)
+    return items
+  }
+
+  const entries = Object.entries(value)
+  const result: Record<string, unknown> = {}
+  for (const [key, v] of entries.slice(0, SAMPLE_MAX_KEYS)) {
+    result[key] = redactSample(v, depth + 1)
+  }
+  if (entries.length > SAMPLE_MAX_KEYS) result['<more>'] = entries.length - SAMPLE_MAX_KEYS
+  return result
+}
+
+/**
+ * One-line summary of the first issue, used as the error message
+ */
+export function formatIssue(issue: SchemaIssue): string {
+  return `${issue.path}: expected ${issue.expected}, got ${issue.received}`
+}
@@ -1,9 +1,33 @@
 /**
  * Multi-platform types for AI Chat Manager
- * Supports: ChatGPT, Claude, (future: Gemini)
+ * Supports: ChatGPT, Claude, Gemini and self-hosted chat UIs
  */
 
-export type PlatformType = 'chatgpt' | 'claude' | 'gemini'
+import type { ErrorCode } from '../errors'
+
+export type BuiltinPlatformType = 'chatgpt' | 'claude' | 'gemini'
+
+/**
+ * User-configured self-hosted platforms (see platforms/custom)
+ */
+export type CustomPlatformType = `custom-${string}`
+
+export type PlatformType = BuiltinPlatformType | CustomPlatformType
+
+/**
+ * What a platform supports. The popup, sync loop and batch operations
+ * adapt to these instead of assuming ChatGPT's behaviour everywhere.
+ */
+export interface PlatformCapabilities {
+  serverPagination: boolean   // Pages come from the server; otherwise the full list is fetched once and sliced locally
+  deleteMode: 'soft' | 'hard' // Soft deletes only hide the conversation; hard deletes are permanent
+  restore: boolean            // Soft deletes can be undone (restoreConversation)
+  rename: boolean             // renameConversation
+  star: boolean               // Stars sync to the platform (otherwise local only)
+  projects: boolean           // Conversations carry projectId/projectName
+  searchApi: boolean          // Platform has server-side search (not yet used; search is local)
+  attachments: boolean        // Messages can carry uploaded files
+}
 
 export interface PlatformConfig {
   name: PlatformType
@@ -11,6 +35,7 @@ export interface PlatformConfig {
   hostPatterns: string[]
   icon: string
   color: string
+  capabilities: PlatformCapabilities
 }
 
 export interface UnifiedConversation {
@@ -21,27 +46,71 @@ export interface UnifiedConversation {
   updateTime: number
   platform: PlatformType
   isStarred?: boolean
+  projectId?: string | null   // Project/folder the conversation belongs to (Claude Projects)
+  projectName?: string
+  models?: string[]           // Models used, when the list reports them (Claude: the conversation's model)
   // Local fields (enriched after detail fetch)
   snippet?: string
   messageCount?: number
 }
 
+/**
+ * Typed piece of message content
+ */
+export type MessagePart =
+  | { type: 'text'; text: string }
+  | { type: 'code'; code: string; language?: string }
+  | { type: 'image'; url?: string; assetId?: string; alt?: string }
+  | { type: 'attachment'; name: string; mimeType?: string; size?: number; id?: string }
+  | { type: 'tool_call'; name: string; input?: string; id?: string }
+  | { type: 'tool_result'; output: string; name?: string; id?: string; isError?: boolean }
+  | { type: 'citation'; url: string; title?: string; snippet?: string }
+
+export type MessagePartType = MessagePart['type']
+
 export interface UnifiedMessage {
   id: string
   role: 'user' | 'assistant' | 'system'
-  content: string
+  content: string           // Plain-text rendering of parts
+  parts?: MessagePart[]     // Absent on previews/backups saved before parts existed
   createTime: number
+  // Tree fields (platforms with edited/regenerated branches, e.g. ChatGPT)
+  // Messages without them are treated as one linear thread
+  parentId?: string | null  // Nearest visible ancestor, null for a root
+  childIds?: string[]       // Visible children in platform order
+  siblingIndex?: number     // Position among the parent's children
+  siblingCount?: number     // Number of alternatives at this point
+  isActive?: boolean        // On the branch currently selected on the platform
+  model?: string            // Model that wrote an assistant message (ChatGPT model_slug)
 }
 
 export interface AuthResult {
   ok: boolean
-  error?: 'AUTH_REQUIRED' | 'NO_TAB' | 'INJECT_FAILED' | 'NETWORK_ERROR'
+  error?: ErrorCode
   message?: string
+  retryAfter?: number  // Seconds, when rate limited
+}
+
+/**
+ * Organization/workspace an account belongs to (e.g. Claude personal vs Team)
+ */
+export interface PlatformOrganization {
+  id: string
+  name: string
+}
+
+/**
+ * Project/folder grouping conversations (e.g. Claude Projects)
+ */
+export interface PlatformProject {
+  id: string
+  name: string
+  description?: string
 }
 
 export interface ConversationsResult {
   conversations: UnifiedConversation[]
-  total: number
+  total: number | null          // Server's count; null when it doesn't report one
   hasMore: boolean
 }
 
@@ -73,6 +142,24 @@ export interface PlatformAdapter extends PlatformConfig {
    */
   deleteConversations?(ids: string[]): Promise<{ success: string[]; failed: string[] }>
 
+  /**
+   * Undo a delete on the platform (optional, soft-deleting platforms only;
+   * declare capabilities.restore alongside it).
+   * Returns the restored conversation for re-inserting into the cache.
+   */
+  restoreConversation?(id: string): Promise<UnifiedConversation>
+
+  /**
+   * Change a conversation's title on the platform (optional)
+   */
+  renameConversation?(id: string, title: string): Promise<boolean>
+
+  /**
+   * Star (or pin) a conversation on the platform (optional).
+   * Without it, stars are kept locally only.
+   */
+  setStarred?(id: string, starred: boolean): Promise<boolean>
+
   /**
    * Set auth token for this platform
    */
@@ -82,14 +169,56 @@ export interface PlatformAdapter extends PlatformConfig {
    * Get current token
    */
   getToken(): string | null
+
+  /**
+   * List projects conversations can belong to (optional)
+   */
+  getProjects?(): Promise<PlatformProject[]>
+
+  /**
+   * List organizations the user can switch between (optional, multi-org platforms)
+   */
+  getOrganizations?(): Promise<PlatformOrganization[]>
+
+  /**
+   * Select the organization subsequent calls operate on
+   */
+  setOrganization?(orgId: string): void
+
+  /**
+   * Get the selected organization id
+   */
+  getOrganization?(): string | null
 }
 
 // Cache types
-export interface PlatformCache {
-  conversations: UnifiedConversation[]
+// Conversations live in IndexedDB (src/storage/db.ts); the metadata stays in
+// chrome.storage.local, where its change events tell the popup to reload
+export interface PlatformCacheMeta {
   totalCount: number
   lastSyncTime: number
   syncComplete: boolean
+  lastReconcileTime?: number    // Last full pass that could detect remote deletions
+  lastChanges?: SyncChanges
+  revision?: number             // Bumped on every conversation write
+}
+
+export interface PlatformCache extends PlatformCacheMeta {
+  conversations: UnifiedConversation[]
+}
+
+/**
+ * What one sync changed in the cache
+ * - full: paged through the whole list (initial sync, refresh, reconciliation)
+ * - delta: stopped once it reached unchanged conversations
+ */
+export interface SyncChanges {
+  mode: 'full' | 'delta'
+  timestamp: number
+  added: string[]
+  updated: string[]
+  removed: string[]
+  requests: number              // List pages fetched
 }
 
 export interface SyncProgress {
@@ -98,25 +227,108 @@ export interface SyncProgress {
   inProgress?: boolean
 }
 
+/**
+ * Background jobs persisted per platform so they survive the service worker
+ * being suspended. Each job carries the organization it started under.
+ */
+export interface SyncJob {
+  orgId: string | null
+  mode: 'full' | 'delta'
+  offset: number                // Next list offset of a full sync
+  startedAt: number
+}
+
+export interface IndexJob {
+  orgId: string | null
+  priority: string[]            // Previewed conversations, indexed first
+  pausedUntil?: number
+}
+
+export interface DeleteJob {
+  id: string
+  orgId: string | null
+}
+
+export interface PlatformJobs {
+  sync?: SyncJob
+  index?: IndexJob
+  deletes?: DeleteJob[]
+}
+
 // Storage key helpers
-export function getCacheKey(platform: PlatformType): string {
-  return `${platform}_conversationCache`
+// Multi-org platforms pass the selected orgId so data from different
+// organizations never shares a key; single-account platforms omit it
+export function getStorageScope(platform: PlatformType, orgId?: string | null): string {
+  return orgId ? `${platform}_${orgId}` : platform
 }
 
-export function getSyncProgressKey(platform: PlatformType): string {
-  return `${platform}_syncProgress`
+// Platform names never contain '_', so the scope's first segment is the platform
+export function getScopePlatform(scope: string): PlatformType {
+  return scope.split('_')[0] as PlatformType
 }
 
-export function getSyncErrorKey(platform: PlatformType): string {
-  return `${platform}_syncError`
+export function getCacheMetaKey(platform: PlatformType, orgId?: string | null): string {
+  return `${getStorageScope(platform, orgId)}_cacheMeta`
 }
 
-export function getBackupKey(platform: PlatformType, conversationId: string): string {
-  return `${platform}_backup_${conversationId}`
+export function getSyncProgressKey(platform: PlatformType, orgId?: string | null): string {
+  return `${getStorageScope(platform, orgId)}_syncProgress`
 }
 
-export function getPreviewCacheKey(platform: PlatformType, conversationId: string): string {
-  return `${platform}_preview_${conversationId}`
+export function getSyncErrorKey(platform: PlatformType, orgId?: string | null): string {
+  return `${getStorageScope(platform, orgId)}_syncError`
+}
+
+// Stars on platforms without a star API: conversationId -> starred
+export type LocalStars = Record<string, boolean>
+
+export function getLocalStarsKey(platform: PlatformType, orgId?: string | null): string {
+  return `${getStorageScope(platform, orgId)}_localStars`
+}
+
+// Selected organization (local, survives restarts) and last fetched org list
+export function getActiveOrgKey(platform: PlatformType): string {
+  return `${platform}_activeOrg`
+}
+
+export function getOrganizationsKey(platform: PlatformType): string {
+  return `${platform}_organizations`
+}
+
+export function getJobsKey(platform: PlatformType): string {
+  return `${platform}_jobs`
+}
+
+// Shared by all platforms
+export const DIAGNOSTICS_LOGS_KEY = 'diagnostics_logs'
+export const SCHEMA_DRIFT_KEY = 'schema_drift'
+
+// Export file structure (one JSON document per export)
+export interface ExportedConversation extends UnifiedConversation {
+  messages: UnifiedMessage[]
+}
+
+export interface ConversationExport {
+  platform: PlatformType
+  orgId: string | null
+  exportedAt: number
+  conversations: ExportedConversation[]
+}
+
+// Export spanning several platforms: one section per platform
+export interface CrossPlatformExport {
+  exportedAt: number
+  exports: ConversationExport[]
+}
+
+// Local copy of a conversation, saved before deleting it
+export interface Backup {
+  id: string
+  title: string
+  platform: PlatformType
+  orgId?: string | null         // Missing on backups made before organization support
+  messages: UnifiedMessage[]
+  backupTime: number
 }
 
 // Preview cache structure
@@ -127,11 +339,23 @@ export interface PreviewCache {
 
 // Preview cache expiry (24 hours)
 export const PREVIEW_CACHE_EXPIRY_MS = 24 * 60 * 60 * 1000
+export const PREVIEW_CACHE_MAX_ENTRIES = 200  // Least recently read are evicted beyond this
 
 // Content index types
+// The text itself and its postings are in IndexedDB (src/storage/db.ts);
+// entries stay small enough for the popup to load them all
 export interface ContentIndexEntry {
-  contentText: string    // All messages concatenated, max 2000 chars
   indexedAt: number
+  length: number         // Indexed words, for BM25 length normalization
+  hasCode?: boolean      // Some message has a code block
+  models?: Record<string, number>  // Assistant messages per model, for platforms that report it per message
+}
+
+// One term's occurrences in one conversation
+export interface TermOccurrences {
+  tf: number
+  pos: number[]          // Word positions for phrase queries
+  user?: number          // Occurrences in the user's messages, for role: filters
 }
 
 export interface ContentIndex {
@@ -146,13 +370,13 @@ export interface IndexProgress {
   pausedUntil?: number  // Timestamp when pause ends (for rate limiting)
 }
 
-// Content index storage key
-export function getContentIndexKey(platform: PlatformType): string {
-  return `${platform}_content_index`
+// Content index entries live in IndexedDB; this key changes with them
+export function getIndexRevisionKey(platform: PlatformType, orgId?: string | null): string {
+  return `${getStorageScope(platform, orgId)}_indexRevision`
 }
 
-export function getIndexProgressKey(platform: PlatformType): string {
-  return `${platform}_index_progress`
+export function getIndexProgressKey(platform: PlatformType, orgId?: string | null): string {
+  return `${getStorageScope(platform, orgId)}_index_progress`
 }
 
 // Index config
@@ -160,6 +384,6 @@ export const INDEX_CONFIG = {
   requestInterval: 5000,      // 5 seconds between requests
   pauseOn429: 60000,          // Pause 60 seconds on rate limit
   pauseOnError: 30000,        // Pause 30 seconds on other errors
-  maxContentLength: 2000,     // Max chars per conversation
-  maxIndexedConversations: 500 // Max conversations to index
+  maxContentLength: 200000,   // Max chars per conversation; guards against giant pastes
+  maxIndexedConversations: 5000 // Max conversations to index
 }
@@ -4,28 +4,80 @@
  */
 
 import { logger } from '../utils/logger'
-import { getAllPlatforms } from '../platforms/registry'
+import { getAllPlatforms, loadCustomPlatforms } from '../platforms/registry'
 import {
-  getCacheKey,
+  CUSTOM_PRESETS,
+  getCustomPlatformName,
+  getOriginPattern,
+  isCustomPlatform,
+  loadCustomPlatformConfigs,
+  saveCustomPlatformConfigs,
+  slugifyPlatformId,
+  validateCustomPlatformConfig
+} from '../platforms/custom/config'
+import type { CustomAuthStyle, CustomMappings, CustomPlatformConfig, CustomPreset } from '../platforms/custom/config'
+import {
+  getCacheMetaKey,
+  getIndexRevisionKey,
+  getStorageScope,
   getSyncProgressKey,
   getSyncErrorKey,
-  getPreviewCacheKey,
-  getContentIndexKey,
   getIndexProgressKey,
-  PREVIEW_CACHE_EXPIRY_MS
+  getActiveOrgKey,
+  getOrganizationsKey,
+  PREVIEW_CACHE_EXPIRY_MS,
+  PREVIEW_CACHE_MAX_ENTRIES
 } from '../platforms/types'
 import type {
   PlatformType,
+  PlatformCapabilities,
   PlatformConfig,
-  PlatformCache,
+  PlatformOrganization,
+  PlatformCacheMeta,
+  Backup,
   SyncProgress,
   UnifiedConversation,
   UnifiedMessage,
+  ConversationExport,
+  CrossPlatformExport,
   PreviewCache,
   ContentIndex,
   IndexProgress
 } from '../platforms/types'
-import { ErrorCode, ErrorMessages } from '../errors'
+import {
+  clearScope,
+  getBackups,
+  getConversations,
+  getDocumentTexts,
+  getIndexEntries,
+  getIndexTerms,
+  getPostings,
+  getPostingsByPrefix,
+  getPreview,
+  putPreview
+} from '../storage/db'
+import { analyzeTitle, buildSnippets, matchesTitle, matchRanges, MAX_PREFIX_EXPANSIONS } from '../search/engine'
+import type { MessageRole, Postings, TextRange } from '../search/engine'
+import { findSimilarTerms, findSurfaceForm } from '../search/fuzzy'
+import type { SimilarTerm } from '../search/fuzzy'
+import {
+  getFuzzyWords,
+  getQueryPrefixes,
+  getQueryTerms,
+  getSuggestions,
+  parseSearchQuery,
+  rewriteQuery,
+  runQuery
+} from '../search/query'
+import type { FilterKey, QueryIndex, QuerySuggestion, SearchDocument, SearchQuery } from '../search/query'
+import { STORAGE_CATEGORIES, STORAGE_WARNING_RATIO } from '../storage/usage'
+import type { QuotaUsage, StorageCategory, StorageUsage } from '../storage/usage'
+import { ErrorCode, ErrorMessages, getErrorInfo, toPlatformError } from '../errors'
+import { getActivePath, getSiblings, resolveBranchPath, selectBranchTo } from '../platforms/branches'
+import type { BranchSelections } from '../platforms/branches'
+import { getMessageParts, partsToSearchText } from '../platforms/parts'
+import { getConversationModels, formatModelName } from '../platforms/models'
+import type { SchemaDriftReport } from '../platforms/schema'
 
 // Diagnostics types
 interface LogEntry {
@@ -49,12 +101,40 @@ const contentDiv = document.getElementById('content') as HTMLDivElement
 const confirmDialog = document.getElementById('confirmDialog') as HTMLDivElement
 const dialogMessage = document.getElementById('dialogMessage') as HTMLDivElement
 const backupCheckbox = document.getElementById('backupCheckbox') as HTMLInputElement
+const includeStarredLabel = document.getElementById('includeStarredLabel') as HTMLLabelElement
+const includeStarredCheckbox = document.getElementById('includeStarredCheckbox') as HTMLInputElement
 const cancelBtn = document.getElementById('cancelBtn') as HTMLButtonElement
 const confirmBtn = document.getElementById('confirmBtn') as HTMLButtonElement
+const deleteModeNotice = document.getElementById('deleteModeNotice') as HTMLDivElement
+const deleteConfirmLabel = document.getElementById('deleteConfirmLabel') as HTMLLabelElement
+const deleteConfirmInput = document.getElementById('deleteConfirmInput') as HTMLInputElement
+const renameDialog = document.getElementById('renameDialog') as HTMLDivElement
+const renameDialogMessage = document.getElementById('renameDialogMessage') as HTMLDivElement
+const renamePatternInput = document.getElementById('renamePatternInput') as HTMLInputElement
+const renamePreview = document.getElementById('renamePreview') as HTMLDivElement
+const renameCancelBtn = document.getElementById('renameCancelBtn') as HTMLButtonElement
+const renameConfirmBtn = document.getElementById('renameConfirmBtn') as HTMLButtonElement
+const customPlatformDialog = document.getElementById('customPlatformDialog') as HTMLDivElement
+const customPlatformDialogTitle = document.getElementById('customPlatformDialogTitle') as HTMLDivElement
+const cpName = document.getElementById('cpName') as HTMLInputElement
+const cpBaseUrl = document.getElementById('cpBaseUrl') as HTMLInputElement
+const cpPreset = document.getElementById('cpPreset') as HTMLSelectElement
+const cpAuthStyle = document.getElementById('cpAuthStyle') as HTMLSelectElement
+const cpHeaderNameField = document.getElementById('cpHeaderNameField') as HTMLLabelElement
+const cpHeaderName = document.getElementById('cpHeaderName') as HTMLInputElement
+const cpTokenField = document.getElementById('cpTokenField') as HTMLLabelElement
+const cpToken = document.getElementById('cpToken') as HTMLInputElement
+const cpColor = document.getElementById('cpColor') as HTMLInputElement
+const cpMappings = document.getElementById('cpMappings') as HTMLTextAreaElement
+const cpError = document.getElementById('cpError') as HTMLDivElement
+const cpRemoveBtn = document.getElementById('cpRemoveBtn') as HTMLButtonElement
+const cpCancelBtn = document.getElementById('cpCancelBtn') as HTMLButtonElement
+const cpSaveBtn = document.getElementById('cpSaveBtn') as HTMLButtonElement
 
 // Sort options
-type SortOption = 'updated' | 'created' | 'title'
+type SortOption = 'relevance' | 'updated' | 'created' | 'title'
 const SORT_OPTIONS: { value: SortOption; label: string }[] = [
+  { value: 'relevance', label: 'Relevance' },
   { value: 'updated', label: 'Recent Update' },
   { value: 'created', label: 'Created Time' },
   { value: 'title', label: 'Title A-Z' }
@@ -63,6 +143,26 @@ const SORT_OPTIONS: { value: SortOption; label: string }[] = [
 // State
 let currentPlatform: PlatformType = 'chatgpt'
 let platforms: PlatformConfig[] = []
+// Organization scope for multi-org platforms (null = platform has none)
+let currentOrgId: string | null = null
+let organizations: PlatformOrganization[] = []
+
+// The All tab lists every platform's conversations in one timeline;
+// currentPlatform stays the last platform tab (for diagnostics)
+const ALL_PLATFORMS = 'all'
+const ALL_PLATFORMS_ICON = '🗂️'
+let allPlatformsView = false
+
+// A platform and one of its organizations
+interface PlatformScope {
+  platform: PlatformType
+  orgId: string | null
+}
+// All view: where each listed conversation comes from. Ids are assumed
+// unique across platforms, as the platforms' UUID-style ids are.
+let conversationScopes = new Map<string, PlatformScope>()
+let allViewScopes: PlatformScope[] = []       // Every platform's active organization
+let allViewPlatforms: PlatformType[] = []     // Those with a cache; only they are synced
 let selectedConversationId: string | null = null
 let pendingDeleteId: string | null = null
 let pendingDeleteIds: string[] = []
@@ -70,6 +170,26 @@ let currentView: 'conversations' | 'backups' | 'diagnostics' = 'conversations'
 let selectedForDelete: Set<string> = new Set()
 let searchQuery: string = ''
 let currentSortOption: SortOption = 'updated'
+let fuzzySearch = true          // Words also match terms a few typos away
+
+// Project filter: '' = all conversations, NO_PROJECT_FILTER = outside any project
+const NO_PROJECT_FILTER = '__none__'
+let currentProjectFilter = ''
+let currentModelFilter = ''  // '' = all models
+let starredOnly = false
+
+// Preview branch state (forks the user switched to in the open conversation)
+let previewMessages: UnifiedMessage[] = []
+let branchSelections: BranchSelections = {}
+
+// Content match the preview was opened from: its hits are marked and
+// navigable there
+interface PreviewSearch {
+  conversationId: string
+  terms: string[]
+  role?: MessageRole            // Hits only in this side's messages
+}
+let previewSearch: PreviewSearch | null = null
 
 // Loading states
 let deletingIds: Set<string> = new Set()
@@ -82,14 +202,40 @@ let syncProgress: SyncProgress | null = null
 
 // Content index data
 let contentIndex: ContentIndex = {}
+// Bumped on every cache read so a slow read can't overwrite a newer one
+let cacheLoadSeq = 0
 let indexProgress: IndexProgress | null = null
 
 // Search results with snippets
 interface SearchResult {
   conv: UnifiedConversation
   matchType: 'title' | 'content'
-  snippet: string | null
+  score: number                 // BM25 relevance; 0 for substring-only matches
+  snippetHtml: string | null    // Highlighted passages, already escaped
+  contentTerms?: string[]       // Index terms to highlight in the content
+  hits?: number                 // Occurrences in the content, from the index
+  role?: MessageRole            // The query's role: filter, which hits count
+}
+
+// Content matches that get highlighted passages; each loads its full text
+const MAX_SNIPPET_RESULTS = 20
+// Bumped on every list update so a slow search can't overwrite a newer one
+let searchSeq = 0
+// The listed search results by conversation id, for the preview's hits
+let listedResults = new Map<string, SearchResult>()
+
+// Index terms of the listed scopes, for fuzzy matching and corrections, and
+// the lookups made in them; stale once contentIndex is replaced
+interface SearchVocabulary {
+  index: ContentIndex
+  terms: Set<string>
+  similar: Map<string, SimilarTerm[]>
 }
+let vocabulary: SearchVocabulary | null = null
+
+// Filter key and value completions under the search box
+let searchSuggestions: QuerySuggestion[] = []
+let activeSuggestion = 0
 
 // Settings
 const SETTINGS_KEY = 'settings'
@@ -97,6 +243,7 @@ let backupBeforeDeletePref = false
 
 // Load platforms on init
 async function loadPlatforms(): Promise<void> {
+  await loadCustomPlatforms()
   platforms = getAllPlatforms()
   logger.log('Loaded platforms:', platforms.map(p => p.name))
 }
@@ -104,19 +251,22 @@ async function loadPlatforms(): Promise<void> {
 // Load user settings from storage
 async function loadSettings(): Promise<void> {
   return new Promise((resolve) => {
-    chrome.storage.local.get([SETTINGS_KEY, 'lastPlatform', 'sortOption'], (result) => {
+    chrome.storage.local.get([SETTINGS_KEY, 'lastPlatform', 'sortOption', 'fuzzySearch'], (result) => {
       const settings = result[SETTINGS_KEY] as { backupBeforeDelete?: boolean } | undefined
       if (settings?.backupBeforeDelete !== undefined) {
         backupBeforeDeletePref = settings.backupBeforeDelete
       }
       // Restore last used platform
-      if (result.lastPlatform && platforms.some(p => p.name === result.lastPlatform)) {
+      if (result.lastPlatform === ALL_PLATFORMS) {
+        allPlatformsView = true
+      } else if (result.lastPlatform && platforms.some(p => p.name === result.lastPlatform)) {
         currentPlatform = result.lastPlatform as PlatformType
       }
       // Restore sort option
       if (result.sortOption && SORT_OPTIONS.some(o => o.value === result.sortOption)) {
         currentSortOption = result.sortOption as SortOption
       }
+      if (typeof result.fuzzySearch === 'boolean') fuzzySearch = result.fuzzySearch
       resolve()
     })
   })
@@ -132,56 +282,152 @@ function saveBackupPreference(value: boolean): void {
   })
 }
 
+// Primary host of a platform (e.g. chatgpt.com), used for "open platform" links
+function getPlatformHost(platformName: PlatformType): string {
+  const platform = platforms.find(p => p.name === platformName)
+  return platform?.hostPatterns[0] || 'chatgpt.com'
+}
+
 // Save current platform
 function saveCurrentPlatform(): void {
-  chrome.storage.local.set({ lastPlatform: currentPlatform })
+  chrome.storage.local.set({ lastPlatform: allPlatformsView ? ALL_PLATFORMS : currentPlatform })
+}
+
+/**
+ * Platform and organization a listed conversation belongs to; outside the
+ * All view that is always the current one
+ */
+function getConversationScope(conversationId: string): PlatformScope {
+  return (allPlatformsView && conversationScopes.get(conversationId)) || { platform: currentPlatform, orgId: currentOrgId }
+}
+
+function getConversationStorageScope(conversationId: string): string {
+  const { platform, orgId } = getConversationScope(conversationId)
+  return getStorageScope(platform, orgId)
+}
+
+// Name and icon of what the list shows
+function getViewName(): string {
+  if (allPlatformsView) return 'all platforms'
+  return platforms.find(p => p.name === currentPlatform)?.displayName || currentPlatform
+}
+
+function getViewIcon(): string {
+  if (allPlatformsView) return ALL_PLATFORMS_ICON
+  return platforms.find(p => p.name === currentPlatform)?.icon || '💬'
 }
 
 backupCheckbox.addEventListener('change', () => {
   saveBackupPreference(backupCheckbox.checked)
 })
 
-// Load cache for current platform
-async function loadCache(): Promise<boolean> {
-  const cacheKey = getCacheKey(currentPlatform)
-  const progressKey = getSyncProgressKey(currentPlatform)
-  const errorKey = getSyncErrorKey(currentPlatform)
-  const contentIndexKey = getContentIndexKey(currentPlatform)
-  const indexProgressKey = getIndexProgressKey(currentPlatform)
+// Load selected organization and last known org list for current platform
+async function loadOrganizationState(): Promise<void> {
+  const activeOrgKey = getActiveOrgKey(currentPlatform)
+  const organizationsKey = getOrganizationsKey(currentPlatform)
 
   return new Promise((resolve) => {
-    chrome.storage.local.get([cacheKey, progressKey, errorKey, contentIndexKey, indexProgressKey], (result) => {
-      logger.log(`[${currentPlatform}] loadCache: keys:`, Object.keys(result))
-
-      const cache = result[cacheKey] as PlatformCache | undefined
+    chrome.storage.local.get([activeOrgKey, organizationsKey], (result) => {
+      currentOrgId = (result[activeOrgKey] as string | undefined) || null
+      organizations = (result[organizationsKey] as PlatformOrganization[] | undefined) || []
+      resolve()
+    })
+  })
+}
 
-      if (cache?.conversations && Array.isArray(cache.conversations)) {
-        cachedConversations = cache.conversations
-        lastSyncTime = cache.lastSyncTime || null
-        syncComplete = cache.syncComplete || false
-        logger.log(`[${currentPlatform}] loadCache: ${cachedConversations.length} conversations`)
-        resolve(true)
-      } else {
-        cachedConversations = []
-        lastSyncTime = null
-        syncComplete = false
-        logger.log(`[${currentPlatform}] loadCache: NO CACHE`)
-        resolve(false)
-      }
+// Load cache for current platform
+async function loadCache(): Promise<boolean> {
+  if (allPlatformsView) return loadAllPlatformsCache()
+  await loadOrganizationState()
+
+  const metaKey = getCacheMetaKey(currentPlatform, currentOrgId)
+  const progressKey = getSyncProgressKey(currentPlatform, currentOrgId)
+  const errorKey = getSyncErrorKey(currentPlatform, currentOrgId)
+  const indexProgressKey = getIndexProgressKey(currentPlatform, currentOrgId)
+  const scope = getStorageScope(currentPlatform, currentOrgId)
+  cacheLoadSeq++
+
+  const result = await chrome.storage.local.get([metaKey, progressKey, errorKey, indexProgressKey])
+  logger.log(`[${currentPlatform}] loadCache: keys:`, Object.keys(result))
+
+  const meta = result[metaKey] as PlatformCacheMeta | undefined
+  syncProgress = result[progressKey] as SyncProgress | undefined || null
+
+  // Load content index
+  contentIndex = await getIndexEntries(scope)
+  indexProgress = (result[indexProgressKey] as IndexProgress | undefined) || null
+  logger.log(`[${currentPlatform}] loadCache: ${Object.keys(contentIndex).length} indexed conversations`)
+
+  const syncError = result[errorKey] as unknown
+  if (syncError) {
+    logger.error(`[${currentPlatform}] Sync error:`, syncError)
+  }
 
-      syncProgress = result[progressKey] as SyncProgress | undefined || null
+  if (!meta) {
+    cachedConversations = []
+    lastSyncTime = null
+    syncComplete = false
+    logger.log(`[${currentPlatform}] loadCache: NO CACHE`)
+    return false
+  }
 
-      // Load content index
-      contentIndex = (result[contentIndexKey] as ContentIndex | undefined) || {}
-      indexProgress = (result[indexProgressKey] as IndexProgress | undefined) || null
-      logger.log(`[${currentPlatform}] loadCache: ${Object.keys(contentIndex).length} indexed conversations`)
+  cachedConversations = await getConversations(scope)
+  lastSyncTime = meta.lastSyncTime || null
+  syncComplete = meta.syncComplete || false
+  logger.log(`[${currentPlatform}] loadCache: ${cachedConversations.length} conversations`)
+  return true
+}
 
-      const syncError = result[errorKey] as string | undefined
-      if (syncError) {
-        logger.error(`[${currentPlatform}] Sync error:`, syncError)
-      }
-    })
-  })
+/**
+ * Load the All view: every platform's cache for its active organization,
+ * merged newest first
+ */
+async function loadAllPlatformsCache(): Promise<boolean> {
+  const seq = ++cacheLoadSeq
+  const activeOrgs = await chrome.storage.local.get(platforms.map(p => getActiveOrgKey(p.name)))
+  const scopes: PlatformScope[] = platforms.map(p => ({
+    platform: p.name,
+    orgId: (activeOrgs[getActiveOrgKey(p.name)] as string | undefined) || null
+  }))
+
+  const owners = new Map<string, PlatformScope>()
+  const conversations: UnifiedConversation[] = []
+  const index: ContentIndex = {}
+  const cachedPlatforms: PlatformType[] = []
+  let oldestSync: number | null = null
+  let complete = true
+
+  for (const scope of scopes) {
+    const metaKey = getCacheMetaKey(scope.platform, scope.orgId)
+    const meta = (await chrome.storage.local.get(metaKey))[metaKey] as PlatformCacheMeta | undefined
+    if (!meta) continue
+
+    const storageScope = getStorageScope(scope.platform, scope.orgId)
+    for (const conv of await getConversations(storageScope)) {
+      owners.set(conv.id, scope)
+      conversations.push(conv)
+    }
+    Object.assign(index, await getIndexEntries(storageScope))
+    cachedPlatforms.push(scope.platform)
+    // The least recently synced platform says how fresh the whole list is
+    if (meta.lastSyncTime) oldestSync = Math.min(oldestSync ?? meta.lastSyncTime, meta.lastSyncTime)
+    complete = complete && !!meta.syncComplete
+  }
+  // A platform tab opened meanwhile owns the state now
+  if (seq !== cacheLoadSeq || !allPlatformsView) return cachedPlatforms.length > 0
+
+  organizations = []
+  syncProgress = null
+  indexProgress = null
+  allViewScopes = scopes
+  allViewPlatforms = cachedPlatforms
+  conversationScopes = owners
+  cachedConversations = conversations.sort((a, b) => b.updateTime - a.updateTime)
+  contentIndex = index
+  lastSyncTime = oldestSync
+  syncComplete = complete
+  logger.log(`[${ALL_PLATFORMS}] loadCache: ${cachedConversations.length} conversations from ${cachedPlatforms.length} platforms`)
+  return cachedPlatforms.length > 0
 }
 
 function showError(message: string) {
@@ -225,7 +471,7 @@ function cleanSnippet(text: string, maxLength = 120): string {
 
 function extractSnippet(messages: UnifiedMessage[]): string {
   if (!messages || messages.length === 0) return ''
-  const filtered = messages.filter(m => m.role === 'assistant' || m.role === 'user').reverse()
+  const filtered = getActivePath(messages).filter(m => m.role === 'assistant' || m.role === 'user').reverse()
   const assistantMsg = filtered.find(m => m.role === 'assistant')
   if (assistantMsg) return cleanSnippet(assistantMsg.content)
   const userMsg = filtered.find(m => m.role === 'user')
@@ -233,6 +479,40 @@ function extractSnippet(messages: UnifiedMessage[]): string {
   return ''
 }
 
+function truncate(text: string, maxLength = 200): string {
+  return text.length > maxLength ? text.substring(0, maxLength) + '...' : text
+}
+
+/**
+ * Render message parts for the preview (text/code truncated to keep it compact)
+ * @param full - don't truncate, e.g. so search hits further in stay visible
+ */
+function renderMessageContent(msg: UnifiedMessage, full = false): string {
+  const clip = (text: string) => full ? text : truncate(text)
+  return getMessageParts(msg).map(part => {
+    switch (part.type) {
+      case 'text':
+        return `<div class="part-text">${escapeHtml(clip(part.text))}</div>`
+      case 'code':
+        return `<pre class="part-code">${part.language ? `<span class="part-code-lang">${escapeHtml(part.language)}</span>` : ''}<code>${escapeHtml(clip(part.code))}</code></pre>`
+      case 'image':
+        return part.url && /^https?:/.test(part.url)
+          ? `<a class="part-chip" href="${escapeHtml(part.url)}" target="_blank">🖼️ ${escapeHtml(part.alt || 'Image')}</a>`
+          : `<span class="part-chip">🖼️ ${escapeHtml(part.alt || 'Image')}</span>`
+      case 'attachment':
+        return `<span class="part-chip">📎 ${escapeHtml(part.name)}</span>`
+      case 'tool_call':
+        return `<div class="part-tool"><span class="part-chip">🔧 ${escapeHtml(part.name)}</span>${part.input ? `<pre class="part-code"><code>${escapeHtml(clip(part.input))}</code></pre>` : ''}</div>`
+      case 'tool_result':
+        return `<div class="part-tool ${part.isError ? 'part-tool-error' : ''}"><span class="part-chip">↳ ${escapeHtml(part.name || 'Result')}</span><pre class="part-code"><code>${escapeHtml(clip(part.output))}</code></pre></div>`
+      case 'citation':
+        return /^https?:/.test(part.url)
+          ? `<a class="part-chip" href="${escapeHtml(part.url)}" target="_blank" title="${escapeHtml(part.url)}">🔗 ${escapeHtml(part.title || part.url)}</a>`
+          : ''
+    }
+  }).join('')
+}
+
 // Error parsing
 type ErrorType = 'auth' | 'rate_limit' | 'network' | 'server' | 'not_found' | 'generic'
 
@@ -242,32 +522,42 @@ interface ParsedError {
   retryAfter?: number
 }
 
-function parseErrorDetailed(error: string): ParsedError {
-  if (error.includes('401') || error.includes('Unauthorized') || error.includes('AUTH_REQUIRED')) {
-    const platform = platforms.find(p => p.name === currentPlatform)
-    return { type: 'auth', message: `Session expired. Please refresh ${platform?.displayName || 'the platform'} page.` }
-  }
-  if (error.includes('403') || error.includes('Forbidden')) {
-    return { type: 'auth', message: 'Access denied. Please log in first.' }
-  }
-  if (error.includes('404')) {
-    return { type: 'not_found', message: 'Conversation not found.' }
-  }
-  if (error.includes('429')) {
-    const retryMatch = error.match(/(\d+)\s*seconds?/i)
-    const retryAfter = retryMatch ? parseInt(retryMatch[1]) : 30
-    return { type: 'rate_limit', message: 'Too many requests.', retryAfter }
-  }
-  if (error.includes('500') || error.includes('502') || error.includes('503')) {
-    return { type: 'server', message: 'Server temporarily unavailable.' }
-  }
-  if (error.includes('network') || error.includes('fetch') || error.includes('Failed to fetch')) {
-    return { type: 'network', message: 'Unable to connect.' }
+/**
+ * Classify an error from the background (serialized PlatformError, Error or
+ * plain string) by its ErrorCode
+ */
+function parseErrorDetailed(error: unknown): ParsedError {
+  const err = toPlatformError(error)
+  const info = getErrorInfo(err.code)
+
+  switch (err.code) {
+    case ErrorCode.AUTH_REQUIRED: {
+      if (err.status === 403) {
+        return { type: 'auth', message: 'Access denied. Please log in first.' }
+      }
+      const platform = platforms.find(p => p.name === (err.platform || currentPlatform))
+      return { type: 'auth', message: `Session expired. Please refresh ${platform?.displayName || 'the platform'} page.` }
+    }
+    case ErrorCode.RATE_LIMITED:
+      return { type: 'rate_limit', message: 'Too many requests.', retryAfter: err.retryAfter || 30 }
+    case ErrorCode.NETWORK_ERROR:
+      return { type: 'network', message: 'Unable to connect.' }
+    case ErrorCode.TIMEOUT:
+      return { type: 'network', message: `${info.title}. ${info.suggestion}.` }
+    case ErrorCode.SERVER_ERROR:
+      return { type: 'server', message: 'Server temporarily unavailable.' }
+    case ErrorCode.NOT_FOUND:
+      return { type: 'not_found', message: 'Conversation not found.' }
+    case ErrorCode.NOT_SUPPORTED:
+    case ErrorCode.UNKNOWN:
+      // The message itself is the most specific explanation
+      return { type: 'generic', message: err.message }
+    default:
+      return { type: 'generic', message: `${info.title}. ${info.suggestion}.` }
   }
-  return { type: 'generic', message: error }
 }
 
-function parseError(error: string): string {
+function parseError(error: unknown): string {
   return parseErrorDetailed(error).message
 }
 
@@ -275,7 +565,7 @@ function parseError(error: string): string {
 let rateLimitCountdown: number | null = null
 let rateLimitTimer: number | null = null
 
-function showErrorWithAction(error: string) {
+function showErrorWithAction(error: unknown) {
   const parsed = parseErrorDetailed(error)
 
   if (rateLimitTimer) {
@@ -300,7 +590,7 @@ function showErrorWithAction(error: string) {
 
 function showAuthError(message: string) {
   const platform = platforms.find(p => p.name === currentPlatform)
-  const url = currentPlatform === 'chatgpt' ? 'https://chatgpt.com' : 'https://claude.ai'
+  const url = `https://${getPlatformHost(currentPlatform)}`
 
   errorDiv.innerHTML = `
     <div class="error-content">
@@ -308,7 +598,7 @@ function showAuthError(message: string) {
       <span class="error-message">${escapeHtml(message)}</span>
     </div>
     <button class="error-action-btn" id="refreshPageBtn">
-      <span>↻</span> Open ${platform?.displayName || 'Platform'}
+      <span>↻</span> Open ${escapeHtml(platform?.displayName || 'Platform')}
     </button>
   `
   errorDiv.classList.remove('hidden')
@@ -384,23 +674,94 @@ function showNetworkError(message: string) {
   })
 }
 
+function getCapabilities(platform: PlatformType): PlatformCapabilities | undefined {
+  return platforms.find(p => p.name === platform)?.capabilities
+}
+
+/**
+ * Capabilities of the active platform
+ */
+function getCurrentCapabilities(): PlatformCapabilities | undefined {
+  return getCapabilities(currentPlatform)
+}
+
+// Typed into the confirmation box before a permanent batch delete
+const HARD_DELETE_CONFIRM_WORD = 'delete'
+
+/**
+ * Adapt the delete dialog to the delete mode of the conversations' platforms.
+ * Soft deletes can be undone, so the usual backup preference applies.
+ * Hard deletes always back up first, and batches must be confirmed by typing.
+ * In the All view one hard-deleting platform makes the whole batch hard.
+ */
+function setupDeleteMode(ids: string[], isBatch: boolean) {
+  const involved = platforms.filter(p => ids.some(id => getConversationScope(id).platform === p.name))
+  const hardDeleting = involved.filter(p => p.capabilities.deleteMode === 'hard')
+  const hardDelete = hardDeleting.length > 0
+  const namesOf = (list: PlatformConfig[]) => list.map(p => p.displayName).join(', ') || currentPlatform
+
+  if (hardDelete) {
+    const verb = hardDeleting.length > 1 ? 'delete' : 'deletes'
+    deleteModeNotice.textContent = `${namesOf(hardDeleting)} ${verb} permanently. A local backup is always saved first.`
+    deleteModeNotice.className = 'dialog-notice dialog-notice-danger'
+    backupCheckbox.checked = true
+    backupCheckbox.disabled = true
+    confirmBtn.textContent = 'Delete Permanently'
+  } else {
+    const verb = involved.length > 1 ? 'hide' : 'hides'
+    deleteModeNotice.textContent = `${namesOf(involved)} ${verb} deleted conversations. Backed-up ones can be restored from Backups.`
+    deleteModeNotice.className = 'dialog-notice'
+    backupCheckbox.checked = backupBeforeDeletePref
+    backupCheckbox.disabled = false
+    confirmBtn.textContent = 'Confirm Delete'
+  }
+
+  const requireTyping = hardDelete && isBatch
+  deleteConfirmInput.value = ''
+  deleteConfirmLabel.style.display = requireTyping ? 'flex' : 'none'
+  confirmBtn.disabled = requireTyping
+}
+
+deleteConfirmInput.addEventListener('input', () => {
+  confirmBtn.disabled = deleteConfirmInput.value.trim().toLowerCase() !== HARD_DELETE_CONFIRM_WORD
+})
+
 // Confirmation Dialog
 function showConfirmDialog(conversationId: string, title: string) {
   pendingDeleteId = conversationId
   pendingDeleteIds = []
   dialogMessage.textContent = `Are you sure you want to delete "${title}"?`
-  backupCheckbox.checked = backupBeforeDeletePref
+  setupDeleteMode([conversationId], false)
+  includeStarredLabel.style.display = 'none'
   confirmDialog.style.display = 'flex'
 }
 
+function isStarred(id: string): boolean {
+  return !!cachedConversations.find(c => c.id === id)?.isStarred
+}
+
 function showBatchConfirmDialog(ids: string[]) {
   pendingDeleteId = null
   pendingDeleteIds = ids
-  dialogMessage.textContent = `Are you sure you want to delete ${ids.length} conversations?`
-  backupCheckbox.checked = backupBeforeDeletePref
+  const starredCount = ids.filter(isStarred).length
+  dialogMessage.textContent = starredCount > 0
+    ? `Are you sure you want to delete ${ids.length - starredCount} conversations? ${starredCount} starred will be kept.`
+    : `Are you sure you want to delete ${ids.length} conversations?`
+  setupDeleteMode(ids, true)
+  // Starred conversations are protected from batch delete unless opted in
+  includeStarredCheckbox.checked = false
+  includeStarredLabel.style.display = starredCount > 0 ? 'flex' : 'none'
   confirmDialog.style.display = 'flex'
 }
 
+includeStarredCheckbox.addEventListener('change', () => {
+  const ids = pendingDeleteIds
+  const starredCount = ids.filter(isStarred).length
+  dialogMessage.textContent = includeStarredCheckbox.checked
+    ? `Are you sure you want to delete ${ids.length} conversations, including ${starredCount} starred?`
+    : `Are you sure you want to delete ${ids.length - starredCount} conversations? ${starredCount} starred will be kept.`
+})
+
 function hideConfirmDialog() {
   confirmDialog.style.display = 'none'
   pendingDeleteId = null
@@ -411,11 +772,18 @@ cancelBtn.addEventListener('click', hideConfirmDialog)
 
 confirmBtn.addEventListener('click', async () => {
   const isBatch = pendingDeleteIds.length > 0
-  const idsToDelete = isBatch ? [...pendingDeleteIds] : (pendingDeleteId ? [pendingDeleteId] : [])
+  const batchIds = includeStarredCheckbox.checked ? pendingDeleteIds : pendingDeleteIds.filter(id => !isStarred(id))
+  const idsToDelete = isBatch ? [...batchIds] : (pendingDeleteId ? [pendingDeleteId] : [])
 
-  if (idsToDelete.length === 0) return
+  if (idsToDelete.length === 0) {
+    // Only starred conversations were selected
+    hideConfirmDialog()
+    return
+  }
 
-  const shouldBackup = backupCheckbox.checked
+  // Hard-deleting platforms always back up, whatever the checkbox says
+  const backupChecked = backupCheckbox.checked
+  const shouldBackup = (platform: PlatformType) => backupChecked || getCapabilities(platform)?.deleteMode === 'hard'
   hideConfirmDialog()
 
   idsToDelete.forEach(id => {
@@ -428,11 +796,12 @@ confirmBtn.addEventListener('click', async () => {
   const successfullyDeleted: string[] = []
 
   for (const id of idsToDelete) {
+    const { platform } = getConversationScope(id)
     try {
-      if (shouldBackup) {
+      if (shouldBackup(platform)) {
         const backupResponse = await chrome.runtime.sendMessage({
           type: 'BACKUP_CONVERSATION',
-          platform: currentPlatform,
+          platform,
           conversationId: id
         })
         if (backupResponse.error) {
@@ -444,7 +813,7 @@ confirmBtn.addEventListener('click', async () => {
 
       const response = await chrome.runtime.sendMessage({
         type: 'DELETE_CONVERSATION',
-        platform: currentPlatform,
+        platform,
         conversationId: id
       })
 
@@ -455,7 +824,7 @@ confirmBtn.addEventListener('click', async () => {
         successfullyDeleted.push(id)
       }
     } catch (err) {
-      failedErrors.push(parseError(String(err)))
+      failedErrors.push(parseError(err))
     }
 
     deletingIds.delete(id)
@@ -476,10 +845,9 @@ confirmBtn.addEventListener('click', async () => {
       selectedConversationId = null
       const previewEl = document.getElementById('preview')
       if (previewEl) {
-        const platform = platforms.find(p => p.name === currentPlatform)
         previewEl.innerHTML = `
           <div class="preview-empty">
-            <div class="preview-empty-icon">${platform?.icon || '💬'}</div>
+            <div class="preview-empty-icon">${getViewIcon()}</div>
             <div>Click a conversation to preview</div>
           </div>
         `
@@ -517,18 +885,40 @@ function updateDeletingState() {
   }
 }
 
+// Organization switcher (only when the account has more than one)
+function renderOrgSwitcher(): string {
+  if (organizations.length < 2) return ''
+
+  const optionsHtml = organizations.map(org =>
+    `<option value="${escapeHtml(org.id)}" ${org.id === currentOrgId ? 'selected' : ''}>${escapeHtml(org.name)}</option>`
+  ).join('')
+
+  return `
+    <select id="orgSelect" class="sort-select org-select" title="Organization">
+      ${optionsHtml}
+    </select>
+  `
+}
+
 // Platform tabs rendering
 function renderPlatformTabs(): string {
   return `
     <div class="platform-tabs">
+      <button class="platform-tab ${allPlatformsView ? 'active' : ''}" data-platform="${ALL_PLATFORMS}" title="Every platform in one list">
+        <span class="platform-icon">${ALL_PLATFORMS_ICON}</span>
+        <span class="platform-name">All</span>
+      </button>
       ${platforms.map(p => `
-        <button class="platform-tab ${p.name === currentPlatform ? 'active' : ''}"
+        <button class="platform-tab ${!allPlatformsView && p.name === currentPlatform ? 'active' : ''}"
                 data-platform="${p.name}"
-                style="--tab-color: ${p.color}">
+                style="--tab-color: ${escapeHtml(p.color)}">
           <span class="platform-icon">${p.icon}</span>
-          <span class="platform-name">${p.displayName}</span>
+          <span class="platform-name">${escapeHtml(p.displayName)}</span>
         </button>
       `).join('')}
+      ${!allPlatformsView && isCustomPlatform(currentPlatform) ? '<button id="editPlatformBtn" class="platform-tab platform-tab-action" title="Edit self-hosted platform">⚙</button>' : ''}
+      <button id="addPlatformBtn" class="platform-tab platform-tab-action" title="Add self-hosted platform">+</button>
+      ${renderOrgSwitcher()}
     </div>
   `
 }
@@ -536,23 +926,118 @@ function renderPlatformTabs(): string {
 function attachPlatformTabHandlers() {
   contentDiv.querySelectorAll('.platform-tab').forEach(tab => {
     tab.addEventListener('click', () => {
-      const platform = tab.getAttribute('data-platform') as PlatformType
-      if (platform && platform !== currentPlatform) {
-        switchPlatform(platform)
+      const platform = tab.getAttribute('data-platform')
+      if (platform === ALL_PLATFORMS) {
+        if (!allPlatformsView) switchToAllPlatforms()
+      } else if (platform && (allPlatformsView || platform !== currentPlatform)) {
+        switchPlatform(platform as PlatformType)
       }
     })
   })
+  document.getElementById('addPlatformBtn')?.addEventListener('click', () => showCustomPlatformDialog(null))
+  document.getElementById('editPlatformBtn')?.addEventListener('click', async () => {
+    const configs = await loadCustomPlatformConfigs()
+    const config = configs.find(c => getCustomPlatformName(c.id) === currentPlatform)
+    if (config) showCustomPlatformDialog(config)
+  })
+  attachOrgSwitcherHandler()
+}
+
+function attachOrgSwitcherHandler() {
+  const orgSelect = document.getElementById('orgSelect') as HTMLSelectElement | null
+  orgSelect?.addEventListener('change', () => {
+    if (orgSelect.value && orgSelect.value !== currentOrgId) {
+      switchOrganization(orgSelect.value)
+    }
+  })
+}
+
+/**
+ * Re-render the org switcher in place after the org list changes
+ */
+function updateOrgSwitcher() {
+  const tabs = contentDiv.querySelector('.platform-tabs')
+  if (!tabs) return
+
+  tabs.querySelector('.org-select')?.remove()
+  tabs.insertAdjacentHTML('beforeend', renderOrgSwitcher())
+  attachOrgSwitcherHandler()
+}
+
+/**
+ * Fetch the platform's organizations from the background.
+ * Reloads data if the background picked or corrected the active organization.
+ */
+async function refreshOrganizations(): Promise<void> {
+  // The All view uses each platform's active organization and has no switcher
+  if (allPlatformsView) return
+  const platform = currentPlatform
+
+  try {
+    const response = await chrome.runtime.sendMessage({ type: 'GET_ORGANIZATIONS', platform })
+    if (response?.error || platform !== currentPlatform || allPlatformsView) return
+
+    organizations = response.organizations || []
+    const activeOrgId = (response.activeOrgId as string | null) || null
+
+    if (activeOrgId !== currentOrgId) {
+      currentOrgId = activeOrgId
+      await reloadCurrentScope()
+    } else {
+      updateOrgSwitcher()
+    }
+  } catch (err) {
+    logger.warn(`[${platform}] Failed to load organizations:`, err)
+  }
+}
+
+async function switchOrganization(orgId: string) {
+  stopAutoSync()
+
+  currentOrgId = orgId
+  await chrome.runtime.sendMessage({ type: 'SET_ORGANIZATION', platform: currentPlatform, orgId })
+
+  await reloadCurrentScope()
+  startAutoSync()
+}
+
+/**
+ * Reload and re-render everything for the current platform/organization
+ */
+async function reloadCurrentScope() {
+  clearError()
+  selectedForDelete.clear()
+  selectedConversationId = null
+  searchQuery = ''
+  currentProjectFilter = ''
+  currentModelFilter = ''
+
+  showInitialLoading()
+  const hasCache = await loadCache()
+
+  if (currentView === 'backups') {
+    renderBackupList()
+  } else if (currentView === 'diagnostics') {
+    renderDiagnosticsPanel()
+  } else if (hasCache && cachedConversations.length > 0) {
+    renderConversationList(cachedConversations)
+  }
 }
 
 async function switchPlatform(platform: PlatformType) {
   // Stop auto-sync for old platform
   stopAutoSync()
 
+  allPlatformsView = false
   currentPlatform = platform
+  currentOrgId = null
+  organizations = []
   saveCurrentPlatform()
   clearError()
   selectedForDelete.clear()
   searchQuery = ''
+  currentProjectFilter = ''
+  currentModelFilter = ''
 
   // Update UI
   contentDiv.querySelectorAll('.platform-tab').forEach(tab => {
@@ -573,7 +1058,37 @@ async function switchPlatform(platform: PlatformType) {
     triggerSync()
     // Start auto-sync for new platform
     startAutoSync()
+    refreshOrganizations()
+  }
+}
+
+/**
+ * Show every platform's cached conversations in one list
+ */
+async function switchToAllPlatforms() {
+  stopAutoSync()
+
+  allPlatformsView = true
+  saveCurrentPlatform()
+  clearError()
+  selectedForDelete.clear()
+  selectedConversationId = null
+  searchQuery = ''
+  currentProjectFilter = ''
+  currentModelFilter = ''
+
+  showInitialLoading()
+  await loadCache()
+
+  if (currentView === 'backups') {
+    renderBackupList()
+  } else if (currentView === 'diagnostics') {
+    renderDiagnosticsPanel()
+  } else {
+    renderConversationList(cachedConversations)
   }
+
+  if (await checkTokenStatus()) startAutoSync()
 }
 
 function renderViewTabs(): string {
@@ -604,6 +1119,11 @@ function attachViewTabHandlers() {
   })
 }
 
+function getCountText(): string {
+  const countText = `${cachedConversations.length} conversations`
+  return allPlatformsView ? `${countText} on ${allViewPlatforms.length} platforms` : countText
+}
+
 function renderSyncStatusBar(): string {
   if (cachedConversations.length === 0 && !syncProgress) return ''
 
@@ -616,12 +1136,12 @@ function renderSyncStatusBar(): string {
     return `
       <div class="sync-status-bar syncing">
         <span class="sync-indicator spinning"></span>
-        <span>Syncing ${platform?.displayName || ''}... ${progressText}</span>
+        <span>Syncing ${escapeHtml(platform?.displayName || '')}... ${progressText}</span>
       </div>
     `
   }
 
-  const countText = `${cachedConversations.length} conversations`
+  const countText = getCountText()
   const timeText = lastSyncTime ? `Last sync: ${formatRelativeTime(lastSyncTime)}` : ''
 
   return `
@@ -645,17 +1165,18 @@ function updateSyncStatusBar() {
     statusBar.className = 'sync-status-bar syncing'
     statusBar.innerHTML = `
       <span class="sync-indicator spinning"></span>
-      <span>Syncing ${platform?.displayName || ''}... ${progressText}</span>
+      <span>Syncing ${escapeHtml(platform?.displayName || '')}... ${progressText}</span>
     `
   } else {
-    const countText = `${cachedConversations.length} conversations`
+    const countText = getCountText()
     const timeText = lastSyncTime ? `Last sync: ${formatRelativeTime(lastSyncTime)}` : ''
 
     // Build index status text
     let indexText = ''
     const indexedCount = Object.keys(contentIndex).length
     if (indexProgress?.inProgress) {
-      indexText = ` · Indexing ${indexProgress.indexed}/${indexProgress.total}`
+      const paused = !!indexProgress.pausedUntil && indexProgress.pausedUntil > Date.now()
+      indexText = ` · Indexing ${paused ? 'paused ' : ''}${indexProgress.indexed}/${indexProgress.total}`
     } else if (indexedCount > 0) {
       indexText = ` · ${indexedCount} indexed`
     }
@@ -670,19 +1191,33 @@ function updateSyncStatusBar() {
   }
 }
 
+/**
+ * Platforms the open list syncs: the current one, or in the All view every
+ * platform with a cache
+ */
+function getViewPlatforms(): PlatformType[] {
+  return allPlatformsView ? allViewPlatforms : [currentPlatform]
+}
+
 function triggerSync(forceRefresh = false) {
-  logger.log(`[${currentPlatform}] Triggering sync, forceRefresh:`, forceRefresh)
-  chrome.runtime.sendMessage({ type: 'START_SYNC', platform: currentPlatform, forceRefresh })
+  for (const platform of getViewPlatforms()) {
+    logger.log(`[${platform}] Triggering sync, forceRefresh:`, forceRefresh)
+    chrome.runtime.sendMessage({ type: 'START_SYNC', platform, forceRefresh })
+  }
 }
 
 function startAutoSync() {
-  logger.log(`[${currentPlatform}] Starting auto-sync`)
-  chrome.runtime.sendMessage({ type: 'START_AUTO_SYNC', platform: currentPlatform })
+  for (const platform of getViewPlatforms()) {
+    logger.log(`[${platform}] Starting auto-sync`)
+    chrome.runtime.sendMessage({ type: 'START_AUTO_SYNC', platform })
+  }
 }
 
 function stopAutoSync() {
-  logger.log(`[${currentPlatform}] Stopping auto-sync`)
-  chrome.runtime.sendMessage({ type: 'STOP_AUTO_SYNC', platform: currentPlatform })
+  for (const platform of getViewPlatforms()) {
+    logger.log(`[${platform}] Stopping auto-sync`)
+    chrome.runtime.sendMessage({ type: 'STOP_AUTO_SYNC', platform })
+  }
 }
 
 function attachSyncButtonHandler() {
@@ -692,6 +1227,7 @@ function attachSyncButtonHandler() {
 }
 
 async function checkTokenStatus(): Promise<boolean> {
+  if (allPlatformsView) return checkAllTokenStatus()
   const platform = platforms.find(p => p.name === currentPlatform)
   tokenStatusDiv.textContent = `Checking ${platform?.displayName || 'platform'}...`
   tokenStatusDiv.className = 'token-status checking'
@@ -706,7 +1242,7 @@ async function checkTokenStatus(): Promise<boolean> {
       tokenStatusDiv.className = 'token-status success'
       return true
     } else {
-      const url = currentPlatform === 'chatgpt' ? 'chatgpt.com' : 'claude.ai'
+      const url = getPlatformHost(currentPlatform)
       tokenStatusDiv.textContent = `✗ Please open ${url} first`
       tokenStatusDiv.className = 'token-status error'
       return false
@@ -718,64 +1254,228 @@ async function checkTokenStatus(): Promise<boolean> {
   }
 }
 
-function renderPreview(messages: UnifiedMessage[], conversationId: string, title: string) {
-  const lastMessages = messages.slice(-3)
-  const platform = platforms.find(p => p.name === currentPlatform)
-  const assistantName = platform?.displayName || 'Assistant'
+/**
+ * All view: count the platforms with a session
+ */
+async function checkAllTokenStatus(): Promise<boolean> {
+  tokenStatusDiv.textContent = 'Checking platforms...'
+  tokenStatusDiv.className = 'token-status checking'
+
+  const connected = await Promise.all(platforms.map(p =>
+    chrome.runtime.sendMessage({ type: 'GET_TOKEN_STATUS', platform: p.name })
+      .then(response => !!response?.hasToken)
+      .catch(() => false)
+  ))
+  const count = connected.filter(Boolean).length
+
+  if (count > 0) {
+    tokenStatusDiv.textContent = `✓ ${count} of ${platforms.length} platforms connected`
+    tokenStatusDiv.className = 'token-status success'
+    return true
+  }
+  tokenStatusDiv.textContent = '✗ Open a platform and log in first'
+  tokenStatusDiv.className = 'token-status error'
+  return false
+}
+
+/**
+ * Render the fork points on the shown thread, each with a sibling switcher
+ */
+function renderBranchBar(messages: UnifiedMessage[], path: UnifiedMessage[], assistantName: string): string {
+  const forks = path
+    .map((msg, position) => ({ msg, position }))
+    .filter(({ msg }) => (msg.siblingCount || 0) > 1)
+
+  if (forks.length === 0) return ''
+
+  const forksHtml = forks.map(({ msg, position }) => {
+    const siblings = getSiblings(messages, msg)
+    const index = siblings.findIndex(m => m.id === msg.id)
+    const prev = siblings[index - 1]
+    const next = siblings[index + 1]
+    const parentKey = msg.parentId || ''
+    return `
+      <div class="branch-fork">
+        <span class="branch-label">#${position + 1} ${msg.role === 'user' ? 'You' : assistantName}</span>
+        <button class="branch-btn" data-parent="${parentKey}" data-target="${prev?.id || ''}" ${prev ? '' : 'disabled'} title="Previous version">‹</button>
+        <span class="branch-count">${index + 1}/${siblings.length}</span>
+        <button class="branch-btn" data-parent="${parentKey}" data-target="${next?.id || ''}" ${next ? '' : 'disabled'} title="Next version">›</button>
+      </div>
+    `
+  }).join('')
 
-  const messagesHtml = lastMessages.length === 0
+  return `<div class="preview-branches">${forksHtml}</div>`
+}
+
+/**
+ * Message author label; assistant messages name their model when known
+ */
+function getRoleLabel(msg: UnifiedMessage, assistantName: string): string {
+  if (msg.role === 'user') return 'You'
+  return msg.model ? `${assistantName} · ${escapeHtml(formatModelName(msg.model))}` : assistantName
+}
+
+function renderPreview(messages: UnifiedMessage[], conversationId: string, title: string) {
+  // The cached title wins so a rename shows up on re-render
+  const displayTitle = cachedConversations.find(c => c.id === conversationId)?.title || title
+  const path = resolveBranchPath(messages, branchSelections)
+  const search = previewSearch?.conversationId === conversationId ? previewSearch : null
+  const hitIds = search ? getHitMessageIds(path, search) : new Set<string>()
+  // The list's hit count covers every branch; hits off this thread get a link there
+  const otherHitIds = search ? [...getHitMessageIds(messages.filter(msg => !path.includes(msg)), search)] : []
+  // The whole thread around search hits, hit messages in full; otherwise the last few
+  const shownMessages = hitIds.size > 0 ? path : path.slice(-3)
+  const platform = platforms.find(p => p.name === getConversationScope(conversationId).platform)
+  const assistantName = escapeHtml(platform?.displayName || 'Assistant')
+
+  const messagesHtml = shownMessages.length === 0
     ? '<p class="empty">No messages</p>'
-    : lastMessages.map(msg => `
-        <div class="message ${msg.role}">
-          <div class="msg-role">${msg.role === 'user' ? 'You' : assistantName}</div>
-          <div class="msg-content">${escapeHtml(msg.content.substring(0, 200))}${msg.content.length > 200 ? '...' : ''}</div>
+    : shownMessages.map(msg => `
+        <div class="message ${msg.role} ${hitIds.has(msg.id) ? 'has-hits' : ''}">
+          <div class="msg-role">${getRoleLabel(msg, assistantName)}</div>
+          <div class="msg-content">${renderMessageContent(msg, hitIds.has(msg.id))}</div>
         </div>
       `).join('')
 
   return `
+    <div class="preview-header">
+      <div class="preview-title" data-id="${conversationId}">${escapeHtml(displayTitle)}</div>
+      ${platform?.capabilities.rename ? `<button class="preview-rename-btn" data-id="${conversationId}" title="Rename">✎</button>` : ''}
+    </div>
+    ${renderBranchBar(messages, path, assistantName)}
+    ${hitIds.size > 0 || otherHitIds.length > 0 ? renderHitNav(hitIds.size, otherHitIds) : ''}
     <div class="preview-messages">
       ${messagesHtml}
     </div>
     <div class="preview-actions">
-      <button class="delete-btn" data-id="${conversationId}" data-title="${escapeHtml(title)}">Delete Conversation</button>
+      <button class="delete-btn" data-id="${conversationId}" data-title="${escapeHtml(displayTitle)}">Delete Conversation</button>
+    </div>
+  `
+}
+
+/**
+ * Messages that contain the search terms
+ */
+function getHitMessageIds(messages: UnifiedMessage[], search: PreviewSearch): Set<string> {
+  return new Set(messages
+    .filter(msg => !search.role || msg.role === search.role)
+    .filter(msg => matchRanges(partsToSearchText(getMessageParts(msg)), search.terms).length > 0)
+    .map(msg => msg.id))
+}
+
+/**
+ * Previous/next through the hits on the shown thread, and a switch to the
+ * first version of it with more
+ * @param otherHitIds - messages with hits on other branches
+ */
+function renderHitNav(messageCount: number, otherHitIds: string[]): string {
+  const elsewhere = (label: string) => otherHitIds.length > 0
+    ? `<button class="hit-branch-btn" data-target="${escapeHtml(otherHitIds[0])}" title="Switch to the version with the match">${label}</button>`
+    : ''
+
+  if (messageCount === 0) {
+    return `
+      <div class="preview-hits-elsewhere">
+        <span class="preview-hit-messages">Matches are only in another version of this thread</span>
+        ${elsewhere('Show')}
+      </div>
+    `
+  }
+  return `
+    <div class="preview-hits">
+      <span class="preview-hit-count"></span>
+      <span class="preview-hit-messages">in ${messageCount} message${messageCount === 1 ? '' : 's'}</span>
+      ${elsewhere(`${otherHitIds.length} more in other versions`)}
+      <button class="hit-nav-btn" data-step="-1" title="Previous match">‹</button>
+      <button class="hit-nav-btn" data-step="1" title="Next match">›</button>
     </div>
   `
 }
 
+// Wrap ranges of a text node in marks; the last first, so earlier offsets hold
+function markTextRanges(node: Text, ranges: TextRange[]) {
+  for (const [start, end] of [...ranges].reverse()) {
+    const hit = node.splitText(start)
+    hit.splitText(end - start)
+    const mark = document.createElement('mark')
+    mark.className = 'preview-hit'
+    hit.replaceWith(mark)
+    mark.appendChild(hit)
+  }
+}
+
+/**
+ * Mark the search terms in the messages with hits, scroll to the first and
+ * wire up previous/next
+ */
+function attachPreviewHits(previewDiv: HTMLElement, conversationId: string) {
+  const nav = previewDiv.querySelector('.preview-hits')
+  if (!nav || previewSearch?.conversationId !== conversationId) return
+  const { terms } = previewSearch
+
+  previewDiv.querySelectorAll('.message.has-hits .msg-content').forEach(content => {
+    const walker = document.createTreeWalker(content, NodeFilter.SHOW_TEXT)
+    const nodes: Text[] = []
+    while (walker.nextNode()) nodes.push(walker.currentNode as Text)
+    for (const node of nodes) markTextRanges(node, matchRanges(node.data, terms))
+  })
+
+  const marks = Array.from(previewDiv.querySelectorAll<HTMLElement>('mark.preview-hit'))
+  const countEl = nav.querySelector('.preview-hit-count')!
+  const buttons = nav.querySelectorAll<HTMLButtonElement>('.hit-nav-btn')
+  // Hits past the rendered text, e.g. in attachment names, can't be shown
+  if (marks.length === 0) {
+    countEl.textContent = 'No visible matches'
+    buttons.forEach(btn => { btn.disabled = true })
+    return
+  }
+
+  let current = 0
+  const goTo = (index: number) => {
+    marks[current].classList.remove('current')
+    current = (index + marks.length) % marks.length
+    marks[current].classList.add('current')
+    marks[current].scrollIntoView({ block: 'center' })
+    countEl.textContent = `Match ${current + 1} of ${marks.length}`
+  }
+  buttons.forEach(btn => {
+    btn.addEventListener('click', () => goTo(current + Number(btn.getAttribute('data-step'))))
+  })
+  goTo(0)
+}
+
 /**
  * Check if preview cache is valid (within 24 hours)
  */
 async function getValidPreviewCache(conversationId: string): Promise<UnifiedMessage[] | null> {
-  const cacheKey = getPreviewCacheKey(currentPlatform, conversationId)
-  return new Promise(resolve => {
-    chrome.storage.local.get([cacheKey], result => {
-      const cache = result[cacheKey] as PreviewCache | undefined
-      if (cache?.messages && cache.cachedAt) {
-        const age = Date.now() - cache.cachedAt
-        if (age < PREVIEW_CACHE_EXPIRY_MS) {
-          resolve(cache.messages)
-          return
-        }
-      }
-      resolve(null)
-    })
-  })
+  const cache = await getPreview(getConversationStorageScope(conversationId), conversationId)
+  if (cache?.messages && cache.cachedAt) {
+    const age = Date.now() - cache.cachedAt
+    if (age < PREVIEW_CACHE_EXPIRY_MS) {
+      return cache.messages
+    }
+  }
+  return null
 }
 
 /**
  * Save preview to cache
  */
 async function savePreviewCache(conversationId: string, messages: UnifiedMessage[]): Promise<void> {
-  const cacheKey = getPreviewCacheKey(currentPlatform, conversationId)
   const cache: PreviewCache = {
     messages,
     cachedAt: Date.now()
   }
-  await chrome.storage.local.set({ [cacheKey]: cache })
+  await putPreview(getConversationStorageScope(conversationId), conversationId, cache)
 }
 
 async function showConversationPreview(conversationId: string, title: string) {
   selectedConversationId = conversationId
+  branchSelections = {}
+  const result = searchQuery ? listedResults.get(conversationId) : undefined
+  previewSearch = result?.contentTerms?.length
+    ? { conversationId, terms: result.contentTerms, role: result.role }
+    : null
 
   document.querySelectorAll('.conversation-item').forEach(el => {
     el.classList.toggle('selected', el.getAttribute('data-id') === conversationId)
@@ -801,7 +1501,7 @@ async function showConversationPreview(conversationId: string, title: string) {
   try {
     const response = await chrome.runtime.sendMessage({
       type: 'GET_CONVERSATION_DETAIL',
-      platform: currentPlatform,
+      platform: getConversationScope(conversationId).platform,
       conversationId
     })
 
@@ -834,10 +1534,12 @@ function showFullPreview(
   conv: UnifiedConversation | undefined
 ) {
   const snippet = extractSnippet(messages)
+  const messageCount = getActivePath(messages).length
+  previewMessages = messages
   if (conv) {
     conv.snippet = snippet
-    conv.messageCount = messages.length
-    updateConversationSnippet(conversationId, snippet, messages.length)
+    conv.messageCount = messageCount
+    updateConversationSnippet(conversationId, snippet, messageCount)
   }
 
   // Add fade-in class for smooth transition
@@ -847,6 +1549,9 @@ function showFullPreview(
   requestAnimationFrame(() => {
     previewDiv.innerHTML = renderPreview(messages, conversationId, title)
     attachPreviewDeleteHandler(previewDiv)
+    attachPreviewRenameHandler(previewDiv)
+    attachBranchHandlers(previewDiv, conversationId, title)
+    attachPreviewHits(previewDiv, conversationId)
 
     // Remove transition class after animation
     setTimeout(() => {
@@ -869,6 +1574,53 @@ function attachPreviewDeleteHandler(previewDiv: HTMLElement) {
   }
 }
 
+/**
+ * Attach rename handlers in preview header (button or double-click on title)
+ */
+function attachPreviewRenameHandler(previewDiv: HTMLElement) {
+  const renameBtn = previewDiv.querySelector('.preview-rename-btn')
+  const titleEl = previewDiv.querySelector('.preview-title') as HTMLElement | null
+  if (!renameBtn || !titleEl) return
+
+  const id = titleEl.getAttribute('data-id')
+  if (!id) return
+  renameBtn.addEventListener('click', () => startInlineRename(titleEl, id))
+  titleEl.addEventListener('dblclick', () => startInlineRename(titleEl, id))
+}
+
+/**
+ * Attach branch switcher handlers in preview, including the switch to a
+ * version with search hits
+ */
+function attachBranchHandlers(previewDiv: HTMLElement, conversationId: string, title: string) {
+  const rerender = () => {
+    previewDiv.innerHTML = renderPreview(previewMessages, conversationId, title)
+    attachPreviewDeleteHandler(previewDiv)
+    attachPreviewRenameHandler(previewDiv)
+    attachBranchHandlers(previewDiv, conversationId, title)
+    attachPreviewHits(previewDiv, conversationId)
+  }
+
+  previewDiv.querySelectorAll('.branch-btn').forEach(btn => {
+    btn.addEventListener('click', () => {
+      const target = btn.getAttribute('data-target')
+      if (!target || selectedConversationId !== conversationId) return
+
+      branchSelections[btn.getAttribute('data-parent') || ''] = target
+      rerender()
+    })
+  })
+
+  const hitBranchBtn = previewDiv.querySelector('.hit-branch-btn')
+  hitBranchBtn?.addEventListener('click', () => {
+    const target = hitBranchBtn.getAttribute('data-target')
+    if (!target || selectedConversationId !== conversationId) return
+
+    Object.assign(branchSelections, selectBranchTo(previewMessages, target))
+    rerender()
+  })
+}
+
 function updateConversationSnippet(conversationId: string, snippet: string, messageCount: number) {
   const item = document.querySelector(`.conversation-item[data-id="${conversationId}"]`)
   if (item) {
@@ -883,69 +1635,723 @@ function updateConversationSnippet(conversationId: string, snippet: string, mess
   }
 }
 
-function updateBatchDeleteBtn() {
-  const btn = document.getElementById('batchDeleteBtn') as HTMLButtonElement
-  const count = selectedForDelete.size
+// ==================== Star ====================
+
+function updateStarButton(conversationId: string, starred: boolean) {
+  const btn = document.querySelector(`.conv-star-btn[data-id="${conversationId}"]`)
   if (btn) {
-    btn.textContent = count > 0 ? `Delete (${count})` : 'Delete'
-    btn.disabled = count === 0 || deletingIds.size > 0
+    btn.classList.toggle('starred', starred)
+    btn.textContent = starred ? '★' : '☆'
   }
 }
 
-function extractSearchSnippet(text: string, query: string): string {
-  const lowerText = text.toLowerCase()
-  const lowerQuery = query.toLowerCase()
-  const index = lowerText.indexOf(lowerQuery)
-  if (index === -1) return ''
+/**
+ * Toggle a star: update the UI right away, roll back if the platform refuses
+ */
+async function toggleStar(conversationId: string) {
+  const conv = cachedConversations.find(c => c.id === conversationId)
+  if (!conv) return
+
+  const starred = !conv.isStarred
+  conv.isStarred = starred
+  updateStarButton(conversationId, starred)
+  if (starredOnly) updateListItems()
 
-  const start = Math.max(0, index - 30)
-  const end = Math.min(text.length, index + query.length + 30)
-  const prefix = start > 0 ? '...' : ''
-  const suffix = end < text.length ? '...' : ''
-  return prefix + text.slice(start, end) + suffix
-}
+  try {
+    const response = await chrome.runtime.sendMessage({
+      type: 'STAR_CONVERSATION',
+      platform: getConversationScope(conversationId).platform,
+      conversationId,
+      starred
+    })
+    if (!response.error) return
 
-function searchConversations(conversations: UnifiedConversation[], query: string): SearchResult[] {
-  if (!query.trim()) {
-    return conversations.map(conv => ({ conv, matchType: 'title' as const, snippet: null }))
+    showError(`Star failed: ${parseError(response.error)}`)
+  } catch (err) {
+    showError(`Star failed: ${parseError(err)}`)
   }
 
-  const lowerQuery = query.toLowerCase().trim()
-  const results: SearchResult[] = []
+  conv.isStarred = !starred
+  updateStarButton(conversationId, !starred)
+  if (starredOnly) updateListItems()
+}
 
-  for (const conv of conversations) {
-    const title = (conv.title || '').toLowerCase()
+// ==================== Rename ====================
 
-    // Check title match first
-    if (title.includes(lowerQuery)) {
-      results.push({ conv, matchType: 'title', snippet: null })
-      continue
+/**
+ * Show a title everywhere it is rendered (list item, preview header)
+ */
+function updateConversationTitle(conversationId: string, title: string) {
+  const item = document.querySelector(`.conversation-item[data-id="${conversationId}"]`)
+  if (item) {
+    item.setAttribute('data-title', title)
+    const titleEl = item.querySelector('.conv-title-text')
+    if (titleEl) titleEl.textContent = title
+    item.querySelector('.conv-delete-btn')?.setAttribute('data-title', title)
+  }
+
+  if (selectedConversationId === conversationId) {
+    const previewTitle = document.querySelector('.preview-title')
+    if (previewTitle) previewTitle.textContent = title
+    document.querySelector('.preview-actions .delete-btn')?.setAttribute('data-title', title)
+  }
+}
+
+/**
+ * Rename a conversation: update the UI right away, roll back if the platform refuses
+ */
+async function renameConversation(conversationId: string, title: string): Promise<boolean> {
+  const conv = cachedConversations.find(c => c.id === conversationId)
+  const previousTitle = conv?.title || 'Untitled'
+  if (conv) conv.title = title
+  updateConversationTitle(conversationId, title)
+
+  try {
+    const response = await chrome.runtime.sendMessage({
+      type: 'RENAME_CONVERSATION',
+      platform: getConversationScope(conversationId).platform,
+      conversationId,
+      title
+    })
+    if (!response.error) return true
+
+    showError(`Rename failed: ${parseError(response.error)}`)
+  } catch (err) {
+    showError(`Rename failed: ${parseError(err)}`)
+  }
+
+  if (conv) conv.title = previousTitle
+  updateConversationTitle(conversationId, previousTitle)
+  return false
+}
+
+/**
+ * Replace a title element with an input; Enter or blur saves, Escape cancels
+ */
+function startInlineRename(titleEl: HTMLElement, conversationId: string) {
+  if (titleEl.querySelector('.title-input')) return
+
+  const currentTitle = cachedConversations.find(c => c.id === conversationId)?.title || titleEl.textContent || ''
+  const input = document.createElement('input')
+  input.type = 'text'
+  input.className = 'title-input'
+  input.value = currentTitle
+
+  titleEl.textContent = ''
+  titleEl.appendChild(input)
+  titleEl.classList.add('editing')
+  input.focus()
+  input.select()
+
+  let done = false
+  const finish = (save: boolean) => {
+    if (done) return
+    done = true
+    titleEl.classList.remove('editing')
+
+    const newTitle = input.value.trim()
+    titleEl.textContent = currentTitle
+    if (save && newTitle && newTitle !== currentTitle) {
+      renameConversation(conversationId, newTitle)
     }
+  }
 
-    // Check indexed content
-    const indexed = contentIndex[conv.id]
-    if (indexed?.contentText) {
-      const contentLower = indexed.contentText.toLowerCase()
-      if (contentLower.includes(lowerQuery)) {
-        const snippet = extractSearchSnippet(indexed.contentText, query)
-        results.push({ conv, matchType: 'content', snippet })
-        continue
-      }
+  input.addEventListener('click', e => e.stopPropagation())
+  input.addEventListener('keydown', e => {
+    e.stopPropagation()
+    if (e.key === 'Enter') finish(true)
+    if (e.key === 'Escape') finish(false)
+  })
+  input.addEventListener('blur', () => finish(true))
+}
+
+/**
+ * Expand a rename pattern for one conversation.
+ * {title} = current title, {n} = 1-based position, {date} = created date (YYYY-MM-DD)
+ */
+function applyRenamePattern(pattern: string, conv: UnifiedConversation, position: number): string {
+  const date = conv.createTime ? new Date(conv.createTime).toISOString().slice(0, 10) : ''
+  return pattern
+    .replace(/\{title\}/g, conv.title || 'Untitled')
+    .replace(/\{n\}/g, String(position))
+    .replace(/\{date\}/g, date)
+    .trim()
+}
+
+/**
+ * Selected conversations in the order they are listed
+ */
+function getSelectedInListOrder(): UnifiedConversation[] {
+  const listed = Array.from(document.querySelectorAll('.conversation-item'))
+    .map(el => el.getAttribute('data-id'))
+    .filter((id): id is string => !!id && selectedForDelete.has(id))
+  return listed
+    .map(id => cachedConversations.find(c => c.id === id))
+    .filter((c): c is UnifiedConversation => !!c)
+}
+
+let pendingRenameTargets: UnifiedConversation[] = []
+
+function getRenamePlan(): { conv: UnifiedConversation; title: string }[] {
+  const pattern = renamePatternInput.value
+  return pendingRenameTargets
+    .map((conv, i) => ({ conv, title: applyRenamePattern(pattern, conv, i + 1) }))
+    .filter(r => r.title && r.title !== r.conv.title)
+}
+
+function updateRenamePreview() {
+  const plan = getRenamePlan()
+  renameConfirmBtn.disabled = plan.length === 0
+  renameConfirmBtn.textContent = plan.length > 0 ? `Rename (${plan.length})` : 'Rename'
+
+  const shown = plan.slice(0, 3).map(r => `
+    <div class="rename-preview-row">
+      <span class="rename-old">${escapeHtml(r.conv.title || 'Untitled')}</span>
+      <span class="rename-arrow">→</span>
+      <span class="rename-new">${escapeHtml(r.title)}</span>
+    </div>
+  `).join('')
+  const more = plan.length > 3 ? `<div class="rename-preview-more">and ${plan.length - 3} more</div>` : ''
+  renamePreview.innerHTML = shown + more
+}
+
+function showRenameDialog() {
+  pendingRenameTargets = getSelectedInListOrder()
+  if (pendingRenameTargets.length === 0) return
+
+  renameDialogMessage.textContent = `New title pattern for ${pendingRenameTargets.length} selected conversations`
+  renamePatternInput.value = '{title}'
+  updateRenamePreview()
+  renameDialog.style.display = 'flex'
+  renamePatternInput.focus()
+  renamePatternInput.select()
+}
+
+function hideRenameDialog() {
+  renameDialog.style.display = 'none'
+  pendingRenameTargets = []
+}
+
+renamePatternInput.addEventListener('input', updateRenamePreview)
+renamePatternInput.addEventListener('keydown', e => {
+  if (e.key === 'Enter' && !renameConfirmBtn.disabled) renameConfirmBtn.click()
+  if (e.key === 'Escape') hideRenameDialog()
+})
+renameCancelBtn.addEventListener('click', hideRenameDialog)
+
+renameConfirmBtn.addEventListener('click', async () => {
+  const plan = getRenamePlan()
+  hideRenameDialog()
+  if (plan.length === 0 || batchTaskInProgress) return
+
+  batchTaskInProgress = true
+  let failed = 0
+
+  for (let i = 0; i < plan.length; i++) {
+    setBatchTaskStatus('batchRenameBtn', `Renaming ${i + 1}/${plan.length}`)
+    const ok = await renameConversation(plan[i].conv.id, plan[i].title)
+    if (!ok) failed++
+  }
+
+  batchTaskInProgress = false
+  updateBatchDeleteBtn()
+
+  if (failed > 0) {
+    showError(`Rename failed for ${failed} of ${plan.length} conversations`)
+  }
+})
+
+function updateBatchDeleteBtn() {
+  const btn = document.getElementById('batchDeleteBtn') as HTMLButtonElement
+  const count = selectedForDelete.size
+  if (btn) {
+    btn.textContent = count > 0 ? `Delete (${count})` : 'Delete'
+    btn.disabled = count === 0 || deletingIds.size > 0
+  }
+
+  // Backup/export share the selection but not the delete lock
+  const busy = batchTaskInProgress || deletingIds.size > 0
+  const backupBtn = document.getElementById('batchBackupBtn') as HTMLButtonElement | null
+  if (backupBtn && !batchTaskInProgress) {
+    backupBtn.textContent = 'Backup'
+    backupBtn.disabled = count === 0 || busy
+  }
+  const exportBtn = document.getElementById('batchExportBtn') as HTMLButtonElement | null
+  if (exportBtn && !batchTaskInProgress) {
+    exportBtn.textContent = 'Export'
+    exportBtn.disabled = count === 0 || busy
+  }
+  const renameBtn = document.getElementById('batchRenameBtn') as HTMLButtonElement | null
+  if (renameBtn && !batchTaskInProgress) {
+    renameBtn.textContent = 'Rename'
+    renameBtn.disabled = count === 0 || busy
+  }
+}
+
+// ==================== Batch Backup / Export ====================
+
+let batchTaskInProgress = false
+
+function setBatchTaskStatus(buttonId: string, text: string) {
+  const btn = document.getElementById(buttonId) as HTMLButtonElement | null
+  if (btn) {
+    btn.textContent = text
+    btn.disabled = true
+  }
+}
+
+/**
+ * Back up every selected conversation
+ */
+async function backupSelected() {
+  const ids = Array.from(selectedForDelete)
+  if (ids.length === 0 || batchTaskInProgress) return
+
+  batchTaskInProgress = true
+  const failedErrors: string[] = []
+
+  for (let i = 0; i < ids.length; i++) {
+    setBatchTaskStatus('batchBackupBtn', `Backing up ${i + 1}/${ids.length}`)
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'BACKUP_CONVERSATION',
+        platform: getConversationScope(ids[i]).platform,
+        conversationId: ids[i]
+      })
+      if (response.error) failedErrors.push(parseError(response.error))
+    } catch (err) {
+      failedErrors.push(parseError(err))
+    }
+  }
+
+  batchTaskInProgress = false
+  updateBatchDeleteBtn()
+
+  if (failedErrors.length > 0) {
+    showError(`Backup failed for ${failedErrors.length} of ${ids.length}: ${failedErrors[0]}`)
+  }
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').substring(0, 40)
+}
+
+function downloadJson(filename: string, data: unknown) {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+/**
+ * Export every selected conversation (with messages) as one JSON file.
+ * A selection spanning platforms exports one section per platform.
+ */
+async function exportSelected() {
+  const ids = Array.from(selectedForDelete)
+  if (ids.length === 0 || batchTaskInProgress) return
+
+  batchTaskInProgress = true
+  setBatchTaskStatus('batchExportBtn', `Exporting ${ids.length}...`)
+
+  const items = ids.map(id => ({ platform: getConversationScope(id).platform, conversationId: id }))
+  const crossPlatform = new Set(items.map(item => item.platform)).size > 1
+
+  try {
+    const response = await chrome.runtime.sendMessage(crossPlatform
+      ? { type: 'EXPORT_ALL_PLATFORMS', items }
+      : { type: 'EXPORT_CONVERSATIONS', platform: items[0].platform, conversationIds: ids })
+
+    if (response.error) {
+      showError(`Export failed: ${parseError(response.error)}`)
+      return
+    }
+
+    const data = response.data as ConversationExport | CrossPlatformExport
+    const project = getProjectFilterLabel()
+    const date = new Date().toISOString().slice(0, 10)
+    const prefix = crossPlatform ? 'all-platforms' : items[0].platform
+    const filename = `${prefix}${project ? '-' + slugify(project) : ''}-export-${date}.json`
+    downloadJson(filename, data)
+
+    const failed = (response.failed as string[] | undefined) || []
+    if (failed.length > 0) {
+      showError(`Export skipped ${failed.length} of ${ids.length} conversations that failed to load`)
+    }
+  } catch (err) {
+    showError(`Export failed: ${parseError(err)}`)
+  } finally {
+    batchTaskInProgress = false
+    updateBatchDeleteBtn()
+  }
+}
+
+// ==================== Project Filter ====================
+
+/**
+ * Projects present in the cached conversations, with counts
+ */
+function getProjectsInCache(): { id: string; name: string; count: number }[] {
+  const projects = new Map<string, { id: string; name: string; count: number }>()
+  for (const conv of cachedConversations) {
+    if (!conv.projectId) continue
+    const entry = projects.get(conv.projectId)
+    if (entry) {
+      entry.count++
+    } else {
+      projects.set(conv.projectId, { id: conv.projectId, name: conv.projectName || 'Untitled project', count: 1 })
+    }
+  }
+  return Array.from(projects.values()).sort((a, b) => a.name.localeCompare(b.name))
+}
+
+function getProjectFilterLabel(): string | null {
+  if (!currentProjectFilter) return null
+  if (currentProjectFilter === NO_PROJECT_FILTER) return 'no-project'
+  return getProjectsInCache().find(p => p.id === currentProjectFilter)?.name || null
+}
+
+/**
+ * Apply the list filters (project, model, starred) before search and sort
+ */
+function applyListFilters(conversations: UnifiedConversation[]): UnifiedConversation[] {
+  const filtered = filterByModel(filterByProject(conversations))
+  return starredOnly ? filtered.filter(c => c.isStarred) : filtered
+}
+
+/**
+ * Models used in a conversation, from the list and the content index
+ */
+function getModels(conv: UnifiedConversation): string[] {
+  return getConversationModels(conv, contentIndex[conv.id])
+}
+
+interface ModelStats {
+  model: string
+  conversations: number
+  replies: number       // Assistant messages, where the platform reports models per message
+  lastUsed: number
+}
+
+/**
+ * Usage per model across the cached conversations, most used first
+ */
+function getModelStats(): ModelStats[] {
+  const stats = new Map<string, ModelStats>()
+  for (const conv of cachedConversations) {
+    const counts = contentIndex[conv.id]?.models || {}
+    for (const model of getModels(conv)) {
+      const entry = stats.get(model) || { model, conversations: 0, replies: 0, lastUsed: 0 }
+      entry.conversations++
+      entry.replies += counts[model] || 0
+      entry.lastUsed = Math.max(entry.lastUsed, conv.updateTime)
+      stats.set(model, entry)
+    }
+  }
+  return Array.from(stats.values()).sort((a, b) => b.conversations - a.conversations)
+}
+
+function filterByModel(conversations: UnifiedConversation[]): UnifiedConversation[] {
+  if (!currentModelFilter) return conversations
+  return conversations.filter(c => getModels(c).includes(currentModelFilter))
+}
+
+function renderModelFilter(stats: ModelStats[]): string {
+  if (stats.length === 0) return ''
+
+  const optionsHtml = [
+    `<option value="">All models</option>`,
+    ...stats.map(s =>
+      `<option value="${escapeHtml(s.model)}" ${s.model === currentModelFilter ? 'selected' : ''}>${escapeHtml(formatModelName(s.model))} (${s.conversations})</option>`
+    )
+  ].join('')
+
+  return `<select id="modelSelect" class="sort-select model-select" title="Filter by model">${optionsHtml}</select>`
+}
+
+function attachModelFilterHandler() {
+  const modelSelect = document.getElementById('modelSelect') as HTMLSelectElement | null
+  modelSelect?.addEventListener('change', () => {
+    currentModelFilter = modelSelect.value
+    updateListItems()
+  })
+}
+
+/**
+ * Collapsible per-model usage table
+ */
+function renderModelStats(stats: ModelStats[]): string {
+  if (stats.length === 0) return ''
+
+  const rowsHtml = stats.map(s => `
+    <tr>
+      <td title="${escapeHtml(s.model)}">${escapeHtml(formatModelName(s.model))}</td>
+      <td>${s.conversations}</td>
+      <td>${s.replies || '–'}</td>
+      <td>${formatRelativeTime(s.lastUsed)}</td>
+    </tr>
+  `).join('')
+
+  return `
+    <details class="model-stats">
+      <summary>Model usage (${stats.length})</summary>
+      <table>
+        <thead><tr><th>Model</th><th>Chats</th><th>Replies</th><th>Last used</th></tr></thead>
+        <tbody>${rowsHtml}</tbody>
+      </table>
+    </details>
+  `
+}
+
+function filterByProject(conversations: UnifiedConversation[]): UnifiedConversation[] {
+  if (!currentProjectFilter) return conversations
+  if (currentProjectFilter === NO_PROJECT_FILTER) {
+    return conversations.filter(c => !c.projectId)
+  }
+  return conversations.filter(c => c.projectId === currentProjectFilter)
+}
+
+function renderProjectFilter(): string {
+  if (!allPlatformsView && !getCurrentCapabilities()?.projects) return ''
+  const projects = getProjectsInCache()
+  if (projects.length === 0) return ''
+
+  const noProjectCount = cachedConversations.filter(c => !c.projectId).length
+  const optionsHtml = [
+    `<option value="">All projects</option>`,
+    ...projects.map(p =>
+      `<option value="${escapeHtml(p.id)}" ${p.id === currentProjectFilter ? 'selected' : ''}>${escapeHtml(p.name)} (${p.count})</option>`
+    ),
+    `<option value="${NO_PROJECT_FILTER}" ${currentProjectFilter === NO_PROJECT_FILTER ? 'selected' : ''}>No project (${noProjectCount})</option>`
+  ].join('')
+
+  return `<select id="projectSelect" class="sort-select project-select" title="Filter by project">${optionsHtml}</select>`
+}
+
+function attachProjectFilterHandler() {
+  const projectSelect = document.getElementById('projectSelect') as HTMLSelectElement | null
+  projectSelect?.addEventListener('change', () => {
+    currentProjectFilter = projectSelect.value
+    // Selection never spans projects, so bulk actions stay project-scoped
+    selectedForDelete.clear()
+    const selectAllCheckbox = document.getElementById('selectAllCheckbox') as HTMLInputElement | null
+    if (selectAllCheckbox) selectAllCheckbox.checked = false
+    updateListItems()
+  })
+}
+
+// Storage scopes the open list searches
+function getViewStorageScopes(): string[] {
+  return allPlatformsView
+    ? allViewScopes.map(scope => getStorageScope(scope.platform, scope.orgId))
+    : [getStorageScope(currentPlatform, currentOrgId)]
+}
+
+function mergePostings(target: Postings, source: Postings) {
+  for (const [term, docs] of Object.entries(source)) {
+    target[term] = { ...target[term], ...docs }
+  }
+}
+
+async function getVocabulary(): Promise<SearchVocabulary> {
+  if (vocabulary?.index === contentIndex) return vocabulary
+  const index = contentIndex
+  const terms = new Set<string>()
+  for (const scope of getViewStorageScopes()) {
+    for (const term of await getIndexTerms(scope)) terms.add(term)
+  }
+  vocabulary = { index, terms, similar: new Map() }
+  return vocabulary
+}
+
+// Index terms a few edits from a word; the same words come back while typing
+async function getSimilarTerms(word: string, prefix: boolean): Promise<SimilarTerm[]> {
+  const { terms, similar } = await getVocabulary()
+  const key = `${prefix ? 'prefix' : 'term'}:${word}`
+  let found = similar.get(key)
+  if (!found) {
+    found = findSimilarTerms(word, terms, prefix)
+    similar.set(key, found)
+  }
+  return found
+}
+
+// Postings of the given terms across the listed scopes
+async function loadPostings(terms: string[]): Promise<Postings> {
+  const postings: Postings = {}
+  for (const scope of getViewStorageScopes()) {
+    mergePostings(postings, await getPostings(scope, terms))
+  }
+  return postings
+}
+
+/**
+ * Postings and corpus stats for a query, with the fuzzy expansions of its
+ * words in fuzzy mode; the All view scores every platform's index as one
+ * corpus
+ */
+async function loadQueryIndex(query: SearchQuery): Promise<QueryIndex> {
+  let fuzzy: Record<string, SimilarTerm[]> | undefined
+  if (fuzzySearch) {
+    fuzzy = {}
+    for (const { word, prefix } of getFuzzyWords(query)) {
+      fuzzy[word] = await getSimilarTerms(word, prefix)
+    }
+  }
+
+  const terms = new Set(getQueryTerms(query))
+  for (const similar of Object.values(fuzzy || {})) {
+    for (const { term } of similar) terms.add(term)
+  }
+  const postings = await loadPostings([...terms])
+  const expansions: Record<string, string[]> = {}
+  for (const scope of getViewStorageScopes()) {
+    for (const prefix of getQueryPrefixes(query)) {
+      const expanded = await getPostingsByPrefix(scope, prefix, MAX_PREFIX_EXPANSIONS)
+      mergePostings(postings, expanded)
+      expansions[prefix] = [...new Set([...(expansions[prefix] || []), ...Object.keys(expanded)])]
+    }
+  }
+
+  const lengths = Object.values(contentIndex).map(entry => entry.length || 0)
+  return {
+    postings,
+    expansions,
+    fuzzy,
+    stats: {
+      docCount: lengths.length,
+      avgLength: lengths.length > 0 ? lengths.reduce((sum, n) => sum + n, 0) / lengths.length : 0
     }
+  }
+}
+
+/**
+ * Ids of the listed conversations that have a backup
+ */
+async function getBackedUpIds(): Promise<Set<string>> {
+  const backups = await getBackups(allPlatformsView ? undefined : currentPlatform)
+  return new Set(backups
+    .filter(backup => {
+      const { platform, orgId } = getConversationScope(backup.id)
+      return backup.platform === platform && ((backup.orgId ?? null) === orgId || backup.orgId === undefined)
+    })
+    .map(backup => backup.id))
+}
+
+/**
+ * "Did you mean" query: words found in neither the index nor the titles are
+ * replaced by the most common index term a few edits away, written as in a
+ * conversation that has it. Null when there's nothing to correct.
+ */
+async function getCorrectedQuery(
+  input: string,
+  query: SearchQuery,
+  index: QueryIndex,
+  documents: SearchDocument[]
+): Promise<string | null> {
+  const docCount = (postings: Postings, term: string) => Object.keys(postings[term] || {}).length
+  let titleTerms: Map<string, number[]>[] | null = null
+  const replacements = new Map<string, string>()
+
+  for (const { word, prefix } of getFuzzyWords(query)) {
+    const known = prefix ? (index.expansions[word] || []).length > 0 : docCount(index.postings, word) > 0
+    if (known) continue
+    titleTerms ??= documents.map(doc => analyzeTitle(doc.conv.title || ''))
+    const clause = { kind: prefix ? 'prefix' as const : 'term' as const, terms: [word] }
+    if (titleTerms.some(terms => matchesTitle(clause, terms))) continue
+
+    const similar = await getSimilarTerms(word, prefix)
+    if (similar.length === 0) continue
+    const postings = await loadPostings(similar.map(s => s.term))
+    // Fewest edits, then in the most conversations
+    const best = [...similar].sort((a, b) =>
+      a.distance - b.distance || docCount(postings, b.term) - docCount(postings, a.term)
+    )[0]
+    const [id] = Object.keys(postings[best.term] || {})
+    if (!id) continue
+    const text = (await getDocumentTexts(getConversationStorageScope(id), [id]))[id]
+    replacements.set(word, (text && findSurfaceForm(text, best.term)) || best.term)
+  }
+
+  if (replacements.size === 0) return null
+  const corrected = rewriteQuery(input, replacements)
+  return corrected !== input ? corrected : null
+}
 
-    // Also check snippet field (from preview)
-    const snippetText = (conv.snippet || '').toLowerCase()
-    if (snippetText.includes(lowerQuery)) {
-      results.push({ conv, matchType: 'title', snippet: null })
+async function searchConversations(
+  conversations: UnifiedConversation[],
+  input: string
+): Promise<{ results: SearchResult[]; errors: string[]; correction: string | null }> {
+  if (!input.trim()) {
+    return {
+      results: conversations.map(conv => ({ conv, matchType: 'title' as const, score: 0, snippetHtml: null })),
+      errors: [],
+      correction: null
     }
   }
 
-  return results
+  const query = parseSearchQuery(input)
+  const index = await loadQueryIndex(query)
+  const backedUp = query.usesBackups ? await getBackedUpIds() : new Set<string>()
+
+  const documents: SearchDocument[] = conversations.map(conv => {
+    const { platform } = getConversationScope(conv.id)
+    return {
+      conv,
+      platform,
+      platformName: platforms.find(p => p.name === platform)?.displayName || platform,
+      models: getModels(conv),
+      length: contentIndex[conv.id]?.length || 0,
+      hasCode: !!contentIndex[conv.id]?.hasCode,
+      hasBackup: backedUp.has(conv.id)
+    }
+  })
+
+  const results = runQuery(query, documents, index).map(match => ({
+    conv: match.conv,
+    matchType: match.inContent ? 'content' as const : 'title' as const,
+    score: match.score,
+    snippetHtml: null,
+    contentTerms: match.contentTerms,
+    hits: match.hits,
+    role: query.role
+  }))
+  const correction = await getCorrectedQuery(input, query, index, documents)
+  return { results, errors: query.errors, correction }
+}
+
+/**
+ * Highlighted passages for the first content matches, in display order
+ */
+async function addSearchSnippets(results: SearchResult[]): Promise<void> {
+  const contentResults = results
+    .filter(r => r.matchType === 'content' && r.contentTerms?.length)
+    .slice(0, MAX_SNIPPET_RESULTS)
+  if (contentResults.length === 0) return
+
+  // Texts live in each conversation's own scope
+  const idsByScope = new Map<string, string[]>()
+  for (const result of contentResults) {
+    const scope = getConversationStorageScope(result.conv.id)
+    idsByScope.set(scope, [...(idsByScope.get(scope) || []), result.conv.id])
+  }
+  const texts: Record<string, string> = {}
+  for (const [scope, ids] of idsByScope) {
+    Object.assign(texts, await getDocumentTexts(scope, ids))
+  }
+  for (const result of contentResults) {
+    const text = texts[result.conv.id]
+    if (text) result.snippetHtml = buildSnippets(text, result.contentTerms!) || null
+  }
 }
 
 function sortConversations(conversations: UnifiedConversation[], sortBy: SortOption): UnifiedConversation[] {
   const sorted = [...conversations]
   switch (sortBy) {
+    case 'relevance': // Nothing to rank without a query
     case 'updated':
       sorted.sort((a, b) => b.updateTime - a.updateTime)
       break
@@ -966,6 +2372,9 @@ function sortConversations(conversations: UnifiedConversation[], sortBy: SortOpt
 function sortSearchResults(results: SearchResult[], sortBy: SortOption): SearchResult[] {
   const sorted = [...results]
   switch (sortBy) {
+    case 'relevance':
+      sorted.sort((a, b) => b.score - a.score || b.conv.updateTime - a.conv.updateTime)
+      break
     case 'updated':
       sorted.sort((a, b) => b.conv.updateTime - a.conv.updateTime)
       break
@@ -983,15 +2392,19 @@ function sortSearchResults(results: SearchResult[], sortBy: SortOption): SearchR
   return sorted
 }
 
-function searchAndSortConversations(conversations: UnifiedConversation[], query: string, sortBy: SortOption): SearchResult[] {
-  const results = searchConversations(conversations, query)
-  return sortSearchResults(results, sortBy)
+async function searchAndSortConversations(
+  conversations: UnifiedConversation[],
+  query: string,
+  sortBy: SortOption
+): Promise<{ results: SearchResult[]; errors: string[]; correction: string | null }> {
+  const { results, errors, correction } = await searchConversations(conversations, query)
+  const sorted = sortSearchResults(results, sortBy)
+  await addSearchSnippets(sorted)
+  return { results: sorted, errors, correction }
 }
 
-// Legacy function for backward compatibility
-function filterAndSortConversations(conversations: UnifiedConversation[], query: string, sortBy: SortOption): UnifiedConversation[] {
-  const results = searchAndSortConversations(conversations, query, sortBy)
-  return results.map(r => r.conv)
+function getFuzzyToggleTitle(): string {
+  return fuzzySearch ? 'Fuzzy matching: tolerates typos (click for exact)' : 'Exact matching (click to tolerate typos)'
 }
 
 function renderSearchBox(): string {
@@ -1003,18 +2416,83 @@ function renderSearchBox(): string {
     <div class="search-sort-row">
       <div class="search-box">
         <span class="search-icon">🔍</span>
-        <input type="text" id="searchInput" class="search-input" placeholder="Search conversations..." value="${escapeHtml(searchQuery)}">
+        <input type="text" id="searchInput" class="search-input" placeholder="Search... (title:, role:user, has:code, after:30d)" value="${escapeHtml(searchQuery)}" autocomplete="off">
         <button id="clearSearchBtn" class="clear-search-btn ${searchQuery ? '' : 'hidden'}" title="Clear">×</button>
+        <div id="searchSuggestions" class="search-suggestions hidden"></div>
       </div>
       <div class="sort-box">
         <select id="sortSelect" class="sort-select">
           ${sortOptionsHtml}
         </select>
+        <button id="starredFilterBtn" class="starred-filter-btn ${starredOnly ? 'active' : ''}" title="Show starred only">★</button>
+        <button id="fuzzyToggleBtn" class="fuzzy-toggle-btn ${fuzzySearch ? 'active' : ''}" title="${getFuzzyToggleTitle()}">≈</button>
       </div>
     </div>
   `
 }
 
+/**
+ * Values offered after a filter key, from what the list contains
+ */
+function getSuggestionValues(): Partial<Record<FilterKey, string[]>> {
+  return {
+    model: getModelStats().map(stats => stats.model),
+    platform: platforms.map(p => p.name)
+  }
+}
+
+// The word before the caret
+function getTypedWord(input: HTMLInputElement): string {
+  const caret = input.selectionStart ?? input.value.length
+  return /\S*$/.exec(input.value.slice(0, caret))![0]
+}
+
+function refreshSuggestions(input: HTMLInputElement) {
+  searchSuggestions = getSuggestions(getTypedWord(input), getSuggestionValues())
+  activeSuggestion = 0
+  renderSuggestions(input)
+}
+
+function renderSuggestions(input: HTMLInputElement) {
+  const container = document.getElementById('searchSuggestions')
+  if (!container) return
+
+  container.classList.toggle('hidden', searchSuggestions.length === 0)
+  container.innerHTML = searchSuggestions.map((suggestion, i) => `
+    <div class="search-suggestion ${i === activeSuggestion ? 'active' : ''}" data-index="${i}">
+      <span class="search-suggestion-label">${escapeHtml(suggestion.label)}</span>
+      ${suggestion.description ? `<span class="search-suggestion-hint">${escapeHtml(suggestion.description)}</span>` : ''}
+    </div>
+  `).join('')
+
+  container.querySelectorAll('.search-suggestion').forEach(el => {
+    // mousedown, before the input loses focus and hides the list
+    el.addEventListener('mousedown', (e) => {
+      e.preventDefault()
+      acceptSuggestion(input, Number(el.getAttribute('data-index')))
+    })
+  })
+}
+
+/**
+ * Replace the word being typed with a completion and search again
+ */
+function acceptSuggestion(input: HTMLInputElement, index: number) {
+  const suggestion = searchSuggestions[index]
+  if (!suggestion) return
+
+  const caret = input.selectionStart ?? input.value.length
+  const before = input.value.slice(0, caret)
+  const head = before.slice(0, before.length - getTypedWord(input).length) + suggestion.text
+  input.value = head + input.value.slice(caret).replace(/^\S*/, '')
+  input.setSelectionRange(head.length, head.length)
+
+  searchQuery = input.value
+  document.getElementById('clearSearchBtn')?.classList.toggle('hidden', !searchQuery)
+  updateListItems()
+  refreshSuggestions(input)
+}
+
 function attachSearchHandlers() {
   const searchInput = document.getElementById('searchInput') as HTMLInputElement
   const clearBtn = document.getElementById('clearSearchBtn') as HTMLButtonElement
@@ -1024,6 +2502,28 @@ function attachSearchHandlers() {
     searchQuery = searchInput.value
     clearBtn?.classList.toggle('hidden', !searchQuery)
     updateListItems()
+    refreshSuggestions(searchInput)
+  })
+
+  searchInput?.addEventListener('keydown', (e) => {
+    if (searchSuggestions.length === 0) return
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      const step = e.key === 'ArrowDown' ? 1 : -1
+      activeSuggestion = (activeSuggestion + step + searchSuggestions.length) % searchSuggestions.length
+      renderSuggestions(searchInput)
+    } else if (e.key === 'Tab' || e.key === 'Enter') {
+      e.preventDefault()
+      acceptSuggestion(searchInput, activeSuggestion)
+    } else if (e.key === 'Escape') {
+      searchSuggestions = []
+      renderSuggestions(searchInput)
+    }
+  })
+
+  searchInput?.addEventListener('blur', () => {
+    searchSuggestions = []
+    renderSuggestions(searchInput)
   })
 
   clearBtn?.addEventListener('click', () => {
@@ -1034,6 +2534,22 @@ function attachSearchHandlers() {
     searchInput?.focus()
   })
 
+  const starredFilterBtn = document.getElementById('starredFilterBtn')
+  starredFilterBtn?.addEventListener('click', () => {
+    starredOnly = !starredOnly
+    starredFilterBtn.classList.toggle('active', starredOnly)
+    updateListItems()
+  })
+
+  const fuzzyToggleBtn = document.getElementById('fuzzyToggleBtn')
+  fuzzyToggleBtn?.addEventListener('click', () => {
+    fuzzySearch = !fuzzySearch
+    fuzzyToggleBtn.classList.toggle('active', fuzzySearch)
+    fuzzyToggleBtn.title = getFuzzyToggleTitle()
+    chrome.storage.local.set({ fuzzySearch })
+    if (searchQuery) updateListItems()
+  })
+
   sortSelect?.addEventListener('change', () => {
     currentSortOption = sortSelect.value as SortOption
     // Save sort preference
@@ -1042,30 +2558,54 @@ function attachSearchHandlers() {
   })
 }
 
-function updateListItems() {
+// Search for a "Did you mean" suggestion instead
+function applySearchCorrection(correction: string) {
+  const searchInput = document.getElementById('searchInput') as HTMLInputElement | null
+  searchQuery = correction
+  if (searchInput) searchInput.value = correction
+  document.getElementById('clearSearchBtn')?.classList.toggle('hidden', !searchQuery)
+  updateListItems()
+}
+
+async function updateListItems() {
+  const seq = ++searchSeq
+
+  // Use content-aware search when query exists, otherwise just sort
+  const visibleConversations = applyListFilters(cachedConversations)
+  const { results: searchResults, errors, correction } = searchQuery
+    ? await searchAndSortConversations(visibleConversations, searchQuery, currentSortOption)
+    : {
+        results: sortSearchResults(
+          visibleConversations.map(conv => ({ conv, matchType: 'title' as const, score: 0, snippetHtml: null })),
+          currentSortOption
+        ),
+        errors: [],
+        correction: null
+      }
+  if (seq !== searchSeq) return
+  listedResults = new Map(searchResults.map(r => [r.conv.id, r]))
+
   const listContainer = document.querySelector('.conversation-list')
   const resultCountEl = document.querySelector('.search-result-count')
 
   if (!listContainer) return
 
-  // Use content-aware search when query exists, otherwise just sort
-  const searchResults = searchQuery
-    ? searchAndSortConversations(cachedConversations, searchQuery, currentSortOption)
-    : sortSearchResults(
-        cachedConversations.map(conv => ({ conv, matchType: 'title' as const, snippet: null })),
-        currentSortOption
-      )
-
   if (resultCountEl) {
     if (searchQuery) {
       const contentMatches = searchResults.filter(r => r.matchType === 'content').length
-      const titleMatches = searchResults.length - contentMatches
       let countText = `${searchResults.length} results`
       if (contentMatches > 0) {
         countText += ` (${contentMatches} in content)`
       }
-      resultCountEl.textContent = countText
+      // Ignored filters, so a typo doesn't silently widen the results
+      resultCountEl.innerHTML = escapeHtml(countText) +
+        errors.map(error => ` <span class="search-query-error">· ${escapeHtml(error)}</span>`).join('') +
+        (correction ? ` · Did you mean <a href="#" class="search-correction">${escapeHtml(correction)}</a>?` : '')
       resultCountEl.classList.remove('hidden')
+      resultCountEl.querySelector('.search-correction')?.addEventListener('click', (e) => {
+        e.preventDefault()
+        applySearchCorrection(correction!)
+      })
     } else {
       resultCountEl.classList.add('hidden')
     }
@@ -1076,27 +2616,38 @@ function updateListItems() {
       <div class="no-results">
         <div class="no-results-icon">🔍</div>
         <div class="no-results-text">No conversations match "${escapeHtml(searchQuery)}"</div>
-        <div class="no-results-hint">Try a different search term</div>
+        <div class="no-results-hint">${fuzzySearch ? 'Try a different search term' : 'Try a different search term, or turn on fuzzy matching (≈) to tolerate typos'}</div>
       </div>
     `
     return
   }
 
-  const listHtml = searchResults.map(r => renderConversationItem(r.conv, r.snippet)).join('')
+  const listHtml = searchResults.map(r => renderConversationItem(r.conv, r.snippetHtml, r.hits)).join('')
   listContainer.innerHTML = listHtml
   attachListItemHandlers()
 }
 
-function renderConversationItem(conv: UnifiedConversation, searchSnippet?: string | null): string {
+function renderPlatformBadge(platform: PlatformConfig | undefined): string {
+  return `<span class="platform-badge" style="background: ${escapeHtml(platform?.color || '#666')}" title="${escapeHtml(platform?.displayName || '')}">${platform?.icon || '?'}</span>`
+}
+
+/**
+ * @param searchSnippetHtml - highlighted passages of a content match, already escaped
+ * @param hits - occurrences of a content match
+ */
+function renderConversationItem(conv: UnifiedConversation, searchSnippetHtml?: string | null, hits = 0): string {
   const isDeleting = deletingIds.has(conv.id)
   const snippetText = conv.snippet || ''
   const countText = conv.messageCount ? `${conv.messageCount} msgs` : ''
-  const starIcon = conv.isStarred ? '⭐ ' : ''
+  const platform = platforms.find(p => p.name === getConversationScope(conv.id).platform)
+  const canRename = platform?.capabilities.rename
+  const starTitle = platform?.capabilities.star ? 'Star' : 'Star (saved in this browser only)'
+  const models = getModels(conv)
 
   // Display search snippet if it's a content match, otherwise show normal snippet
   let snippetHtml: string
-  if (searchSnippet) {
-    snippetHtml = `<span class="content-match">"${escapeHtml(searchSnippet)}"</span>`
+  if (searchSnippetHtml) {
+    snippetHtml = `<span class="content-match">${searchSnippetHtml}</span>`
   } else if (snippetText) {
     snippetHtml = escapeHtml(snippetText)
   } else {
@@ -1106,14 +2657,18 @@ function renderConversationItem(conv: UnifiedConversation, searchSnippet?: strin
   return `
     <div class="conversation-item ${isDeleting ? 'deleting' : ''}" data-id="${conv.id}" data-title="${escapeHtml(conv.title || 'Untitled')}">
       <input type="checkbox" class="conv-checkbox" data-id="${conv.id}" ${selectedForDelete.has(conv.id) ? 'checked' : ''} ${isDeleting ? 'disabled' : ''}>
+      <button class="conv-star-btn ${conv.isStarred ? 'starred' : ''}" data-id="${conv.id}" title="${starTitle}" ${isDeleting ? 'disabled' : ''}>${conv.isStarred ? '★' : '☆'}</button>
       <div class="conv-content">
-        <div class="conv-title">${starIcon}${escapeHtml(conv.title || 'Untitled')}</div>
-        <div class="conv-snippet">${snippetHtml}</div>
+        <div class="conv-title">${allPlatformsView ? renderPlatformBadge(platform) : ''}<span class="conv-title-text">${escapeHtml(conv.title || 'Untitled')}</span></div>
+        <div class="conv-snippet ${searchSnippetHtml ? 'has-matches' : ''}">${snippetHtml}</div>
         <div class="conv-meta">
           <span class="conv-date">${formatRelativeTime(conv.updateTime)}</span>
           ${countText ? `<span class="conv-count">${countText}</span>` : ''}
+          ${hits > 0 ? `<span class="conv-hits" title="Matches in the messages, edited and regenerated versions included; open to step through them">${hits} ${hits === 1 ? 'hit' : 'hits'}</span>` : ''}
+          ${models.length > 0 ? `<span class="conv-model-badge" title="${escapeHtml(models.join(', '))}">${escapeHtml(formatModelName(models[0]))}${models.length > 1 ? ` +${models.length - 1}` : ''}</span>` : ''}
         </div>
       </div>
+      ${canRename ? `<button class="conv-rename-btn" data-id="${conv.id}" title="Rename" ${isDeleting ? 'disabled' : ''}>✎</button>` : ''}
       <button class="conv-delete-btn" data-id="${conv.id}" data-title="${escapeHtml(conv.title || 'Untitled')}" title="Delete" ${isDeleting ? 'disabled' : ''}>
         ${isDeleting ? '<span class="spinner-small"></span>' : '×'}
       </button>
@@ -1153,6 +2708,23 @@ function attachListItemHandlers() {
     })
   })
 
+  contentDiv.querySelectorAll('.conv-star-btn').forEach(btn => {
+    btn.addEventListener('click', (e) => {
+      e.stopPropagation()
+      const id = btn.getAttribute('data-id')
+      if (id && !deletingIds.has(id)) toggleStar(id)
+    })
+  })
+
+  contentDiv.querySelectorAll('.conv-rename-btn').forEach(btn => {
+    btn.addEventListener('click', (e) => {
+      e.stopPropagation()
+      const id = btn.getAttribute('data-id')
+      const titleEl = btn.parentElement?.querySelector('.conv-title-text') as HTMLElement | null
+      if (id && titleEl && !deletingIds.has(id)) startInlineRename(titleEl, id)
+    })
+  })
+
   contentDiv.querySelectorAll('.conv-delete-btn').forEach(btn => {
     btn.addEventListener('click', (e) => {
       e.stopPropagation()
@@ -1171,8 +2743,12 @@ function renderConversationList(conversations: UnifiedConversation[]) {
     selectedForDelete.clear()
   }
 
-  const filteredConversations = filterAndSortConversations(conversations, searchQuery, currentSortOption)
+  // Searching reads the index asynchronously; the list fills in once it has
+  const filteredConversations = searchQuery ? [] : sortConversations(applyListFilters(conversations), currentSortOption)
   const platform = platforms.find(p => p.name === currentPlatform)
+  const emptyText = allPlatformsView
+    ? 'No platform has been synced yet. Open a platform tab to sync it.'
+    : `No conversations found on ${escapeHtml(platform?.displayName || 'this platform')}.`
 
   if (conversations.length === 0) {
     contentDiv.innerHTML = `
@@ -1180,7 +2756,7 @@ function renderConversationList(conversations: UnifiedConversation[]) {
       ${renderViewTabs()}
       <div class="main-layout">
         <div class="left-panel">
-          <p class="empty">No conversations found on ${platform?.displayName || 'this platform'}.</p>
+          <p class="empty">${emptyText}</p>
           ${renderSyncStatusBar()}
         </div>
         <div class="right-panel">
@@ -1203,7 +2779,8 @@ function renderConversationList(conversations: UnifiedConversation[]) {
   }
 
   const listHtml = filteredConversations.map(conv => renderConversationItem(conv)).join('')
-  const resultCountHtml = `<div class="search-result-count ${searchQuery ? '' : 'hidden'}">${searchQuery ? `${filteredConversations.length} results` : ''}</div>`
+  const modelStats = getModelStats()
+  const resultCountHtml = '<div class="search-result-count hidden"></div>'
 
   contentDiv.innerHTML = `
     ${renderPlatformTabs()}
@@ -1217,8 +2794,16 @@ function renderConversationList(conversations: UnifiedConversation[]) {
             <input type="checkbox" id="selectAllCheckbox">
             <span>Select All</span>
           </label>
-          <button id="batchDeleteBtn" class="batch-delete-btn" disabled>Delete</button>
+          ${renderProjectFilter()}
+          ${renderModelFilter(modelStats)}
+          <div class="batch-buttons">
+            <button id="batchBackupBtn" class="batch-action-btn" disabled>Backup</button>
+            <button id="batchExportBtn" class="batch-action-btn" disabled>Export</button>
+            ${!allPlatformsView && platform?.capabilities.rename ? '<button id="batchRenameBtn" class="batch-action-btn" disabled>Rename</button>' : ''}
+            <button id="batchDeleteBtn" class="batch-delete-btn" disabled>Delete</button>
+          </div>
         </div>
+        ${renderModelStats(modelStats)}
         <div class="conversation-list">${listHtml}</div>
         ${renderSyncStatusBar()}
       </div>
@@ -1227,7 +2812,7 @@ function renderConversationList(conversations: UnifiedConversation[]) {
         <div class="right-panel-content">
           <div id="preview" class="preview">
             <div class="preview-empty">
-              <div class="preview-empty-icon">${platform?.icon || '💬'}</div>
+              <div class="preview-empty-icon">${getViewIcon()}</div>
               <div>Click a conversation to preview</div>
             </div>
           </div>
@@ -1264,33 +2849,49 @@ function renderConversationList(conversations: UnifiedConversation[]) {
     }
   })
 
+  document.getElementById('batchBackupBtn')?.addEventListener('click', backupSelected)
+  document.getElementById('batchExportBtn')?.addEventListener('click', exportSelected)
+  document.getElementById('batchRenameBtn')?.addEventListener('click', showRenameDialog)
+  attachProjectFilterHandler()
+  attachModelFilterHandler()
+
   attachListItemHandlers()
   attachSyncButtonHandler()
-}
-
-interface Backup {
-  id: string
-  title: string
-  platform: PlatformType
-  messages: UnifiedMessage[]
-  backupTime: number
+  if (searchQuery) updateListItems()
 }
 
 function renderBackupPreview(backup: Backup): string {
-  const lastMessages = backup.messages.slice(-3)
+  const lastMessages = getActivePath(backup.messages).slice(-3)
   const platform = platforms.find(p => p.name === backup.platform)
-  const assistantName = platform?.displayName || 'Assistant'
+  const assistantName = escapeHtml(platform?.displayName || 'Assistant')
 
   return lastMessages.length === 0
     ? '<p class="empty">No messages</p>'
     : lastMessages.map(msg => `
         <div class="message ${msg.role}">
-          <div class="msg-role">${msg.role === 'user' ? 'You' : assistantName}</div>
-          <div class="msg-content">${escapeHtml(msg.content.substring(0, 200))}${msg.content.length > 200 ? '...' : ''}</div>
+          <div class="msg-role">${getRoleLabel(msg, assistantName)}</div>
+          <div class="msg-content">${renderMessageContent(msg)}</div>
         </div>
       `).join('')
 }
 
+/**
+ * Restore action for a backup: restorable on soft-deleting platforms,
+ * a plain label when the conversation still exists or can't come back
+ */
+function renderBackupRestore(backup: Backup): string {
+  const platform = platforms.find(p => p.name === backup.platform)
+  const displayName = platform?.displayName || backup.platform
+
+  if (cachedConversations.some(c => c.id === backup.id && getConversationScope(c.id).platform === backup.platform)) {
+    return `<span class="backup-status">On ${escapeHtml(displayName)}</span>`
+  }
+  if (platform?.capabilities.restore) {
+    return `<button class="restore-backup-btn" data-id="${backup.id}" data-platform="${backup.platform}">Restore</button>`
+  }
+  return `<span class="backup-status archive-only" title="${escapeHtml(displayName)} deletes permanently, so this backup can't be restored there">Local archive only</span>`
+}
+
 async function renderBackupList() {
   contentDiv.innerHTML = `
     ${renderPlatformTabs()}
@@ -1303,7 +2904,8 @@ async function renderBackupList() {
   try {
     const response = await chrome.runtime.sendMessage({
       type: 'GET_BACKUPS',
-      platform: currentPlatform
+      platform: allPlatformsView ? undefined : currentPlatform,
+      orgId: currentOrgId
     })
     const backups: Backup[] = response.backups || []
 
@@ -1327,7 +2929,10 @@ async function renderBackupList() {
               <span class="platform-badge" style="background: ${platform?.color || '#666'}">${platform?.icon || '?'}</span>
               ${escapeHtml(backup.title || 'Untitled')}
             </div>
-            <button class="delete-backup-btn" data-id="${backup.id}" data-platform="${backup.platform}">×</button>
+            <div class="backup-actions">
+              ${renderBackupRestore(backup)}
+              <button class="delete-backup-btn" data-id="${backup.id}" data-platform="${backup.platform}" data-org="${backup.orgId || ''}">×</button>
+            </div>
           </div>
           <div class="conv-date">Backed up: ${formatDate(backup.backupTime)}</div>
           <div class="backup-preview">${renderBackupPreview(backup)}</div>
@@ -1353,19 +2958,55 @@ async function renderBackupList() {
           await chrome.runtime.sendMessage({
             type: 'DELETE_BACKUP',
             platform,
+            orgId: btn.getAttribute('data-org') || null,
+            conversationId: id
+          })
+          renderBackupList()
+        }
+      })
+    })
+
+    contentDiv.querySelectorAll('.restore-backup-btn').forEach(btn => {
+      btn.addEventListener('click', async (e) => {
+        e.stopPropagation()
+        const button = btn as HTMLButtonElement
+        const id = button.getAttribute('data-id')
+        const platform = button.getAttribute('data-platform') as PlatformType
+        if (!id) return
+
+        button.disabled = true
+        button.textContent = 'Restoring...'
+        try {
+          const response = await chrome.runtime.sendMessage({
+            type: 'RESTORE_CONVERSATION',
+            platform,
             conversationId: id
           })
+          if (response.error) {
+            showError(`Restore failed: ${parseError(response.error)}`)
+            button.disabled = false
+            button.textContent = 'Restore'
+            return
+          }
+          // Cache and index updates arrive through the storage listener
+          const restored = response.conversation as UnifiedConversation | undefined
+          if (restored && !cachedConversations.some(c => c.id === restored.id)) {
+            cachedConversations = [restored, ...cachedConversations]
+          }
           renderBackupList()
+        } catch (err) {
+          showError(`Restore failed: ${parseError(err)}`)
+          button.disabled = false
+          button.textContent = 'Restore'
         }
       })
     })
   } catch (err) {
-    showError(`Failed to load backups: ${parseError(String(err))}`)
+    showError(`Failed to load backups: ${parseError(err)}`)
   }
 }
 
 function showInitialLoading() {
-  const platform = platforms.find(p => p.name === currentPlatform)
 
   contentDiv.innerHTML = `
     ${renderPlatformTabs()}
@@ -1374,7 +3015,7 @@ function showInitialLoading() {
       <div class="left-panel">
         <div class="sync-status-bar syncing">
           <span class="sync-indicator spinning"></span>
-          <span>Loading ${platform?.displayName || ''} conversations...</span>
+          <span>Loading ${escapeHtml(getViewName())} conversations...</span>
         </div>
       </div>
       <div class="right-panel">
@@ -1382,7 +3023,7 @@ function showInitialLoading() {
         <div class="right-panel-content">
           <div id="preview" class="preview">
             <div class="preview-empty">
-              <div class="preview-empty-icon">${platform?.icon || '💬'}</div>
+              <div class="preview-empty-icon">${getViewIcon()}</div>
               <div>Loading...</div>
             </div>
           </div>
@@ -1399,35 +3040,27 @@ function setupStorageListener() {
   chrome.storage.onChanged.addListener((changes, namespace) => {
     if (namespace !== 'local') return
 
-    const cacheKey = getCacheKey(currentPlatform)
-    const progressKey = getSyncProgressKey(currentPlatform)
-    const errorKey = getSyncErrorKey(currentPlatform)
-    const contentIndexKey = getContentIndexKey(currentPlatform)
-    const indexProgressKey = getIndexProgressKey(currentPlatform)
-
-    // Update conversation cache
-    if (changes[cacheKey]?.newValue) {
-      const cache = changes[cacheKey].newValue as PlatformCache
-      cachedConversations = cache.conversations || []
-      lastSyncTime = cache.lastSyncTime || null
-      syncComplete = cache.syncComplete || false
-      logger.log(`[${currentPlatform}] Cache updated: ${cachedConversations.length} conversations`)
-
-      if (currentView === 'conversations' && deletingIds.size === 0) {
-        // Check if the list is already rendered
-        const listContainer = document.querySelector('.conversation-list')
-        if (listContainer) {
-          // Just update list items without re-rendering entire page
-          // This preserves search input focus and value
-          const scrollTop = listContainer.scrollTop || 0
-          updateListItems()
-          listContainer.scrollTop = scrollTop
-        } else {
-          // List not yet rendered, do full render
-          renderConversationList(cachedConversations)
-        }
-        updateSyncStatusBar()
-      }
+    if (allPlatformsView) {
+      // Any platform's cache or index changing re-merges the list
+      const watched = allViewScopes.flatMap(({ platform, orgId }) => [
+        getCacheMetaKey(platform, orgId),
+        getIndexRevisionKey(platform, orgId)
+      ])
+      if (watched.some(key => changes[key])) scheduleAllPlatformsReload()
+      return
+    }
+
+    const metaKey = getCacheMetaKey(currentPlatform, currentOrgId)
+    const progressKey = getSyncProgressKey(currentPlatform, currentOrgId)
+    const errorKey = getSyncErrorKey(currentPlatform, currentOrgId)
+    const indexRevisionKey = getIndexRevisionKey(currentPlatform, currentOrgId)
+    const indexProgressKey = getIndexProgressKey(currentPlatform, currentOrgId)
+    const scope = getStorageScope(currentPlatform, currentOrgId)
+
+    // Update conversation cache; the metadata changes with every write
+    if (changes[metaKey]?.newValue) {
+      const meta = changes[metaKey].newValue as PlatformCacheMeta
+      reloadConversations(scope, meta)
     }
 
     // Update sync progress
@@ -1437,9 +3070,12 @@ function setupStorageListener() {
     }
 
     // Update content index
-    if (changes[contentIndexKey]?.newValue) {
-      contentIndex = changes[contentIndexKey].newValue as ContentIndex || {}
-      logger.log(`[${currentPlatform}] Content index updated: ${Object.keys(contentIndex).length} indexed`)
+    if (changes[indexRevisionKey]) {
+      getIndexEntries(scope).then(index => {
+        if (scope !== getStorageScope(currentPlatform, currentOrgId)) return
+        contentIndex = index
+        logger.log(`[${currentPlatform}] Content index updated: ${Object.keys(contentIndex).length} indexed`)
+      })
     }
 
     // Update index progress
@@ -1450,12 +3086,60 @@ function setupStorageListener() {
 
     // Handle sync error
     if (changes[errorKey]?.newValue) {
-      const errorMsg = changes[errorKey].newValue as string
-      showErrorWithAction(errorMsg)
+      showErrorWithAction(changes[errorKey].newValue)
     }
   })
 }
 
+/**
+ * Re-read the cached conversations after the background changed them
+ */
+async function reloadConversations(scope: string, meta: PlatformCacheMeta) {
+  const seq = ++cacheLoadSeq
+  const conversations = await getConversations(scope)
+  if (seq !== cacheLoadSeq) return
+
+  cachedConversations = conversations
+  lastSyncTime = meta.lastSyncTime || null
+  syncComplete = meta.syncComplete || false
+  logger.log(`[${currentPlatform}] Cache updated: ${cachedConversations.length} conversations`)
+  refreshConversationList()
+}
+
+// Syncs write in batches; wait for a pause before re-merging every platform
+const ALL_PLATFORMS_RELOAD_DELAY_MS = 500
+let allPlatformsReloadTimer: number | null = null
+
+function scheduleAllPlatformsReload() {
+  if (allPlatformsReloadTimer) clearTimeout(allPlatformsReloadTimer)
+  allPlatformsReloadTimer = window.setTimeout(async () => {
+    allPlatformsReloadTimer = null
+    await loadAllPlatformsCache()
+    if (allPlatformsView) refreshConversationList()
+  }, ALL_PLATFORMS_RELOAD_DELAY_MS)
+}
+
+/**
+ * Show reloaded conversations, in place when the list is already rendered
+ */
+function refreshConversationList() {
+  if (currentView === 'conversations' && deletingIds.size === 0) {
+    // Check if the list is already rendered
+    const listContainer = document.querySelector('.conversation-list')
+    if (listContainer) {
+      // Just update list items without re-rendering entire page
+      // This preserves search input focus and value
+      const scrollTop = listContainer.scrollTop || 0
+      updateListItems()
+      listContainer.scrollTop = scrollTop
+    } else {
+      // List not yet rendered, do full render
+      renderConversationList(cachedConversations)
+    }
+    updateSyncStatusBar()
+  }
+}
+
 async function init() {
   logger.log('init: START')
   clearError()
@@ -1474,7 +3158,7 @@ async function init() {
   const hasCache = await loadCache()
   logger.log('init: hasCache =', hasCache, 'conversations:', cachedConversations.length)
 
-  if (hasCache && cachedConversations.length > 0) {
+  if ((hasCache && cachedConversations.length > 0) || allPlatformsView) {
     logger.log('init: rendering cached list')
     renderConversationList(cachedConversations)
   } else {
@@ -1490,6 +3174,7 @@ async function init() {
   if (hasToken) {
     // Start auto-sync for incremental updates (checks every 30s)
     startAutoSync()
+    refreshOrganizations()
 
     // Only trigger full sync if no cached data exists
     // Otherwise, rely on auto-sync for incremental updates
@@ -1500,9 +3185,9 @@ async function init() {
       logger.log('init: cache exists, relying on auto-sync for updates')
     }
   } else {
-    if (!hasCache) {
+    if (!hasCache && !allPlatformsView) {
       const platform = platforms.find(p => p.name === currentPlatform)
-      const url = currentPlatform === 'chatgpt' ? 'chatgpt.com' : 'claude.ai'
+      const url = getPlatformHost(currentPlatform)
 
       contentDiv.innerHTML = `
         ${renderPlatformTabs()}
@@ -1522,7 +3207,7 @@ async function init() {
               <div id="preview" class="preview">
                 <div class="preview-empty">
                   <div class="preview-empty-icon">🔑</div>
-                  <div>Login to ${platform?.displayName || 'platform'} first</div>
+                  <div>Login to ${escapeHtml(platform?.displayName || 'platform')} first</div>
                 </div>
               </div>
             </div>
@@ -1536,6 +3221,170 @@ async function init() {
   logger.log('init: END')
 }
 
+// ==================== Self-hosted Platforms ====================
+
+const DEFAULT_CUSTOM_COLOR = '#6B7280'
+
+// Config being edited; null while adding a new platform
+let editingCustomConfig: CustomPlatformConfig | null = null
+
+function getMappings(config: CustomPlatformConfig): CustomMappings {
+  const { deleteMode, list, detail, conversationFields, messageFields } = config
+  return { deleteMode, list, detail, delete: config.delete, conversationFields, messageFields }
+}
+
+/**
+ * Preset whose mappings a config uses unchanged, if any
+ */
+function findPreset(mappings: CustomMappings): CustomPreset | '' {
+  const json = JSON.stringify(mappings)
+  const match = Object.entries(CUSTOM_PRESETS).find(([, preset]) => JSON.stringify(preset.mappings) === json)
+  return match ? match[0] as CustomPreset : ''
+}
+
+function updateCustomAuthFields() {
+  const style = cpAuthStyle.value as CustomAuthStyle
+  cpHeaderNameField.style.display = style === 'header' ? 'flex' : 'none'
+  cpTokenField.style.display = style === 'cookie' ? 'none' : 'flex'
+}
+
+function showCustomPlatformDialog(config: CustomPlatformConfig | null) {
+  editingCustomConfig = config
+  const mappings = config ? getMappings(config) : CUSTOM_PRESETS.openwebui.mappings
+
+  customPlatformDialogTitle.textContent = config ? `Edit ${config.displayName}` : 'Add Self-hosted Platform'
+  cpPreset.innerHTML = [
+    ...Object.entries(CUSTOM_PRESETS).map(([value, preset]) => `<option value="${value}">${escapeHtml(preset.label)}</option>`),
+    '<option value="">Custom</option>'
+  ].join('')
+  cpPreset.value = findPreset(mappings)
+  cpName.value = config?.displayName || ''
+  cpBaseUrl.value = config?.baseUrl || ''
+  cpAuthStyle.value = config?.auth.style || 'bearer'
+  cpHeaderName.value = config?.auth.headerName || ''
+  cpToken.value = config?.auth.token || ''
+  cpColor.value = config?.color || DEFAULT_CUSTOM_COLOR
+  cpMappings.value = JSON.stringify(mappings, null, 2)
+  cpError.textContent = ''
+  cpRemoveBtn.style.display = config ? '' : 'none'
+  updateCustomAuthFields()
+  customPlatformDialog.style.display = 'flex'
+  cpName.focus()
+}
+
+function hideCustomPlatformDialog() {
+  customPlatformDialog.style.display = 'none'
+  editingCustomConfig = null
+}
+
+cpPreset.addEventListener('change', () => {
+  const preset = cpPreset.value as CustomPreset | ''
+  if (preset) cpMappings.value = JSON.stringify(CUSTOM_PRESETS[preset].mappings, null, 2)
+})
+
+cpMappings.addEventListener('input', () => {
+  try {
+    cpPreset.value = findPreset(JSON.parse(cpMappings.value))
+  } catch {
+    cpPreset.value = ''
+  }
+})
+
+cpAuthStyle.addEventListener('change', updateCustomAuthFields)
+cpCancelBtn.addEventListener('click', hideCustomPlatformDialog)
+
+cpSaveBtn.addEventListener('click', async () => {
+  let mappings: CustomMappings
+  try {
+    mappings = JSON.parse(cpMappings.value)
+  } catch {
+    cpError.textContent = 'Mappings are not valid JSON'
+    return
+  }
+
+  const displayName = cpName.value.trim()
+  const style = cpAuthStyle.value as CustomAuthStyle
+  const config: CustomPlatformConfig = {
+    ...mappings,
+    id: editingCustomConfig?.id || slugifyPlatformId(displayName),
+    displayName,
+    baseUrl: cpBaseUrl.value.trim().replace(/\/+$/, ''),
+    color: cpColor.value,
+    auth: {
+      style,
+      token: style === 'cookie' ? undefined : cpToken.value.trim(),
+      headerName: style === 'header' ? cpHeaderName.value.trim() : undefined
+    }
+  }
+
+  const problem = validateCustomPlatformConfig(config)
+  if (problem) {
+    cpError.textContent = problem
+    return
+  }
+
+  // Requested before any other await so the click still counts as a user gesture
+  const granted = await chrome.permissions.request({ origins: [getOriginPattern(config.baseUrl)] })
+  if (!granted) {
+    cpError.textContent = `Access to ${new URL(config.baseUrl).host} is needed to manage its conversations`
+    return
+  }
+
+  const configs = await loadCustomPlatformConfigs()
+  if (!editingCustomConfig) {
+    // Two instances may share a name; keep their ids (and storage) apart
+    const baseId = config.id
+    for (let n = 2; configs.some(c => c.id === config.id); n++) {
+      config.id = `${baseId}-${n}`
+    }
+  }
+  await saveCustomPlatformConfigs(editingCustomConfig
+    ? configs.map(c => c.id === config.id ? config : c)
+    : [...configs, config])
+
+  hideCustomPlatformDialog()
+  await loadPlatforms()
+
+  const name = getCustomPlatformName(config.id)
+  if (name === currentPlatform) {
+    await reloadCurrentScope()
+    triggerSync(true)
+  } else {
+    switchPlatform(name)
+  }
+})
+
+/**
+ * Remove a self-hosted platform with its cache and index.
+ * Backups are kept; they are the user's archive.
+ */
+cpRemoveBtn.addEventListener('click', async () => {
+  const removed = editingCustomConfig
+  if (!removed) return
+
+  const configs = (await loadCustomPlatformConfigs()).filter(c => c.id !== removed.id)
+  await saveCustomPlatformConfigs(configs)
+
+  const name = getCustomPlatformName(removed.id)
+  const stored = await chrome.storage.local.get(null)
+  await chrome.storage.local.remove(Object.keys(stored).filter(key => key.startsWith(`${name}_`)))
+  await clearScope(getStorageScope(name, null))
+
+  // Give up host access unless another platform still uses the origin
+  const origin = getOriginPattern(removed.baseUrl)
+  if (!configs.some(c => getOriginPattern(c.baseUrl) === origin)) {
+    await chrome.permissions.remove({ origins: [origin] })
+  }
+
+  hideCustomPlatformDialog()
+  await loadPlatforms()
+  if (name === currentPlatform) {
+    switchPlatform(platforms[0].name)
+  } else {
+    reloadCurrentScope()
+  }
+})
+
 // ==================== Diagnostics Panel ====================
 
 async function getExtensionVersion(): Promise<string> {
@@ -1647,12 +3496,34 @@ async function fetchDiagnosticsLogs(): Promise<LogEntry[]> {
   })
 }
 
+async function fetchDriftReports(): Promise<SchemaDriftReport[]> {
+  return new Promise((resolve) => {
+    chrome.runtime.sendMessage({ type: 'GET_DRIFT_REPORTS' }, (response) => {
+      resolve(response?.reports || [])
+    })
+  })
+}
+
 async function clearDiagnosticsLogs(): Promise<void> {
   return new Promise((resolve) => {
     chrome.runtime.sendMessage({ type: 'CLEAR_LOGS' }, () => resolve())
   })
 }
 
+async function fetchStorageUsage(): Promise<StorageUsage | null> {
+  return new Promise((resolve) => {
+    chrome.runtime.sendMessage({ type: 'GET_STORAGE_USAGE' }, (response) => {
+      resolve(response?.usage || null)
+    })
+  })
+}
+
+async function purgeStorage(categories: StorageCategory[], platform?: PlatformType): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.runtime.sendMessage({ type: 'PURGE_STORAGE', categories, platform }, () => resolve())
+  })
+}
+
 function renderDiagnosticsPanel() {
   const platform = platforms.find(p => p.name === currentPlatform)
 
@@ -1669,12 +3540,16 @@ function renderDiagnosticsPanel() {
           </div>
           <div class="diag-info-item">
             <span class="diag-label">Platform</span>
-            <span class="diag-value">${platform?.displayName || currentPlatform}</span>
+            <span class="diag-value">${escapeHtml(platform?.displayName || currentPlatform)}</span>
           </div>
           <div class="diag-info-item">
             <span class="diag-label">Status</span>
             <span class="diag-value" id="diagStatus">Checking...</span>
           </div>
+          <div class="diag-info-item diag-info-item-wide">
+            <span class="diag-label">Last Sync</span>
+            <span class="diag-value" id="diagLastSync">-</span>
+          </div>
         </div>
       </div>
 
@@ -1687,6 +3562,24 @@ function renderDiagnosticsPanel() {
         <div id="diagResult" class="diag-result"></div>
       </div>
 
+      <div class="diag-section">
+        <div class="diag-title">
+          Storage
+          <span class="diag-log-count" id="storageTotal"></span>
+        </div>
+        <div id="diagStorage" class="diag-storage">
+          <div class="diag-logs-loading">Measuring...</div>
+        </div>
+      </div>
+
+      <div class="diag-section">
+        <div class="diag-title">
+          API Drift
+          <span class="diag-log-count" id="driftCount"></span>
+        </div>
+        <div id="diagDrift" class="diag-drift"></div>
+      </div>
+
       <div class="diag-section diag-logs-section">
         <div class="diag-title">
           Recent Logs
@@ -1727,11 +3620,208 @@ async function loadDiagnosticsData() {
     }
   }
 
+  // What the last sync changed
+  const metaKey = getCacheMetaKey(currentPlatform, currentOrgId)
+  const cache = (await chrome.storage.local.get(metaKey))[metaKey] as PlatformCacheMeta | undefined
+  const lastSyncEl = document.getElementById('diagLastSync')
+  const changes = cache?.lastChanges
+  if (lastSyncEl && changes) {
+    lastSyncEl.textContent = `${formatRelativeTime(changes.timestamp)} · ${changes.mode}, ` +
+      `+${changes.added.length} new, ${changes.updated.length} updated, ${changes.removed.length} removed ` +
+      `(${changes.requests} ${changes.requests === 1 ? 'request' : 'requests'})`
+  }
+
+  refreshStorageUsage()
+
   // Load logs
   await refreshDiagnosticsLogs()
 }
 
+const STORAGE_CATEGORY_LABELS: Record<StorageCategory, string> = {
+  cache: 'Cache',
+  index: 'Index',
+  previews: 'Previews',
+  backups: 'Backups',
+  logs: 'Logs'
+}
+
+// What a platform row's Purge clears; backups are purged from their column
+const PLATFORM_PURGE_CATEGORIES: StorageCategory[] = ['cache', 'index', 'previews']
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`
+}
+
+function renderQuota(label: string, quota: QuotaUsage | null): string {
+  if (!quota) return ''
+  const ratio = quota.usage / quota.quota
+  const warn = ratio > STORAGE_WARNING_RATIO
+  return `
+    <div class="storage-quota ${warn ? 'storage-quota-warn' : ''}">
+      <span class="diag-label">${label}</span>
+      <span class="storage-quota-value">
+        ${formatBytes(quota.usage)} of ${formatBytes(quota.quota)} (${Math.round(ratio * 100)}%)${warn ? ' · nearly full' : ''}
+      </span>
+      <div class="storage-quota-bar"><div style="width: ${Math.min(100, ratio * 100).toFixed(1)}%"></div></div>
+    </div>
+  `
+}
+
+/**
+ * Bytes per platform and category, with purge actions per row and column
+ */
+async function refreshStorageUsage() {
+  const usage = await fetchStorageUsage()
+  const storageEl = document.getElementById('diagStorage')
+  const totalEl = document.getElementById('storageTotal')
+  if (!storageEl) return
+
+  if (!usage) {
+    storageEl.innerHTML = '<div class="diag-logs-empty">Storage usage unavailable</div>'
+    return
+  }
+
+  const owners = Object.keys(usage.platforms).sort((a, b) => {
+    // Known platforms in tab order, then leftovers, then shared data
+    const rank = (name: string) => name === '' ? 2 : platforms.some(p => p.name === name) ? 0 : 1
+    return rank(a) - rank(b) || platforms.findIndex(p => p.name === a) - platforms.findIndex(p => p.name === b)
+  })
+  const categoryTotal = (category: StorageCategory) =>
+    owners.reduce((sum, owner) => sum + (usage.platforms[owner][category]?.bytes || 0), 0)
+  const total = STORAGE_CATEGORIES.reduce((sum, category) => sum + categoryTotal(category), 0) + usage.other
+
+  if (totalEl) totalEl.textContent = `(${formatBytes(total)})`
+
+  const rows = owners.map(owner => {
+    const categories = usage.platforms[owner]
+    const platform = platforms.find(p => p.name === owner)
+    const name = owner === '' ? 'Shared' : platform?.displayName || `${owner} (removed)`
+    const purgeable = owner !== '' && PLATFORM_PURGE_CATEGORIES.some(category => categories[category]?.bytes)
+    return `
+      <tr>
+        <td class="storage-owner">${escapeHtml(name)}</td>
+        ${STORAGE_CATEGORIES.map(category => {
+          const entry = categories[category]
+          return `<td title="${entry?.count ? `${entry.count} records` : ''}">${entry?.bytes ? formatBytes(entry.bytes) : '–'}</td>`
+        }).join('')}
+        <td>${purgeable ? `<button class="storage-purge-btn" data-purge-platform="${escapeHtml(owner)}">Purge</button>` : ''}</td>
+      </tr>
+    `
+  }).join('')
+
+  storageEl.innerHTML = `
+    ${renderQuota('IndexedDB', usage.quotas.indexedDb)}
+    ${renderQuota('Extension storage', usage.quotas.extensionStorage)}
+    <table class="storage-table">
+      <thead>
+        <tr>
+          <th></th>
+          ${STORAGE_CATEGORIES.map(category => `<th>${STORAGE_CATEGORY_LABELS[category]}</th>`).join('')}
+          <th></th>
+        </tr>
+      </thead>
+      <tbody>
+        ${rows || `<tr><td colspan="${STORAGE_CATEGORIES.length + 2}" class="diag-logs-empty">Nothing stored yet</td></tr>`}
+      </tbody>
+      <tfoot>
+        <tr>
+          <td class="storage-owner">Total</td>
+          ${STORAGE_CATEGORIES.map(category => `<td>${formatBytes(categoryTotal(category))}</td>`).join('')}
+          <td></td>
+        </tr>
+        <tr>
+          <td></td>
+          ${STORAGE_CATEGORIES.map(category => `
+            <td>${categoryTotal(category) > 0 ? `<button class="storage-purge-btn" data-purge-category="${category}">Purge</button>` : ''}</td>
+          `).join('')}
+          <td></td>
+        </tr>
+      </tfoot>
+    </table>
+    <div class="storage-note">Settings, tokens and jobs: ${formatBytes(usage.other)}. Expired previews, and the least recently read beyond ${PREVIEW_CACHE_MAX_ENTRIES}, are evicted when the extension starts.</div>
+  `
+
+  storageEl.querySelectorAll<HTMLButtonElement>('[data-purge-platform]').forEach(btn => {
+    btn.addEventListener('click', async () => {
+      const platform = btn.dataset.purgePlatform as PlatformType
+      const name = platforms.find(p => p.name === platform)?.displayName || platform
+      if (!confirm(`Clear the cache, index and previews of ${name}? Backups are kept; the next sync downloads the list again.`)) return
+      await runPurge(PLATFORM_PURGE_CATEGORIES, platform)
+    })
+  })
+
+  storageEl.querySelectorAll<HTMLButtonElement>('[data-purge-category]').forEach(btn => {
+    btn.addEventListener('click', async () => {
+      const category = btn.dataset.purgeCategory as StorageCategory
+      const label = STORAGE_CATEGORY_LABELS[category].toLowerCase()
+      const message = category === 'backups'
+        ? 'Delete all backups? They are the only copy of conversations deleted from the platforms.'
+        : `Clear ${label} for all platforms?`
+      if (!confirm(message)) return
+      await runPurge([category])
+    })
+  })
+}
+
+async function runPurge(categories: StorageCategory[], platform?: PlatformType) {
+  const storageEl = document.getElementById('diagStorage')
+  storageEl?.querySelectorAll<HTMLButtonElement>('.storage-purge-btn').forEach(btn => { btn.disabled = true })
+
+  await purgeStorage(categories, platform)
+  if (!platform || platform === currentPlatform || allPlatformsView) {
+    await loadCache()
+  }
+  await refreshStorageUsage()
+  if (categories.includes('logs')) await refreshDiagnosticsLogs()
+}
+
+/**
+ * Responses that failed schema validation: which fields, on which endpoint,
+ * with a redacted sample of the payload
+ */
+async function refreshDriftReports() {
+  const reports = await fetchDriftReports()
+  const driftEl = document.getElementById('diagDrift')
+  const countEl = document.getElementById('driftCount')
+
+  if (countEl) {
+    countEl.textContent = reports.length > 0 ? `(${reports.length})` : ''
+  }
+  if (!driftEl) return
+
+  if (reports.length === 0) {
+    driftEl.innerHTML = '<div class="diag-logs-empty">No response changes detected</div>'
+    return
+  }
+
+  driftEl.innerHTML = [...reports].reverse().map(report => {
+    const platform = platforms.find(p => p.name === report.platform)
+    return `
+      <div class="drift-report">
+        <div class="drift-header">
+          <span class="log-time">[${formatLogTime(report.timestamp)}]</span>
+          <span class="drift-platform">${escapeHtml(platform?.displayName || report.platform)}</span>
+          <span class="log-url">${escapeHtml(report.endpoint)}</span>
+        </div>
+        <ul class="drift-issues">
+          ${report.issues.map(issue => `
+            <li><code>${escapeHtml(issue.path)}</code> expected ${escapeHtml(issue.expected)}, got ${escapeHtml(issue.received)}</li>
+          `).join('')}
+        </ul>
+        <details class="drift-sample">
+          <summary>Sample payload (redacted)</summary>
+          <pre>${escapeHtml(JSON.stringify(report.sample, null, 2))}</pre>
+        </details>
+      </div>
+    `
+  }).join('')
+}
+
 async function refreshDiagnosticsLogs() {
+  refreshDriftReports()
   const logs = await fetchDiagnosticsLogs()
   const logsEl = document.getElementById('diagLogs')
   const countEl = document.getElementById('logCount')
@@ -1751,6 +3841,8 @@ async function refreshDiagnosticsLogs() {
           <span class="log-time">[${formatLogTime(log.timestamp)}]</span>
           <span class="log-level">[${log.level}]</span>
           <span class="log-action">${escapeHtml(log.action)}</span>
+          ${log.url ? `<span class="log-url">${escapeHtml(log.url)}</span>` : ''}
+          ${log.status ? `<span class="log-status">${log.status}</span>` : ''}
           ${log.message ? `<span class="log-message">- ${escapeHtml(log.message)}</span>` : ''}
           ${log.duration ? `<span class="log-duration">(${log.duration}ms)</span>` : ''}
         </div>
@@ -1804,9 +3896,9 @@ function attachDiagnosticsHandlers() {
   })
 
   copyLogsBtn?.addEventListener('click', async () => {
-    const logs = await fetchDiagnosticsLogs()
+    const [logs, schemaDrift] = await Promise.all([fetchDiagnosticsLogs(), fetchDriftReports()])
     const sanitized = sanitizeLogs(logs)
-    const json = JSON.stringify(sanitized, null, 2)
+    const json = JSON.stringify(schemaDrift.length > 0 ? { logs: sanitized, schemaDrift } : sanitized, null, 2)
 
     try {
       await navigator.clipboard.writeText(json)
@@ -0,0 +1,103 @@
+/**
+ * Chinese, Japanese and Korean text
+ * These scripts don't put spaces between words, so a run of their characters
+ * is indexed as overlapping character pairs (bigrams): 機械学習 -> 機械, 械学,
+ * 学習. A query run matches as the phrase of its bigrams, which finds the
+ * same characters anywhere without a dictionary. Width variants are unified
+ * (NFKC) and traditional Chinese and Japanese kanji forms fold to simplified
+ * ones, so 學習, 学習 and 学习 are the same terms.
+ */
+
+// Han, kana and Hangul, the prolonged sound mark and the voicing marks
+// (half-width and combining) that attach to kana
+export const CJK_CHARACTERS = '\\p{sc=Han}\\p{sc=Hiragana}\\p{sc=Katakana}\\p{sc=Hangul}\\u30fc\\uff70\\uff9e\\uff9f\\u3099\\u309a'
+
+export const CJK_PATTERN = new RegExp(`[${CJK_CHARACTERS}]`, 'u')
+
+const VOICING_MARK = /^[\uff9e\uff9f\u3099\u309a]$/
+
+// Traditional Chinese and Japanese shinjitai forms of common characters,
+// each followed by its simplified form
+const VARIANT_PAIRS = [
+  '個个們们來来時时為为爲为說说國国會会學学對对這这過过動动還还發发後后樣样經经點点現现開开關关問问題题間间實实長长見见機机',
+  '體体當当應应將将與与從从無无頭头種种麼么電电話话氣气車车東东門门書书寫写讀读語语認认識识據据數数處处號号則则義义線线設设',
+  '計计資资訊讯網网絡络頁页檔档錯错誤误請请謝谢給给讓让記记錄录價价變变區区帶带邊边極极專专業业務务產产術术統统標标準准確确',
+  '類类單单雙双係系聯联達达運运轉转輸输換换擇择選选項项復复複复雜杂難难歡欢樂乐夢梦愛爱親亲鐘钟錢钱銀银鐵铁島岛歲岁測测試试',
+  '驗验報报證证議议論论談谈課课練练習习圖图畫画筆笔詞词譯译編编輯辑構构組组織织結结紀纪約约級级終终總总絕绝續续維维護护權权',
+  '歷历曆历壓压傳传儲储備备憶忆優优勢势態态慣惯擊击擴扩斷断條条槍枪樹树橋桥殺杀決决況况減减溫温濟济滿满漢汉灣湾爭争狀状獨独',
+  '獲获環环畢毕異异盡尽監监眾众礎础離离稱称積积穩稳窮穷競竞節节範范簡简簽签糧粮緊紧縮缩罰罚聖圣聲声聽听職职腦脑臉脸舊旧藝艺',
+  '蘭兰蟲虫衛卫裝装裡里製制覺觉觀观規规視视訂订訪访許许評评詢询詳详誌志調调諾诺謀谋講讲讚赞豐丰負负責责貨货質质購购費费賽赛',
+  '贏赢趕赶趨趋跡迹躍跃軟软載载較较輕轻輪轮辦办農农連连週周進进遊游遠远適适遲迟遺遗郵邮鄉乡醫医釋释針针鈕钮鍵键鎖锁鏈链鏡镜',
+  '閉闭閒闲閱阅陣阵陽阳陰阴際际隊队階阶隨随險险隱隐隻只雖虽雞鸡靈灵靜静韓韩響响頂顶順顺預预領领頻频額额顏颜願愿顯显風风飛飞',
+  '飯饭飲饮館馆馬马驅驱髮发鬥斗魚鱼鳥鸟麥麦黃黄齊齐齒齿龍龙龜龟嗎吗沒没亞亚兒儿兩两內内冊册凍冻劃划劇剧劑剂勞劳勵励勝胜匯汇',
+  '彙汇協协卻却參参叢丛啟启喚唤嚴严團团圍围園园圓圆場场塊块壞坏壯壮夠够奪夺奮奋婦妇媽妈孫孙寧宁審审寶宝屬属層层屆届岡冈幣币',
+  '幫帮廣广廠厂庫库廳厅張张彈弹強强徵征憂忧懷怀戰战戲戏戶户拋抛掃扫揮挥損损搖摇擔担擁拥擬拟擾扰攝摄敵敌晝昼曉晓暫暂棄弃樓楼',
+  '歸归殘残殼壳沖冲淨净淺浅湧涌滅灭滾滚漲涨潔洁潛潜澤泽濃浓灑洒災灾煙烟熱热燈灯營营爐炉牆墙猶犹獎奖瑪玛療疗皺皱盤盘盧卢矯矫',
+  '碼码禮礼禍祸稅税穀谷築筑籃篮籤签糾纠紅红純纯紙纸紛纷細细綠绿緒绪緣缘縣县繩绳繪绘繼继繫系罷罢羅罗翹翘聞闻肅肃膠胶膽胆艱艰',
+  '莊庄葉叶蓋盖蔣蒋薦荐薩萨藍蓝藥药蘇苏蝦虾補补襯衬覽览託托訓训訴诉診诊註注詩诗該该誠诚誰谁誼谊諸诸謂谓譜谱豬猪貓猫貝贝財财',
+  '貢贡貧贫販贩貫贯貴贵貸贷貼贴賀贺賃赁賓宾賞赏賠赔賣卖賬账賴赖贈赠趙赵蹤踪軍军軌轨輔辅辭辞邏逻鄰邻醜丑釣钓鈔钞鉛铅銷销鋒锋',
+  '鋼钢錦锦鍋锅鍾钟鎮镇闆板闖闯隸隶雲云須须頌颂頒颁頓顿頸颈顧顾颱台臺台飄飘餅饼養养餘余驚惊鬆松鬧闹魯鲁鮮鲜鳳凤鴨鸭鵝鹅鹽盐',
+  '麗丽黨党齡龄麵面執执檢检燒烧淚泪惡恶驛驿銳锐舉举榮荣櫻樱瀨濑獸兽纖纤劍剑勸劝娛娱戀恋惱恼僞伪偽伪橫横獻献踐践縱纵臟脏騷骚',
+  '騎骑犧牺濕湿滯滞鷄鸡図图関关売卖読读気气変变転转経经続续総总発发験验県县帰归鉄铁戦战険险検检権权歴历駅驿営营実实択择沢泽',
+  '済济圧压労劳単单弾弹覚觉覧览観观駆驱広广価价亜亚悪恶楽乐薬药様样訳译辺边拡扩芸艺応应隠隐涙泪軽轻縁缘従从焼烧対对銭钱闘斗',
+  '児儿両两団团囲围圏圈塩盐処处拠据挙举摂摄暦历栄荣桜樱歩步毎每満满瀬濑獣兽緑绿縄绳繊纤聴听脳脑荘庄蔵藏衆众証证豊丰賛赞遅迟',
+  '郷乡酔醉釈释鉱矿録录隣邻雑杂霊灵頼赖顕显騒骚髪发黒黑黙默齢龄亀龟仏佛伝传剤剂剣剑勧劝収收奨奖娯娱専专帯带庁厅徳德徴征悩恼',
+  '懐怀戯戏捜搜揺摇撃击斉齐暁晓殻壳浄净渉涉渓溪犠牺砕碎稲稻穏稳窓窗竜龙粛肃絵绘継继縦纵臓脏譲让顔颜鶏鸡'
+].join('')
+
+const VARIANTS = new Map<string, string>()
+for (let i = 0; i < VARIANT_PAIRS.length; i += 2) {
+  VARIANTS.set(VARIANT_PAIRS[i], VARIANT_PAIRS[i + 1])
+}
+
+/**
+ * Replace traditional and kanji forms with their simplified ones
+ */
+export function foldVariants(text: string): string {
+  return text.replace(/[\u4e00-\u9fff]/g, char => VARIANTS.get(char) || char)
+}
+
+export interface CjkGram {
+  term: string
+  start: number       // Character range in the text
+  end: number
+}
+
+interface CjkUnit extends CjkGram {
+  raw: string
+}
+
+// Characters of a run, normalized; a kana and its voicing mark are one
+function toUnits(run: string, offset: number): CjkUnit[] {
+  const units: CjkUnit[] = []
+  let index = offset
+
+  for (const char of run) {
+    const last = units[units.length - 1]
+    if (last && VOICING_MARK.test(char)) {
+      last.raw += char
+      last.end += char.length
+    } else {
+      units.push({ raw: char, term: '', start: index, end: index + char.length })
+    }
+    index += char.length
+  }
+
+  for (const unit of units) unit.term = foldVariants(unit.raw.normalize('NFKC'))
+  return units
+}
+
+/**
+ * Bigrams of a run of CJK characters; a single character is its own term
+ * @param offset - where the run starts in the text
+ */
+export function cjkBigrams(run: string, offset: number): CjkGram[] {
+  const units = toUnits(run, offset)
+  if (units.length === 1) return [{ term: units[0].term, start: units[0].start, end: units[0].end }]
+
+  const grams: CjkGram[] = []
+  for (let i = 0; i + 1 < units.length; i++) {
+    grams.push({ term: units[i].term + units[i + 1].term, start: units[i].start, end: units[i + 1].end })
+  }
+  return grams
+}
@@ -0,0 +1,407 @@
+/**
+ * Full-text search over indexed conversations
+ * The background turns each conversation into per-term occurrences
+ * (buildDocument); the query parser (query.ts) turns words and phrases into
+ * clauses, and the popup fetches the postings of their terms and scores
+ * every conversation with BM25 over its content plus a boost for title
+ * matches. Every clause must match, in the title or the content. In fuzzy
+ * mode, words also match terms a few edits away (fuzzy.ts), for less.
+ */
+
+import type { TermOccurrences } from '../platforms/types'
+import { editDistance, fuzzyWeight, maxEdits, prefixDistance } from './fuzzy'
+import type { SimilarTerm } from './fuzzy'
+import { normalizeTerm, tokenize } from './tokenize'
+import type { Token } from './tokenize'
+
+// BM25 parameters: term frequency saturation and length normalization
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+
+// A clause matched in the title counts as this many content occurrences' idf
+const TITLE_WEIGHT = 2.5
+// Extra weight for matching a whole phrase, on top of its terms
+const PHRASE_BONUS = 1.5
+
+// Prefix clauses expand to at most this many index terms
+export const MAX_PREFIX_EXPANSIONS = 50
+
+// ==================== Indexing ====================
+
+export interface IndexedDocument {
+  length: number
+  terms: Record<string, TermOccurrences>
+}
+
+// Character range [start, end) of the text
+export type TextRange = [number, number]
+
+/**
+ * @param userRanges - where the user's messages are in the text, in order
+ */
+export function buildDocument(text: string, userRanges: TextRange[] = []): IndexedDocument {
+  const terms: Record<string, TermOccurrences> = {}
+  let length = 0
+  let range = 0
+
+  for (const token of tokenize(text)) {
+    if (!token.part) length++
+    if (token.stop) continue
+    const entry = terms[token.term] || (terms[token.term] = { tf: 0, pos: [] })
+    entry.tf++
+    while (range < userRanges.length && userRanges[range][1] <= token.start) range++
+    if (range < userRanges.length && userRanges[range][0] <= token.start) {
+      entry.user = (entry.user || 0) + 1
+    }
+    if (entry.pos[entry.pos.length - 1] !== token.position) entry.pos.push(token.position)
+  }
+
+  return { length, terms }
+}
+
+// ==================== Queries ====================
+
+export interface QueryClause {
+  kind: 'term' | 'prefix' | 'phrase'
+  terms: string[]       // Index terms; for 'prefix' the single prefix
+  offsets?: number[]    // 'phrase': word offset of each term from the first
+}
+
+// Term occurrences by term, then conversation id
+export type Postings = Record<string, Record<string, TermOccurrences>>
+
+/**
+ * Clause for the bigrams of one CJK run: their phrase, so the characters
+ * must be adjacent. A single character starts the bigrams it's in.
+ */
+function cjkRunClause(bigrams: Token[]): QueryClause {
+  if (bigrams.length > 1) {
+    return {
+      kind: 'phrase',
+      terms: bigrams.map(token => token.term),
+      offsets: bigrams.map(token => token.position - bigrams[0].position)
+    }
+  }
+  const { term } = bigrams[0]
+  return { kind: [...term].length === 1 ? 'prefix' : 'term', terms: [term] }
+}
+
+/**
+ * Clauses for the words of some query text; with allowPrefix, a last word
+ * running to the end of the text (still being typed) matches as a prefix
+ */
+export function textClauses(text: string, allowPrefix = false): QueryClause[] {
+  const clauses: QueryClause[] = []
+  const tokens = tokenize(text).filter(token => !token.part)
+  const last = tokens[tokens.length - 1]
+
+  const runs = new Set<number>()
+
+  for (const token of tokens) {
+    if (token.run !== undefined) {
+      if (!runs.has(token.run)) {
+        runs.add(token.run)
+        clauses.push(cjkRunClause(tokens.filter(t => t.run === token.run)))
+      }
+      continue
+    }
+    if (allowPrefix && token === last && token.end === text.length) {
+      const prefix = normalizeTerm(text.slice(token.start, token.end).normalize('NFKC').toLowerCase())
+      if (prefix.length >= 2) clauses.push({ kind: 'prefix', terms: [prefix] })
+      continue
+    }
+    if (!token.stop) clauses.push({ kind: 'term', terms: [token.term] })
+  }
+  return clauses
+}
+
+/**
+ * Clause for a quoted phrase; a single word is a plain term
+ */
+export function phraseClause(phrase: string): QueryClause | null {
+  const words = tokenize(phrase).filter(token => !token.part && !token.stop)
+  if (words.length === 0) return null
+  if (words.length === 1) return words[0].run !== undefined ? cjkRunClause(words) : { kind: 'term', terms: [words[0].term] }
+  return {
+    kind: 'phrase',
+    terms: words.map(token => token.term),
+    offsets: words.map(token => token.position - words[0].position)
+  }
+}
+
+// ==================== Scoring ====================
+
+export interface CorpusStats {
+  docCount: number
+  avgLength: number
+}
+
+export type MessageRole = 'user' | 'assistant'
+
+export interface SearchContext {
+  postings: Postings                  // Query terms and prefix expansions
+  expansions: Record<string, string[]> // Prefix -> index terms starting with it
+  fuzzy?: Record<string, SimilarTerm[]> // Fuzzy mode: word or prefix -> index terms a few edits away
+  stats: CorpusStats
+  role?: MessageRole                  // Count only content from this side; titles don't match
+}
+
+export interface DocumentMatch {
+  score: number
+  inContent: boolean                  // At least one clause matched only in the content
+  contentTerms: string[]              // Matched content terms, for highlighting
+  hits: number                        // Content occurrences of the clauses; a phrase counts its rarest word
+}
+
+type PositionLookup = (term: string) => number[] | undefined
+
+/**
+ * Occurrences in the messages of the context's role
+ */
+function roleTf(ctx: SearchContext, occurrences: TermOccurrences | undefined): number {
+  if (!occurrences) return 0
+  if (ctx.role === 'user') return occurrences.user || 0
+  if (ctx.role === 'assistant') return occurrences.tf - (occurrences.user || 0)
+  return occurrences.tf
+}
+
+function idf(ctx: SearchContext, term: string): number {
+  const df = Object.keys(ctx.postings[term] || {}).length
+  const n = Math.max(ctx.stats.docCount, df)
+  return Math.log(1 + (n - df + 0.5) / (df + 0.5))
+}
+
+function bm25(ctx: SearchContext, term: string, tf: number, length: number): number {
+  const avg = ctx.stats.avgLength || 1
+  return idf(ctx, term) * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * length / avg))
+}
+
+function matchesPhrase(clause: QueryClause, positions: PositionLookup): boolean {
+  const offsets = clause.offsets || []
+  const anchors = positions(clause.terms[0]) || []
+  // Common words in long conversations have thousands of positions
+  const sets = clause.terms.map(term => new Set(positions(term)))
+  return anchors.some(anchor => sets.every((set, i) => set.has(anchor + offsets[i])))
+}
+
+// Title words as occurrences, so titles go through the same clause checks
+export function analyzeTitle(title: string): Map<string, number[]> {
+  const positions = new Map<string, number[]>()
+  for (const token of tokenize(title)) {
+    if (token.stop) continue
+    const list = positions.get(token.term) || []
+    list.push(token.position)
+    positions.set(token.term, list)
+  }
+  return positions
+}
+
+/**
+ * Whether a clause matches a title analyzed by analyzeTitle
+ */
+export function matchesTitle(clause: QueryClause, titleTerms: Map<string, number[]>): boolean {
+  if (clause.kind === 'phrase') return matchesPhrase(clause, term => titleTerms.get(term))
+  if (clause.kind === 'prefix') return [...titleTerms.keys()].some(term => term.startsWith(clause.terms[0]))
+  return titleTerms.has(clause.terms[0])
+}
+
+/**
+ * Weight of the title word closest to a fuzzy clause's word, 0 for none
+ */
+function fuzzyTitleWeight(clause: QueryClause, titleTerms: Map<string, number[]>): number {
+  const word = clause.terms[0]
+  const max = maxEdits(word)
+  let best = max + 1
+  for (const term of titleTerms.keys()) {
+    best = Math.min(best, clause.kind === 'prefix' ? prefixDistance(word, term, max) : editDistance(word, term, max))
+  }
+  return best <= max ? fuzzyWeight(word, best) : 0
+}
+
+/**
+ * Score one conversation, or null when some clause matches neither its
+ * title nor its indexed content
+ * @param length - indexed words of the conversation; 0 when not indexed
+ */
+export function matchDocument(
+  ctx: SearchContext,
+  clauses: QueryClause[],
+  id: string,
+  title: string,
+  length: number
+): DocumentMatch | null {
+  const titleTerms = analyzeTitle(title)
+  // Positions aren't split by role; a phrase needs each word on the role's side
+  const contentPositions: PositionLookup = term => {
+    const occurrences = ctx.postings[term]?.[id]
+    return roleTf(ctx, occurrences) > 0 ? occurrences!.pos : undefined
+  }
+
+  let score = 0
+  let inContent = false
+  const contentTerms: string[] = []
+  let hits = 0
+
+  for (const clause of clauses) {
+    const candidates = clause.kind === 'prefix' ? ctx.expansions[clause.terms[0]] || [] : clause.terms
+    // Only the query's own words have fuzzy expansions, not excluded ones
+    const similar = clause.kind === 'phrase' ? undefined : ctx.fuzzy?.[clause.terms[0]]
+
+    // Content
+    let contentScore = 0
+    if (clause.kind === 'phrase') {
+      if (matchesPhrase(clause, contentPositions)) {
+        for (const term of candidates) contentScore += bm25(ctx, term, roleTf(ctx, ctx.postings[term][id]), length)
+        contentScore *= PHRASE_BONUS
+        contentTerms.push(...candidates)
+        hits += Math.min(...candidates.map(term => roleTf(ctx, ctx.postings[term][id])))
+      }
+    } else {
+      // A prefix counts its best expansion, a term itself
+      for (const term of candidates) {
+        const tf = roleTf(ctx, ctx.postings[term]?.[id])
+        if (!tf) continue
+        contentScore = Math.max(contentScore, bm25(ctx, term, tf, length))
+        contentTerms.push(term)
+        hits += tf
+      }
+      for (const { term, distance } of similar || []) {
+        const tf = roleTf(ctx, ctx.postings[term]?.[id])
+        if (!tf) continue
+        contentScore = Math.max(contentScore, bm25(ctx, term, tf, length) * fuzzyWeight(clause.terms[0], distance))
+        contentTerms.push(term)
+        hits += tf
+      }
+    }
+
+    // Title
+    let titleWeight = 0
+    if (!ctx.role) {
+      if (matchesTitle(clause, titleTerms)) {
+        titleWeight = 1
+      } else if (similar) {
+        titleWeight = fuzzyTitleWeight(clause, titleTerms)
+      }
+    }
+    const titleScore = titleWeight
+      ? TITLE_WEIGHT * Math.max(1, ...candidates.map(term => idf(ctx, term))) * titleWeight
+      : 0
+
+    if (!contentScore && !titleScore) return null
+    if (!titleScore) inContent = true
+    score += contentScore + titleScore
+  }
+
+  return { score, inContent, contentTerms, hits }
+}
+
+// ==================== Snippets ====================
+
+const SNIPPET_RADIUS = 60       // Characters of context around a match
+const BOUNDARY_SLACK = 20       // How much further a passage may reach for a word boundary
+const MAX_SNIPPETS = 3
+
+// Passage edges: spaces, and CJK punctuation where there are no spaces
+const BOUNDARY = /[\s。、，．！？；：「」『』（）]/
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// Move an index off the second half of a surrogate pair
+function snapToCodePoint(text: string, index: number): number {
+  const code = text.charCodeAt(index)
+  return code >= 0xdc00 && code <= 0xdfff ? index + 1 : index
+}
+
+/**
+ * Where a passage ending at index starts: after a boundary near the radius,
+ * or right at the radius in text without one nearby (CJK)
+ */
+function passageStart(text: string, index: number): number {
+  const target = index - SNIPPET_RADIUS
+  if (target <= 0) return 0
+  for (let i = target; i > Math.max(0, target - BOUNDARY_SLACK); i--) {
+    if (BOUNDARY.test(text[i - 1])) return i
+  }
+  return snapToCodePoint(text, target)
+}
+
+function passageEnd(text: string, index: number): number {
+  const target = index + SNIPPET_RADIUS
+  if (target >= text.length) return text.length
+  for (let i = target; i < Math.min(text.length, target + BOUNDARY_SLACK); i++) {
+    if (BOUNDARY.test(text[i])) return i
+  }
+  return snapToCodePoint(text, target)
+}
+
+/**
+ * Where the terms occur in some text, overlapping occurrences merged
+ */
+export function matchRanges(text: string, terms: string[]): TextRange[] {
+  const wanted = new Set(terms)
+  const ranges: TextRange[] = []
+  for (const token of tokenize(text)) {
+    if (token.stop || !wanted.has(token.term)) continue
+    const last = ranges[ranges.length - 1]
+    if (last && token.start <= last[1]) {
+      last[1] = Math.max(last[1], token.end)
+    } else {
+      ranges.push([token.start, token.end])
+    }
+  }
+  return ranges
+}
+
+/**
+ * Up to MAX_SNIPPETS passages around the matched terms, as HTML with the
+ * matches in <mark>. Passages with more distinct terms come first.
+ */
+export function buildSnippets(text: string, terms: string[]): string {
+  const wanted = new Set(terms)
+  const hits = tokenize(text).filter(token => !token.stop && wanted.has(token.term))
+  if (hits.length === 0) return ''
+
+  // Group hits that are close enough to share a passage. Overlapping hits
+  // (identifier parts, CJK bigrams sharing a character) merge into one mark.
+  const groups: { start: number; end: number; terms: Set<string>; marks: TextRange[] }[] = []
+  for (const hit of hits) {
+    const group = groups[groups.length - 1]
+    if (group && hit.start - group.end <= SNIPPET_RADIUS) {
+      group.end = Math.max(group.end, hit.end)
+      group.terms.add(hit.term)
+      const mark = group.marks[group.marks.length - 1]
+      if (hit.start <= mark[1]) {
+        mark[1] = Math.max(mark[1], hit.end)
+      } else {
+        group.marks.push([hit.start, hit.end])
+      }
+    } else {
+      groups.push({ start: hit.start, end: hit.end, terms: new Set([hit.term]), marks: [[hit.start, hit.end]] })
+    }
+  }
+
+  const chosen = [...groups]
+    .sort((a, b) => b.terms.size - a.terms.size || b.marks.length - a.marks.length)
+    .slice(0, MAX_SNIPPETS)
+    .sort((a, b) => a.start - b.start)
+
+  return chosen.map(group => {
+    const from = passageStart(text, group.start)
+    const to = passageEnd(text, group.end)
+
+    let html = from > 0 ? '…' : ''
+    let cursor = from
+    for (const [start, end] of group.marks) {
+      html += escapeHtml(text.slice(cursor, start)) + `<mark>${escapeHtml(text.slice(start, end))}</mark>`
+      cursor = end
+    }
+    html += escapeHtml(text.slice(cursor, to)) + (to < text.length ? '…' : '')
+    return html
+  }).join(' ')
+}
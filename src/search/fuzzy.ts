@@ -0,0 +1,128 @@
+/**
+ * Typo tolerance
+ * A query word can match index terms a few edits away (a letter inserted,
+ * dropped, changed, or two neighbours swapped); such matches score less the
+ * more edits they took, relative to the word's length. The same lookup over
+ * the index vocabulary backs "Did you mean" corrections.
+ */
+
+import { CJK_PATTERN } from './cjk'
+import { tokenize } from './tokenize'
+
+// Closest index terms a query word expands to
+export const MAX_FUZZY_EXPANSIONS = 10
+
+export interface SimilarTerm {
+  term: string
+  distance: number      // Edits from the query word
+}
+
+/**
+ * Edits a word may be off by: none below five characters, where one edit
+ * lands on another common word (test, text, best), one up to eight, then
+ * two. CJK bigrams and numbers match exactly.
+ */
+export function maxEdits(word: string): number {
+  if (word.length < 5 || CJK_PATTERN.test(word) || /^\p{N}+$/u.test(word)) return 0
+  return word.length < 9 ? 1 : 2
+}
+
+// Rows of the alignment table, reused across calls: lookups run over the
+// whole vocabulary on every keystroke
+let rows = [new Int32Array(0), new Int32Array(0), new Int32Array(0)]
+
+// Last row of the optimal string alignment table of a against the first n
+// units of b: the distance from a to each prefix of b. Null once it must
+// all exceed max. Works on UTF-16 units; terms are nearly all in the BMP.
+function alignmentRow(a: string, b: string, n: number, max: number): Int32Array | null {
+  if (rows[0].length <= n) rows = rows.map(() => new Int32Array(n + 1))
+  let [before, previous, row] = rows
+  for (let j = 0; j <= n; j++) previous[j] = j
+
+  for (let i = 1; i <= a.length; i++) {
+    row[0] = i
+    let rowMin = i
+    for (let j = 1; j <= n; j++) {
+      let d = Math.min(previous[j] + 1, row[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d = Math.min(d, before[j - 2] + 1)
+      }
+      row[j] = d
+      rowMin = Math.min(rowMin, d)
+    }
+    // Distances only grow along an alignment, and each crosses every row
+    if (rowMin > max) return null
+    ;[before, previous, row] = [previous, row, before]
+  }
+  return previous
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent swaps), or
+ * max + 1 when it exceeds max
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+  const row = alignmentRow(a, b, b.length, max)
+  return row ? Math.min(row[b.length], max + 1) : max + 1
+}
+
+/**
+ * Distance from a word still being typed to the closest start of a term,
+ * or max + 1 when it exceeds max
+ */
+export function prefixDistance(prefix: string, term: string, max: number): number {
+  const n = Math.min(term.length, prefix.length + max)
+  if (n < prefix.length - max) return max + 1
+  const row = alignmentRow(prefix, term, n, max)
+  if (!row) return max + 1
+  let best = max + 1
+  for (let j = Math.max(0, prefix.length - max); j <= n; j++) best = Math.min(best, row[j])
+  return best
+}
+
+/**
+ * Share of a match's score kept when the term is some edits off the query
+ * word; an edit in a short word costs more than in a long one
+ */
+export function fuzzyWeight(word: string, distance: number): number {
+  if (distance === 0) return 1
+  return (1 - distance / word.length) ** 2
+}
+
+/**
+ * Index terms within maxEdits of a word, closest first, leaving out those
+ * it matches exactly
+ * @param prefix - the word is still being typed: compare it with the start
+ *   of each term
+ */
+export function findSimilarTerms(
+  word: string,
+  vocabulary: Iterable<string>,
+  prefix = false,
+  limit = MAX_FUZZY_EXPANSIONS
+): SimilarTerm[] {
+  const max = maxEdits(word)
+  if (max === 0) return []
+
+  const similar: SimilarTerm[] = []
+  for (const term of vocabulary) {
+    if (prefix) {
+      if (term.startsWith(word) || term.length < word.length - max) continue
+    } else if (term === word || Math.abs(term.length - word.length) > max) {
+      continue
+    }
+    const distance = prefix ? prefixDistance(word, term, max) : editDistance(word, term, max)
+    if (distance <= max) similar.push({ term, distance })
+  }
+  return similar.sort((a, b) => a.distance - b.distance).slice(0, limit)
+}
+
+/**
+ * How a term is written in some text, e.g. "deploying" for deploy; null
+ * when it only occurs inside identifiers
+ */
+export function findSurfaceForm(text: string, term: string): string | null {
+  const token = tokenize(text).find(t => !t.part && t.term === term)
+  return token ? text.slice(token.start, token.end).normalize('NFKC').toLowerCase() : null
+}
@@ -0,0 +1,369 @@
+import { describe, expect, it } from 'vitest'
+import type { UnifiedConversation } from '../platforms/types'
+import { buildDocument, textClauses } from './engine'
+import type { Postings, TextRange } from './engine'
+import {
+  FILTER_KEYS,
+  getFuzzyWords,
+  getQueryPrefixes,
+  getQueryTerms,
+  getSuggestions,
+  parseDateValue,
+  parseSearchQuery,
+  rewriteQuery,
+  runQuery
+} from './query'
+import type { QueryIndex, SearchDocument } from './query'
+
+// Wednesday 2026-07-15, noon local time
+const NOW = new Date(2026, 6, 15, 12).getTime()
+const DAY = 24 * 60 * 60 * 1000
+
+interface Fixture {
+  id: string
+  title: string
+  text: string
+  userRanges?: TextRange[]
+  updateTime?: number
+  isStarred?: boolean
+  platform?: string
+  models?: string[]
+  hasCode?: boolean
+  hasBackup?: boolean
+}
+
+const FIXTURES: Fixture[] = [
+  {
+    id: 'deploy',
+    title: 'Deploy pipeline',
+    // The prompt is the first sentence
+    text: 'How do I roll back a failed deploy? Rolling back needs the previous image tag.',
+    userRanges: [[0, 35]],
+    updateTime: NOW - 2 * DAY,
+    isStarred: true,
+    models: ['gpt-4o'],
+    hasCode: true
+  },
+  {
+    id: 'recipes',
+    title: 'Weeknight recipes',
+    text: 'A quick pasta with garlic and lemon. Back to basics: roll the dough thin.',
+    updateTime: new Date(2025, 11, 31).getTime(),
+    platform: 'claude',
+    models: ['claude-3-5-sonnet'],
+    hasBackup: true
+  },
+  {
+    id: 'kubernetes',
+    title: 'Cluster upgrade notes',
+    text: 'Upgrading the cluster: drain nodes, deploy the new version, then roll forward.',
+    updateTime: NOW - 100 * DAY,
+    models: ['gpt-4o-mini']
+  }
+]
+
+const PLATFORM_NAMES: Record<string, string> = { chatgpt: 'ChatGPT', claude: 'Claude' }
+
+function searchDocuments(): { documents: SearchDocument[]; index: QueryIndex } {
+  const postings: Postings = {}
+  const documents = FIXTURES.map(fixture => {
+    const { length, terms } = buildDocument(fixture.text, fixture.userRanges)
+    for (const [term, occurrences] of Object.entries(terms)) {
+      postings[term] = { ...postings[term], [fixture.id]: occurrences }
+    }
+    const platform = fixture.platform || 'chatgpt'
+    const conv: UnifiedConversation = {
+      id: fixture.id,
+      title: fixture.title,
+      createTime: fixture.updateTime || NOW,
+      updateTime: fixture.updateTime || NOW,
+      platform: platform as UnifiedConversation['platform'],
+      isStarred: fixture.isStarred
+    }
+    return {
+      conv,
+      platform,
+      platformName: PLATFORM_NAMES[platform],
+      models: fixture.models || [],
+      length,
+      hasCode: !!fixture.hasCode,
+      hasBackup: !!fixture.hasBackup
+    }
+  })
+
+  const terms = Object.keys(postings)
+  const expansions = (prefix: string) => terms.filter(term => term.startsWith(prefix))
+  const avgLength = documents.reduce((sum, doc) => sum + doc.length, 0) / documents.length
+  return {
+    documents,
+    index: {
+      postings,
+      expansions: new Proxy({} as Record<string, string[]>, { get: (_, prefix) => expansions(String(prefix)) }),
+      stats: { docCount: documents.length, avgLength }
+    }
+  }
+}
+
+// Ids of the conversations a query matches
+function search(input: string): string[] {
+  const { documents, index } = searchDocuments()
+  return runQuery(parseSearchQuery(input, NOW), documents, index).map(match => match.conv.id).sort()
+}
+
+describe('parseSearchQuery', () => {
+  it('turns free words into term clauses, dropping stopwords', () => {
+    const query = parseSearchQuery('the failed deploy ', NOW)
+    expect(query.clauses).toEqual(textClauses('failed deploy'))
+    expect(query.clauses.map(clause => clause.kind)).toEqual(['term', 'term'])
+    expect(query.text).toBe('the failed deploy')
+    expect(query.errors).toEqual([])
+  })
+
+  it('matches a last word still being typed as a prefix', () => {
+    expect(parseSearchQuery('failed depl', NOW).clauses[1]).toEqual({ kind: 'prefix', terms: ['depl'] })
+    expect(parseSearchQuery('failed depl ', NOW).clauses[1].kind).toBe('term')
+  })
+
+  it('parses quoted phrases with word offsets, even unterminated', () => {
+    const [phrase] = parseSearchQuery('"roll back"', NOW).clauses
+    expect(phrase).toMatchObject({ kind: 'phrase', offsets: [0, 1] })
+    expect(parseSearchQuery('"roll back', NOW).clauses).toEqual([phrase])
+    // Stopwords keep their place in the offsets
+    expect(parseSearchQuery('"roll the dough"', NOW).clauses[0].offsets).toEqual([0, 2])
+  })
+
+  it('treats a quoted single word as a term and an empty quote as nothing', () => {
+    expect(parseSearchQuery('"deploy"', NOW).clauses).toEqual(textClauses('deploy'))
+    expect(parseSearchQuery('""', NOW).clauses).toEqual([])
+  })
+
+  it('collects -word and -"phrase" as exclusions, not text', () => {
+    const query = parseSearchQuery('deploy -pasta -"roll forward"', NOW)
+    expect(query.clauses).toEqual(textClauses('deploy'))
+    expect(query.excluded).toEqual([...textClauses('pasta'), parseSearchQuery('"roll forward"').clauses[0]])
+    expect(query.text).toBe('deploy')
+  })
+
+  it('does not repeat a clause written twice', () => {
+    expect(parseSearchQuery('deploy deploy ', NOW).clauses).toHaveLength(1)
+  })
+
+  it('keeps unknown keys as text', () => {
+    const query = parseSearchQuery('note:today http://example.com', NOW)
+    expect(query.filters).toEqual([])
+    expect(query.text).toBe('note:today http://example.com')
+  })
+
+  it('ignores a key without a value', () => {
+    const query = parseSearchQuery('model: deploy', NOW)
+    expect(query.filters).toEqual([])
+    expect(query.errors).toEqual([])
+  })
+
+  it('sets the role side, flipped when negated', () => {
+    expect(parseSearchQuery('role:user', NOW).role).toBe('user')
+    expect(parseSearchQuery('ROLE:Assistant', NOW).role).toBe('assistant')
+    expect(parseSearchQuery('-role:user', NOW).role).toBe('assistant')
+  })
+
+  it('notes that has:backup needs the backed-up conversations', () => {
+    expect(parseSearchQuery('has:backup', NOW).usesBackups).toBe(true)
+    expect(parseSearchQuery('has:code', NOW).usesBackups).toBe(false)
+  })
+
+  it.each([
+    ['role:admin', 'Unknown value: role:admin'],
+    ['starred:maybe', 'Unknown value: starred:maybe'],
+    ['has:images', 'Unknown value: has:images'],
+    ['before:yesterday', 'Not a date: before:yesterday'],
+    ['after:2026-13', 'Not a date: after:2026-13'],
+    ['before:2026-02-31', 'Not a date: before:2026-02-31'],
+    ['after:30x', 'Not a date: after:30x']
+  ])('reports %s and ignores it', (input, error) => {
+    const query = parseSearchQuery(input, NOW)
+    expect(query.errors).toEqual([error])
+    expect(query.filters).toEqual([])
+    expect(query.role).toBeUndefined()
+  })
+})
+
+describe('parseDateValue', () => {
+  it('starts a year, month or day at local midnight', () => {
+    expect(parseDateValue('2026')).toBe(new Date(2026, 0, 1).getTime())
+    expect(parseDateValue('2026-07')).toBe(new Date(2026, 6, 1).getTime())
+    expect(parseDateValue('2026-7-5')).toBe(new Date(2026, 6, 5).getTime())
+    expect(parseDateValue('2024-02-29')).toBe(new Date(2024, 1, 29).getTime())
+  })
+
+  it('rejects days that do not exist instead of rolling over', () => {
+    expect(parseDateValue('2026-02-31')).toBeNull()
+    expect(parseDateValue('2025-02-29')).toBeNull()
+    expect(parseDateValue('2026-04-31')).toBeNull()
+    expect(parseDateValue('2026-00-10')).toBeNull()
+    expect(parseDateValue('2026-12-32')).toBeNull()
+    expect(parseDateValue('0099-01-01')).toBeNull()
+  })
+
+  it('counts ages back from the start of today', () => {
+    expect(parseDateValue('0d', NOW)).toBe(new Date(2026, 6, 15).getTime())
+    expect(parseDateValue('30d', NOW)).toBe(new Date(2026, 5, 15).getTime())
+    expect(parseDateValue('2w', NOW)).toBe(new Date(2026, 6, 1).getTime())
+    expect(parseDateValue('6m', NOW)).toBe(new Date(2026, 0, 15).getTime())
+    expect(parseDateValue('1y', NOW)).toBe(new Date(2025, 6, 15).getTime())
+  })
+
+  it('rejects anything else', () => {
+    expect(parseDateValue('d30', NOW)).toBeNull()
+    expect(parseDateValue('26-07-15', NOW)).toBeNull()
+    expect(parseDateValue('2026/07/15', NOW)).toBeNull()
+  })
+})
+
+describe('query terms', () => {
+  it('lists exact terms, prefixes and fuzzy words separately', () => {
+    const query = parseSearchQuery('"roll back" upgrading -pasta clust', NOW)
+    expect(getQueryTerms(query).sort()).toEqual([
+      ...parseSearchQuery('"roll back"').clauses[0].terms,
+      ...textClauses('upgrading pasta').flatMap(clause => clause.terms)
+    ].sort())
+    expect(getQueryPrefixes(query)).toEqual(['clust'])
+    // Phrases and exclusions stay exact; short words too
+    expect(getFuzzyWords(query)).toEqual([
+      { word: textClauses('upgrading')[0].terms[0], prefix: false },
+      { word: 'clust', prefix: true }
+    ])
+  })
+})
+
+describe('runQuery', () => {
+  it('requires every word, in the title or the content', () => {
+    expect(search('roll')).toEqual(['deploy', 'kubernetes', 'recipes'])
+    expect(search('roll garlic')).toEqual(['recipes'])
+    expect(search('pipeline image')).toEqual(['deploy'])
+    expect(search('roll nothingmatches')).toEqual([])
+  })
+
+  it('matches a phrase only where its words are adjacent', () => {
+    expect(search('"roll back"')).toEqual(['deploy'])
+    expect(search('"back roll"')).toEqual([])
+    expect(search('"roll forward"')).toEqual(['kubernetes'])
+  })
+
+  it('matches a phrase past the first occurrences of a common word', () => {
+    const text = `${'the build failed again. '.repeat(100)}The build passed.`
+    const { length, terms } = buildDocument(text)
+    const postings: Postings = Object.fromEntries(Object.entries(terms).map(([term, occurrences]) => [term, { ci: occurrences }]))
+    const conv = { id: 'ci', title: 'CI', createTime: NOW, updateTime: NOW, platform: 'chatgpt' as const }
+    const document = { conv, platform: 'chatgpt', platformName: 'ChatGPT', models: [], length, hasCode: false, hasBackup: false }
+    const index = { postings, expansions: {}, stats: { docCount: 1, avgLength: length } }
+    expect(runQuery(parseSearchQuery('"build passed"', NOW), [document], index)).toHaveLength(1)
+  })
+
+  it('expands a word being typed', () => {
+    expect(search('drai')).toEqual(['kubernetes'])
+    expect(search('drai ')).toEqual([])
+  })
+
+  it('drops conversations matching an exclusion', () => {
+    expect(search('roll -pasta')).toEqual(['deploy', 'kubernetes'])
+    expect(search('roll -"roll forward"')).toEqual(['deploy', 'recipes'])
+    expect(search('-deploy')).toEqual(['recipes'])
+  })
+
+  it('filters by title words and title phrases', () => {
+    expect(search('title:deploy')).toEqual(['deploy'])
+    expect(search('title:"upgrade notes"')).toEqual(['kubernetes'])
+    expect(search('title:"notes upgrade"')).toEqual([])
+    expect(search('-title:deploy')).toEqual(['kubernetes', 'recipes'])
+  })
+
+  it('matches only the chosen side of the conversation with role:', () => {
+    expect(search('image role:user')).toEqual([])
+    expect(search('image role:assistant')).toEqual(['deploy'])
+    expect(search('failed role:user')).toEqual(['deploy'])
+    expect(search('failed -role:user')).toEqual([])
+  })
+
+  it('filters by update time', () => {
+    expect(search('before:2026')).toEqual(['recipes'])
+    expect(search('after:2026-01-01')).toEqual(['deploy', 'kubernetes'])
+    expect(search('after:7d')).toEqual(['deploy'])
+    expect(search('before:90d')).toEqual(['kubernetes', 'recipes'])
+    expect(search('-before:90d')).toEqual(['deploy'])
+  })
+
+  it('filters by star, model, platform and content', () => {
+    expect(search('starred:true')).toEqual(['deploy'])
+    expect(search('starred:no')).toEqual(['kubernetes', 'recipes'])
+    expect(search('model:gpt-4o')).toEqual(['deploy', 'kubernetes'])
+    expect(search('model:SONNET')).toEqual(['recipes'])
+    expect(search('-model:mini')).toEqual(['deploy', 'recipes'])
+    expect(search('platform:claude')).toEqual(['recipes'])
+    expect(search('platform:ChatGPT')).toEqual(['deploy', 'kubernetes'])
+    expect(search('has:code')).toEqual(['deploy'])
+    expect(search('-has:code')).toEqual(['kubernetes', 'recipes'])
+    expect(search('has:backup')).toEqual(['recipes'])
+  })
+
+  it('combines filters with text', () => {
+    expect(search('roll model:gpt after:30d')).toEqual(['deploy'])
+    expect(search('roll platform:chatgpt -has:code')).toEqual(['kubernetes'])
+  })
+
+  it('ignores filters with bad values instead of matching nothing', () => {
+    expect(search('pasta before:2026-02-31')).toEqual(['recipes'])
+    expect(search('pasta starred:maybe')).toEqual(['recipes'])
+  })
+
+  it('falls back to substrings of titles and models', () => {
+    expect(search('4o-mi')).toEqual(['kubernetes'])
+    expect(search('peline')).toEqual(['deploy'])
+  })
+
+  it('counts content hits, a phrase by its rarest word', () => {
+    const { documents, index } = searchDocuments()
+    const [deploy] = runQuery(parseSearchQuery('"roll back"', NOW), documents, index)
+    expect(deploy.hits).toBe(2)
+    const [recipes] = runQuery(parseSearchQuery('garlic lemon', NOW), documents.slice(1, 2), index)
+    expect(recipes.hits).toBe(2)
+  })
+})
+
+describe('rewriteQuery', () => {
+  it('swaps words by their index term and keeps the rest as typed', () => {
+    const [term] = textClauses('deploymnet')[0].terms
+    expect(rewriteQuery('-has:code Deploymnet  "roll"', new Map([[term, 'deployment']])))
+      .toBe('-has:code deployment  "roll"')
+  })
+})
+
+describe('getSuggestions', () => {
+  it('completes filter keys, keeping a minus', () => {
+    expect(getSuggestions('be').map(s => s.text)).toEqual(['before:'])
+    expect(getSuggestions('-st').map(s => s.text)).toEqual(['-starred:'])
+    expect(getSuggestions('r')[0]).toEqual({ text: 'role:', label: 'role:', description: FILTER_KEYS.find(info => info.key === 'role')!.description })
+  })
+
+  it('completes fixed values, leaving out one typed in full', () => {
+    expect(getSuggestions('has:').map(s => s.text)).toEqual(['has:code ', 'has:backup '])
+    expect(getSuggestions('has:C').map(s => s.text)).toEqual(['has:code '])
+    expect(getSuggestions('has:code')).toEqual([])
+    expect(getSuggestions('-role:a').map(s => s.text)).toEqual(['-role:assistant '])
+  })
+
+  it('completes known values, quoting ones with spaces', () => {
+    const values = { model: ['gpt-4o', 'gpt-4o-mini', 'claude 3 opus'], platform: ['chatgpt', 'claude'] }
+    expect(getSuggestions('model:gpt', values).map(s => s.text)).toEqual(['model:gpt-4o ', 'model:gpt-4o-mini '])
+    expect(getSuggestions('model:"cla', values).map(s => s.text)).toEqual(['model:"claude 3 opus" '])
+    expect(getSuggestions('platform:', values).map(s => s.label)).toEqual(['platform:chatgpt', 'platform:claude'])
+    expect(getSuggestions('model:gpt')).toEqual([])
+  })
+
+  it('offers nothing for plain words or unknown keys', () => {
+    expect(getSuggestions('')).toEqual([])
+    expect(getSuggestions('-')).toEqual([])
+    expect(getSuggestions('deploy')).toEqual([])
+    expect(getSuggestions('note:')).toEqual([])
+    expect(getSuggestions('http://x')).toEqual([])
+  })
+})
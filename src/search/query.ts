@@ -0,0 +1,347 @@
+/**
+ * Search query language
+ * Free words and "quoted phrases" match titles and message text through the
+ * full-text index; -word and -"phrase" exclude. key:value filters narrow by
+ * metadata and can be negated too (-has:backup):
+ *
+ *   title:deploy  role:user  before:2026-01-01  after:90d  starred:true
+ *   model:gpt-4o  platform:claude  has:code  has:backup
+ *
+ * Unknown keys stay plain text, so "http://..." or "note:" search as typed.
+ */
+
+import type { UnifiedConversation } from '../platforms/types'
+import { analyzeTitle, matchDocument, matchesTitle, phraseClause, textClauses } from './engine'
+import type { CorpusStats, DocumentMatch, MessageRole, Postings, QueryClause, SearchContext } from './engine'
+import { maxEdits } from './fuzzy'
+import type { SimilarTerm } from './fuzzy'
+import { foldText, tokenize } from './tokenize'
+
+export type FilterKey = 'title' | 'role' | 'before' | 'after' | 'starred' | 'model' | 'platform' | 'has'
+
+export interface FilterKeyInfo {
+  key: FilterKey
+  description: string
+  values?: string[]             // Fixed values, or examples, offered as completions
+}
+
+export const FILTER_KEYS: FilterKeyInfo[] = [
+  { key: 'title', description: 'Words in the title' },
+  { key: 'role', description: 'Words in your prompts or in the replies', values: ['user', 'assistant'] },
+  { key: 'before', description: 'Updated before a date (2026-01-01) or age (30d, 6m)', values: ['7d', '30d', '90d', '1y'] },
+  { key: 'after', description: 'Updated on or after a date (2026-01) or age (2w)', values: ['7d', '30d', '90d', '1y'] },
+  { key: 'starred', description: 'Starred or not', values: ['true', 'false'] },
+  { key: 'model', description: 'Model name contains' },
+  { key: 'platform', description: 'Platform name' },
+  { key: 'has', description: 'Code blocks or a local backup', values: ['code', 'backup'] }
+]
+
+const MAX_SUGGESTIONS = 8
+
+/**
+ * What filters look at besides the index
+ */
+export interface SearchDocument {
+  conv: UnifiedConversation
+  platform: string              // Platform id, e.g. 'chatgpt'
+  platformName: string          // Display name, e.g. 'ChatGPT'
+  models: string[]
+  length: number                // Indexed words; 0 when not indexed
+  hasCode: boolean
+  hasBackup: boolean
+}
+
+interface DocumentFilter {
+  negated: boolean
+  test: (doc: SearchDocument) => boolean
+}
+
+export interface SearchQuery {
+  clauses: QueryClause[]        // Each must match the title or the content
+  excluded: QueryClause[]       // None may match
+  filters: DocumentFilter[]
+  role?: MessageRole            // Clauses match only this side's messages
+  text: string                  // Free text, also matched as a substring of titles, models and snippets
+  usesBackups: boolean          // has:backup needs the backed-up conversations
+  errors: string[]              // Filters with values that make no sense; they are ignored
+}
+
+// Optional minus, optional key, then a quoted (possibly unterminated) or bare value
+const ITEM_PATTERN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|([^\s"]+))?/gi
+
+const DATE_PATTERN = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/
+const AGE_PATTERN = /^(\d+)([dwmy])$/
+
+function isFilterKey(key: string): key is FilterKey {
+  return FILTER_KEYS.some(info => info.key === key)
+}
+
+/**
+ * Start of a calendar date (2026, 2026-07, 2026-07-15) or of the day an age
+ * ago (30d, 2w, 6m, 1y), in local time
+ */
+export function parseDateValue(value: string, now = Date.now()): number | null {
+  const date = DATE_PATTERN.exec(value)
+  if (date) {
+    const year = Number(date[1])
+    const month = date[2] ? Number(date[2]) : 1
+    const day = date[3] ? Number(date[3]) : 1
+    const start = new Date(year, month - 1, day)
+    // Date rolls 2026-02-31 over to March and maps years below 100 to 19xx
+    if (start.getFullYear() !== year || start.getMonth() !== month - 1 || start.getDate() !== day) return null
+    return start.getTime()
+  }
+
+  const age = AGE_PATTERN.exec(value)
+  if (!age) return null
+  const amount = Number(age[1])
+  const start = new Date(now)
+  start.setHours(0, 0, 0, 0)
+  switch (age[2]) {
+    case 'd': start.setDate(start.getDate() - amount); break
+    case 'w': start.setDate(start.getDate() - amount * 7); break
+    case 'm': start.setMonth(start.getMonth() - amount); break
+    case 'y': start.setFullYear(start.getFullYear() - amount); break
+  }
+  return start.getTime()
+}
+
+function parseBoolean(value: string): boolean | null {
+  if (['true', 'yes', '1'].includes(value)) return true
+  if (['false', 'no', '0'].includes(value)) return false
+  return null
+}
+
+function addClauses(list: QueryClause[], clauses: QueryClause[]) {
+  for (const clause of clauses) {
+    const key = `${clause.kind}:${clause.terms.join(' ')}`
+    if (!list.some(c => `${c.kind}:${c.terms.join(' ')}` === key)) list.push(clause)
+  }
+}
+
+function addFilter(
+  query: SearchQuery,
+  key: FilterKey,
+  value: string,
+  options: { negated: boolean; quoted: boolean; typing: boolean; now: number }
+) {
+  const lower = value.toLowerCase()
+  const add = (test: DocumentFilter['test']) => query.filters.push({ negated: options.negated, test })
+  const invalid = () => { query.errors.push(`Unknown value: ${key}:${value}`) }
+
+  switch (key) {
+    case 'title': {
+      const phrase = options.quoted ? phraseClause(value) : null
+      const clauses = options.quoted ? (phrase ? [phrase] : []) : textClauses(value, options.typing)
+      if (clauses.length > 0) {
+        add(doc => {
+          const titleTerms = analyzeTitle(doc.conv.title || '')
+          return clauses.every(clause => matchesTitle(clause, titleTerms))
+        })
+      }
+      break
+    }
+    case 'role':
+      if (lower !== 'user' && lower !== 'assistant') return invalid()
+      // -role:user is the assistant's side
+      query.role = (lower === 'user') !== options.negated ? 'user' : 'assistant'
+      break
+    case 'before':
+    case 'after': {
+      const time = parseDateValue(lower, options.now)
+      if (time === null) {
+        query.errors.push(`Not a date: ${key}:${value}`)
+        return
+      }
+      add(key === 'before' ? doc => doc.conv.updateTime < time : doc => doc.conv.updateTime >= time)
+      break
+    }
+    case 'starred': {
+      const starred = parseBoolean(lower)
+      if (starred === null) return invalid()
+      add(doc => !!doc.conv.isStarred === starred)
+      break
+    }
+    case 'model':
+      add(doc => doc.models.some(model => model.toLowerCase().includes(lower)))
+      break
+    case 'platform':
+      add(doc => doc.platform === lower || doc.platformName.toLowerCase() === lower)
+      break
+    case 'has':
+      if (lower === 'code') {
+        add(doc => doc.hasCode)
+      } else if (lower === 'backup') {
+        query.usesBackups = true
+        add(doc => doc.hasBackup)
+      } else {
+        invalid()
+      }
+      break
+  }
+}
+
+/**
+ * Parse a search box query
+ * @param now - reference time for ages like after:30d
+ */
+export function parseSearchQuery(input: string, now = Date.now()): SearchQuery {
+  const query: SearchQuery = { clauses: [], excluded: [], filters: [], text: '', usesBackups: false, errors: [] }
+  const words: string[] = []
+
+  for (const match of input.matchAll(ITEM_PATTERN)) {
+    const [raw, minus, rawKey, quoted, bare] = match
+    if (!raw || raw === '-') continue
+    const negated = minus === '-'
+    const isQuoted = quoted !== undefined
+    const value = quoted ?? bare ?? ''
+    // A bare word at the very end is still being typed
+    const typing = !isQuoted && (match.index ?? 0) + raw.length === input.length
+
+    const key = rawKey?.toLowerCase()
+    if (key && isFilterKey(key)) {
+      if (value) addFilter(query, key, value, { negated, quoted: isQuoted, typing, now })
+      continue
+    }
+
+    const text = rawKey ? `${rawKey}:${value}` : value
+    const phrase = isQuoted ? phraseClause(text) : null
+    const clauses = isQuoted ? (phrase ? [phrase] : []) : textClauses(text, typing && !negated)
+    if (negated) {
+      addClauses(query.excluded, clauses)
+    } else {
+      addClauses(query.clauses, clauses)
+      if (text.trim()) words.push(text.trim())
+    }
+  }
+
+  query.text = words.join(' ')
+  return query
+}
+
+// ==================== Evaluation ====================
+
+/**
+ * Index terms whose postings a query needs, prefixes excluded
+ */
+export function getQueryTerms(query: SearchQuery): string[] {
+  return [...new Set([...query.clauses, ...query.excluded]
+    .filter(clause => clause.kind !== 'prefix')
+    .flatMap(clause => clause.terms))]
+}
+
+/**
+ * Prefixes whose expansions a query needs
+ */
+export function getQueryPrefixes(query: SearchQuery): string[] {
+  return query.clauses.filter(clause => clause.kind === 'prefix').map(clause => clause.terms[0])
+}
+
+/**
+ * Words and prefixes that fuzzy mode may match a few edits off; phrases and
+ * exclusions stay exact
+ */
+export function getFuzzyWords(query: SearchQuery): { word: string; prefix: boolean }[] {
+  const words = new Map<string, boolean>()
+  for (const clause of query.clauses) {
+    if (clause.kind !== 'phrase' && maxEdits(clause.terms[0]) > 0) words.set(clause.terms[0], clause.kind === 'prefix')
+  }
+  return [...words].map(([word, prefix]) => ({ word, prefix }))
+}
+
+export interface QueryIndex {
+  postings: Postings            // getQueryTerms, the prefix expansions and fuzzy terms
+  expansions: Record<string, string[]>
+  fuzzy?: Record<string, SimilarTerm[]>  // Fuzzy mode only
+  stats: CorpusStats
+}
+
+export interface QueryMatch extends DocumentMatch {
+  conv: UnifiedConversation
+}
+
+// text is folded with foldText
+function matchesSubstring(doc: SearchDocument, text: string): boolean {
+  return foldText(doc.conv.title || '').includes(text) ||
+    doc.models.some(model => model.toLowerCase().includes(text)) ||
+    foldText(doc.conv.snippet || '').includes(text)
+}
+
+/**
+ * Documents passing every filter, matching every clause and no excluded one
+ */
+export function runQuery(query: SearchQuery, documents: SearchDocument[], index: QueryIndex): QueryMatch[] {
+  const ctx: SearchContext = { ...index, role: query.role }
+  const text = foldText(query.text)
+  // Text of only stopwords or punctuation has no clauses; it can still be a substring
+  const ranked = query.clauses.length > 0 || !text
+  const results: QueryMatch[] = []
+
+  for (const doc of documents) {
+    if (!query.filters.every(filter => filter.test(doc) !== filter.negated)) continue
+
+    const { id } = doc.conv
+    const title = doc.conv.title || ''
+    if (query.excluded.some(clause => matchDocument(ctx, [clause], id, title, doc.length))) continue
+
+    let match = ranked ? matchDocument(ctx, query.clauses, id, title, doc.length) : null
+    // Substrings catch punctuation and parts of words the index doesn't split on
+    if (!match && text && !query.role && matchesSubstring(doc, text)) {
+      match = { score: 0, inContent: false, contentTerms: [], hits: 0 }
+    }
+    if (match) results.push({ conv: doc.conv, ...match })
+  }
+
+  return results
+}
+
+/**
+ * Query text with some words swapped, e.g. for "Did you mean"
+ * @param replacements - index term of a word -> what to write instead
+ */
+export function rewriteQuery(input: string, replacements: Map<string, string>): string {
+  let output = input
+  // From the end, so earlier ranges stay valid
+  for (const token of tokenize(input).filter(t => !t.part).reverse()) {
+    const replacement = replacements.get(token.term)
+    if (replacement) output = output.slice(0, token.start) + replacement + output.slice(token.end)
+  }
+  return output
+}
+
+// ==================== Autocomplete ====================
+
+export interface QuerySuggestion {
+  text: string                  // Replaces the word being typed
+  label: string
+  description: string
+}
+
+function quoteValue(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value
+}
+
+/**
+ * Completions for the word being typed: filter keys, then their values
+ * @param values - known values per key, e.g. the models in the list
+ */
+export function getSuggestions(word: string, values: Partial<Record<FilterKey, string[]>> = {}): QuerySuggestion[] {
+  const match = /^(-?)([a-z]*)(?::(.*))?$/i.exec(word)
+  if (!match || !match[2]) return []
+  const [, minus, rawKey, value] = match
+  const key = rawKey.toLowerCase()
+
+  if (value === undefined) {
+    return FILTER_KEYS
+      .filter(info => info.key.startsWith(key))
+      .map(info => ({ text: `${minus}${info.key}:`, label: `${info.key}:`, description: info.description }))
+  }
+
+  if (!isFilterKey(key)) return []
+  const info = FILTER_KEYS.find(i => i.key === key)!
+  const typed = value.replace(/^"/, '').toLowerCase()
+  return (values[key] || info.values || [])
+    .filter(option => option.toLowerCase().startsWith(typed) && option.toLowerCase() !== typed)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(option => ({ text: `${minus}${key}:${quoteValue(option)} `, label: `${key}:${option}`, description: '' }))
+}
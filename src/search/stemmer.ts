@@ -0,0 +1,118 @@
+/**
+ * Porter stemmer (M.F. Porter, 1980) for English words
+ * Maps inflected forms to a common stem: "running", "runs" -> "run",
+ * "connection", "connected" -> "connect". Expects lowercase ASCII letters.
+ */
+
+const STEP2_SUFFIXES: Record<string, string> = {
+  ational: 'ate',
+  tional: 'tion',
+  enci: 'ence',
+  anci: 'ance',
+  izer: 'ize',
+  bli: 'ble',
+  alli: 'al',
+  entli: 'ent',
+  eli: 'e',
+  ousli: 'ous',
+  ization: 'ize',
+  ation: 'ate',
+  ator: 'ate',
+  alism: 'al',
+  iveness: 'ive',
+  fulness: 'ful',
+  ousness: 'ous',
+  aliti: 'al',
+  iviti: 'ive',
+  biliti: 'ble',
+  logi: 'log'
+}
+
+const STEP3_SUFFIXES: Record<string, string> = {
+  icate: 'ic',
+  ative: '',
+  alize: 'al',
+  iciti: 'ic',
+  ical: 'ic',
+  ful: '',
+  ness: ''
+}
+
+// Consonant and vowel sequences; m() counts VC pairs in a stem
+const c = '[^aeiou]'
+const v = '[aeiouy]'
+const C = `${c}[^aeiouy]*`
+const V = `${v}[aeiou]*`
+
+const M_GT_0 = new RegExp(`^(${C})?${V}${C}`)
+const M_EQ_1 = new RegExp(`^(${C})?${V}${C}(${V})?$`)
+const M_GT_1 = new RegExp(`^(${C})?${V}${C}${V}${C}`)
+const HAS_VOWEL = new RegExp(`^(${C})?${v}`)
+const ENDS_CVC = new RegExp(`^${C}${v}[^aeiouwxy]$`)
+
+const STEP2 = /^(.+?)(ational|tional|enci|anci|izer|bli|alli|entli|eli|ousli|ization|ation|ator|alism|iveness|fulness|ousness|aliti|iviti|biliti|logi)$/
+const STEP3 = /^(.+?)(icate|ative|alize|iciti|ical|ful|ness)$/
+const STEP4 = /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/
+
+export function stem(word: string): string {
+  if (word.length < 3) return word
+
+  // A leading y is a consonant; mark it so the vowel patterns skip it
+  const leadingY = word[0] === 'y'
+  let w = leadingY ? 'Y' + word.slice(1) : word
+  let match: RegExpExecArray | null
+
+  // Step 1a: plurals
+  if ((match = /^(.+?)(ss|i)es$/.exec(w))) {
+    w = match[1] + match[2]
+  } else if ((match = /^(.+?)([^s])s$/.exec(w))) {
+    w = match[1] + match[2]
+  }
+
+  // Step 1b: -eed, -ed, -ing
+  if ((match = /^(.+?)eed$/.exec(w))) {
+    if (M_GT_0.test(match[1])) w = w.slice(0, -1)
+  } else if ((match = /^(.+?)(ed|ing)$/.exec(w)) && HAS_VOWEL.test(match[1])) {
+    w = match[1]
+    if (/(at|bl|iz)$/.test(w)) {
+      w += 'e'
+    } else if (/([^aeiouylsz])\1$/.test(w)) {
+      w = w.slice(0, -1)
+    } else if (ENDS_CVC.test(w)) {
+      w += 'e'
+    }
+  }
+
+  // Step 1c: y -> i
+  if ((match = /^(.+?)y$/.exec(w)) && HAS_VOWEL.test(match[1])) {
+    w = match[1] + 'i'
+  }
+
+  // Step 2: double suffixes
+  if ((match = STEP2.exec(w)) && M_GT_0.test(match[1])) {
+    w = match[1] + STEP2_SUFFIXES[match[2]]
+  }
+
+  // Step 3: -ic-, -full, -ness
+  if ((match = STEP3.exec(w)) && M_GT_0.test(match[1])) {
+    w = match[1] + STEP3_SUFFIXES[match[2]]
+  }
+
+  // Step 4: remaining suffixes on longer stems
+  if ((match = STEP4.exec(w))) {
+    if (M_GT_1.test(match[1])) w = match[1]
+  } else if ((match = /^(.+?)(s|t)(ion)$/.exec(w))) {
+    if (M_GT_1.test(match[1] + match[2])) w = match[1] + match[2]
+  }
+
+  // Step 5: final -e and -ll
+  if ((match = /^(.+?)e$/.exec(w))) {
+    const base = match[1]
+    if (M_GT_1.test(base) || (M_EQ_1.test(base) && !ENDS_CVC.test(base))) w = base
+  }
+  if (/ll$/.test(w) && M_GT_1.test(w)) {
+    w = w.slice(0, -1)
+  }
+
+  return leadingY ? 'y' + w.slice(1) : w
+}
@@ -0,0 +1,103 @@
+/**
+ * Text analysis shared by indexing and querying
+ * Splits text into words, lowercases them and stems English ones, keeping
+ * each word's position (for phrase queries) and character range (for
+ * snippets). Identifiers like getUserById or max_retries also yield their
+ * parts at the same position, so a search for "retries" finds them.
+ * Full-width letters and digits read as their ASCII forms; CJK runs become
+ * bigrams (cjk.ts), one position each.
+ */
+
+import { stem } from './stemmer'
+import { cjkBigrams, CJK_CHARACTERS, CJK_PATTERN, foldVariants } from './cjk'
+
+export interface Token {
+  term: string
+  position: number    // Word index in the text; parts share their word's
+  start: number       // Character range in the text
+  end: number
+  stop: boolean       // Stopword: holds a position but isn't indexed
+  part: boolean       // Piece of a compound identifier
+  run?: number        // CJK bigram: which run of the text it comes from
+}
+
+// Longer runs are hashes, base64 and the like
+const MAX_TERM_LENGTH = 40
+
+// A run of CJK characters, or a word of any other letters and digits
+const WORD_PATTERN = new RegExp(`[${CJK_CHARACTERS}]+|(?:(?![${CJK_CHARACTERS}])[\\p{L}\\p{N}_])+`, 'gu')
+const ASCII_WORD = /^[a-z]+$/
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'if', 'in',
+  'into', 'is', 'it', 'no', 'not', 'of', 'on', 'or', 'such', 'that', 'the',
+  'their', 'then', 'there', 'these', 'they', 'this', 'to', 'was', 'will',
+  'with', 'i', 'you', 'me', 'my', 'we', 'do', 'can', 'so'
+])
+
+/**
+ * Index form of a lowercase word
+ */
+export function normalizeTerm(word: string): string {
+  return ASCII_WORD.test(word) ? stem(word) : word
+}
+
+/**
+ * Text compared as a whole, for substring matches: width, case and CJK
+ * variants unified the way terms are
+ */
+export function foldText(text: string): string {
+  return foldVariants(text.normalize('NFKC').toLowerCase())
+}
+
+export function isStopword(word: string): boolean {
+  return STOPWORDS.has(word)
+}
+
+// Pieces of snake_case and camelCase identifiers
+function splitIdentifier(word: string): string[] {
+  return word
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[_\s]+/)
+    .filter(Boolean)
+}
+
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  let position = 0
+  let run = 0
+
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const raw = match[0]
+    const start = match.index ?? 0
+    const end = start + raw.length
+
+    if (CJK_PATTERN.test(raw)) {
+      for (const gram of cjkBigrams(raw, start)) {
+        tokens.push({ term: gram.term, position: position++, start: gram.start, end: gram.end, stop: false, part: false, run })
+      }
+      run++
+      continue
+    }
+
+    const folded = raw.normalize('NFKC')
+    const word = folded.toLowerCase().replace(/^_+|_+$/g, '')
+    if (!word || word.length > MAX_TERM_LENGTH) continue
+
+    const stop = isStopword(word)
+    tokens.push({ term: normalizeTerm(word), position, start, end, stop, part: false })
+
+    const parts = splitIdentifier(folded)
+    if (parts.length > 1) {
+      for (const part of parts) {
+        const lower = part.toLowerCase()
+        if (lower.length < 2 || isStopword(lower)) continue
+        tokens.push({ term: normalizeTerm(lower), position, start, end, stop: false, part: true })
+      }
+    }
+    position++
+  }
+
+  return tokens
+}
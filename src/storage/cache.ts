@@ -0,0 +1,53 @@
+/**
+ * Conversation cache access
+ * Joins the metadata in chrome.storage.local with the conversations in
+ * IndexedDB; writers bump the metadata so listeners see every change.
+ */
+
+import { getCacheMetaKey, getIndexRevisionKey, getStorageScope } from '../platforms/types'
+import type { PlatformCache, PlatformCacheMeta, PlatformType } from '../platforms/types'
+import { countConversations, getConversations } from './db'
+
+export async function readCacheMeta(platform: PlatformType, orgId: string | null): Promise<PlatformCacheMeta | undefined> {
+  const key = getCacheMetaKey(platform, orgId)
+  const result = await chrome.storage.local.get(key)
+  return result[key] as PlatformCacheMeta | undefined
+}
+
+/**
+ * Metadata plus every cached conversation, newest first
+ */
+export async function readCache(platform: PlatformType, orgId: string | null): Promise<PlatformCache | undefined> {
+  const meta = await readCacheMeta(platform, orgId)
+  if (!meta) return undefined
+  const conversations = await getConversations(getStorageScope(platform, orgId))
+  return { ...meta, conversations }
+}
+
+/**
+ * Update the metadata after conversations were written; recounts them
+ */
+export async function saveCacheMeta(
+  platform: PlatformType,
+  orgId: string | null,
+  fields: Partial<PlatformCacheMeta> = {}
+): Promise<PlatformCacheMeta> {
+  const previous = await readCacheMeta(platform, orgId)
+  const meta: PlatformCacheMeta = {
+    lastSyncTime: 0,
+    syncComplete: false,
+    ...previous,
+    ...fields,
+    totalCount: await countConversations(getStorageScope(platform, orgId)),
+    revision: Date.now()
+  }
+  await chrome.storage.local.set({ [getCacheMetaKey(platform, orgId)]: meta })
+  return meta
+}
+
+/**
+ * Signal that content index entries changed
+ */
+export async function touchContentIndex(platform: PlatformType, orgId: string | null): Promise<void> {
+  await chrome.storage.local.set({ [getIndexRevisionKey(platform, orgId)]: Date.now() })
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import { buildDocument } from '../search/engine'
+import {
+  deleteIndexEntries,
+  getDocumentTexts,
+  getIndexTerms,
+  getPostings,
+  getPostingsByPrefix,
+  putIndexedDocument
+} from './db'
+
+// A database as version 3 left it, before db.ts first opens it
+async function createVersion3(postings: { scope: string; term: string; docs: object }[]): Promise<void> {
+  const db = await new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open('ai-chat-manager', 3)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      for (const name of ['conversations', 'backups']) db.createObjectStore(name, { keyPath: ['scope', 'id'] })
+      for (const name of ['previews', 'indexEntries', 'documents']) {
+        db.createObjectStore(name, { keyPath: ['scope', 'conversationId'] })
+      }
+      const store = db.createObjectStore('postings', { keyPath: ['scope', 'term'] })
+      for (const record of postings) store.put(record)
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+  db.close()
+}
+
+function indexText(scope: string, conversationId: string, text: string) {
+  const { length, terms } = buildDocument(text)
+  return putIndexedDocument(scope, conversationId, { indexedAt: 1, length }, text, terms)
+}
+
+describe('term occurrences', () => {
+  // Runs first: db.ts opens the database once per test file
+  it('splits version 3 postings into a row per conversation', async () => {
+    await createVersion3([
+      { scope: 'chatgpt', term: 'deploy', docs: { c1: { tf: 2, pos: [0, 4], user: 1 }, c2: { tf: 1, pos: [3] } } },
+      { scope: 'claude', term: 'deploy', docs: { c3: { tf: 1, pos: [0] } } }
+    ])
+
+    expect(await getPostings('chatgpt', ['deploy', 'missing'])).toEqual({
+      deploy: { c1: { tf: 2, pos: [0, 4], user: 1 }, c2: { tf: 1, pos: [3] } },
+      missing: {}
+    })
+    expect(await getPostings('claude', ['deploy'])).toEqual({ deploy: { c3: { tf: 1, pos: [0] } } })
+    const db = await new Promise<IDBDatabase>(resolve => {
+      const request = indexedDB.open('ai-chat-manager')
+      request.onsuccess = () => resolve(request.result)
+    })
+    expect(db.objectStoreNames.contains('postings')).toBe(false)
+    db.close()
+  })
+
+  it('replaces only the rows of the re-indexed conversation', async () => {
+    await indexText('chatgpt', 'c1', 'deploy the service')
+    await indexText('chatgpt', 'c2', 'deploy the database')
+    await indexText('chatgpt', 'c1', 'rollback the database')
+
+    const postings = await getPostings('chatgpt', ['deploi', 'servic', 'databas', 'rollback'])
+    expect(Object.keys(postings.deploi)).toEqual(['c2'])
+    expect(postings.servic).toEqual({})
+    expect(Object.keys(postings.databas)).toEqual(['c1', 'c2'])
+    expect(Object.keys(postings.rollback)).toEqual(['c1'])
+  })
+
+  it('removes the rows and text of a deleted conversation', async () => {
+    await indexText('chatgpt', 'c1', 'deploy the service')
+    await indexText('chatgpt', 'c2', 'deploy the database')
+    await deleteIndexEntries('chatgpt', ['c1'])
+
+    expect(await getIndexTerms('chatgpt')).toEqual(['databas', 'deploi'])
+    expect(await getDocumentTexts('chatgpt', ['c1', 'c2'])).toEqual({ c2: 'deploy the database' })
+  })
+
+  it('lists each term once, per scope and by prefix', async () => {
+    await indexText('chatgpt', 'c1', 'data database dataset')
+    await indexText('chatgpt', 'c2', 'database datum')
+    await indexText('claude', 'c3', 'datacenter')
+
+    expect(await getIndexTerms('chatgpt')).toEqual(['data', 'databas', 'dataset', 'datum'])
+    const expanded = await getPostingsByPrefix('chatgpt', 'data', 2)
+    expect(Object.keys(expanded)).toEqual(['data', 'databas'])
+    expect(Object.keys(expanded.databas)).toEqual(['c1', 'c2'])
+  })
+})
@@ -0,0 +1,602 @@
+/**
+ * IndexedDB store
+ * Conversations, previews, content index entries and backups as one record
+ * each, keyed by storage scope (platform, or platform + organization) so
+ * writes touch only what changed. Shared by the background and the popup.
+ * Full-text search adds indexed documents and an inverted index: one
+ * record per term and conversation that contains it, so re-indexing a
+ * conversation writes only its own rows.
+ */
+
+import type {
+  Backup,
+  ContentIndex,
+  ContentIndexEntry,
+  PreviewCache,
+  TermOccurrences,
+  UnifiedConversation
+} from '../platforms/types'
+
+const DB_NAME = 'ai-chat-manager'
+const DB_VERSION = 4
+
+const CONVERSATIONS = 'conversations'
+const PREVIEWS = 'previews'
+const INDEX_ENTRIES = 'indexEntries'
+const BACKUPS = 'backups'
+const DOCUMENTS = 'documents'
+const OCCURRENCES = 'occurrences'
+// Version 3: one record per term holding every conversation's occurrences
+const LEGACY_POSTINGS = 'postings'
+
+export type StoreName =
+  | typeof CONVERSATIONS
+  | typeof PREVIEWS
+  | typeof INDEX_ENTRIES
+  | typeof BACKUPS
+  | typeof DOCUMENTS
+  | typeof OCCURRENCES
+
+type StoredConversation = UnifiedConversation & {
+  scope: string
+  syncRun?: number              // Full sync that last saw it; older ones are gone remotely
+}
+
+type StoredPreview = PreviewCache & {
+  scope: string
+  conversationId: string
+  accessedAt: number            // Last read, for least-recently-used eviction
+}
+type StoredIndexEntry = ContentIndexEntry & { scope: string; conversationId: string }
+type StoredBackup = Backup & { scope: string }
+
+type StoredDocument = {
+  scope: string
+  conversationId: string
+  text: string                  // For snippets
+  terms: string[]               // Postings to update when it changes
+}
+
+type StoredOccurrences = TermOccurrences & {
+  scope: string
+  term: string
+  conversationId: string
+}
+
+type LegacyPostings = {
+  scope: string
+  term: string
+  docs: Record<string, TermOccurrences>  // By conversation id
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = event => {
+        const db = request.result
+        const tx = request.transaction!
+
+        if (event.oldVersion < 1) {
+          const conversations = db.createObjectStore(CONVERSATIONS, { keyPath: ['scope', 'id'] })
+          conversations.createIndex('byUpdateTime', ['scope', 'updateTime'])
+
+          db.createObjectStore(PREVIEWS, { keyPath: ['scope', 'conversationId'] })
+
+          const entries = db.createObjectStore(INDEX_ENTRIES, { keyPath: ['scope', 'conversationId'] })
+          entries.createIndex('byIndexedAt', ['scope', 'indexedAt'])
+
+          const backups = db.createObjectStore(BACKUPS, { keyPath: ['scope', 'id'] })
+          backups.createIndex('byPlatform', 'platform')
+        }
+
+        if (event.oldVersion < 2) {
+          // Records without the key path stay out of an index, so existing
+          // previews count as last read when they were cached
+          const previews = tx.objectStore(PREVIEWS)
+          previews.createIndex('byAccessedAt', 'accessedAt')
+          const cursorRequest = previews.openCursor()
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result
+            if (!cursor) return
+            const record = cursor.value as StoredPreview
+            if (record.accessedAt === undefined) cursor.update({ ...record, accessedAt: record.cachedAt })
+            cursor.continue()
+          }
+        }
+
+        if (event.oldVersion < 3) {
+          db.createObjectStore(DOCUMENTS, { keyPath: ['scope', 'conversationId'] })
+          db.createObjectStore(LEGACY_POSTINGS, { keyPath: ['scope', 'term'] })
+        }
+
+        if (event.oldVersion < 4) {
+          // Split each term's postings into a row per conversation, so that
+          // indexing one no longer rewrites the whole list of a common term
+          const occurrences = db.createObjectStore(OCCURRENCES, { keyPath: ['scope', 'term', 'conversationId'] })
+          const cursorRequest = tx.objectStore(LEGACY_POSTINGS).openCursor()
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result
+            if (!cursor) {
+              db.deleteObjectStore(LEGACY_POSTINGS)
+              return
+            }
+            const { scope, term, docs } = cursor.value as LegacyPostings
+            for (const [conversationId, occurrence] of Object.entries(docs)) {
+              occurrences.put({ ...occurrence, scope, term, conversationId } as StoredOccurrences)
+            }
+            cursor.continue()
+          }
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+/**
+ * Run a write against one or more stores and wait for the commit
+ */
+async function write(stores: string | string[], fn: (tx: IDBTransaction) => void): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction(stores, 'readwrite')
+  fn(tx)
+  await done(tx)
+}
+
+async function read<T>(storeName: string, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb()
+  return promisify(fn(db.transaction(storeName).objectStore(storeName)))
+}
+
+// Every key of a scope, for range queries on [scope, ...] indexes
+function scopeRange(scope: string): IDBKeyRange {
+  return IDBKeyRange.bound([scope], [scope, []])
+}
+
+function stripScope<T extends { scope: string }>(record: T): Omit<T, 'scope'> {
+  const { scope: _scope, ...rest } = record
+  return rest
+}
+
+// ==================== Conversations ====================
+
+/**
+ * All conversations of a scope, newest first
+ */
+export async function getConversations(scope: string): Promise<UnifiedConversation[]> {
+  const records = await read<StoredConversation[]>(CONVERSATIONS, store =>
+    store.index('byUpdateTime').getAll(scopeRange(scope))
+  )
+  return records.reverse().map(({ scope: _scope, syncRun: _run, ...conv }) => conv)
+}
+
+export async function getConversation(scope: string, id: string): Promise<UnifiedConversation | undefined> {
+  const record = await read<StoredConversation | undefined>(CONVERSATIONS, store => store.get([scope, id]))
+  if (!record) return undefined
+  const { scope: _scope, syncRun: _run, ...conv } = record
+  return conv
+}
+
+/**
+ * The most recently updated conversation of a scope
+ */
+export async function getNewestConversation(scope: string): Promise<UnifiedConversation | undefined> {
+  const cursor = await read<IDBCursorWithValue | null>(CONVERSATIONS, store =>
+    store.index('byUpdateTime').openCursor(scopeRange(scope), 'prev')
+  )
+  if (!cursor) return undefined
+  const { scope: _scope, syncRun: _run, ...conv } = cursor.value as StoredConversation
+  return conv
+}
+
+export function countConversations(scope: string): Promise<number> {
+  return read(CONVERSATIONS, store => store.count(scopeRange(scope)))
+}
+
+/**
+ * Insert or replace conversations
+ * @param syncRun - id of the full sync that fetched them
+ */
+export function putConversations(scope: string, conversations: UnifiedConversation[], syncRun?: number): Promise<void> {
+  return write(CONVERSATIONS, tx => {
+    const store = tx.objectStore(CONVERSATIONS)
+    for (const conv of conversations) {
+      store.put({ ...conv, scope, syncRun } as StoredConversation)
+    }
+  })
+}
+
+export function deleteConversations(scope: string, ids: string[]): Promise<void> {
+  return write(CONVERSATIONS, tx => {
+    const store = tx.objectStore(CONVERSATIONS)
+    for (const id of ids) store.delete([scope, id])
+  })
+}
+
+/**
+ * Delete conversations a full sync didn't see; returns their ids
+ */
+export async function deleteConversationsNotInRun(scope: string, syncRun: number): Promise<string[]> {
+  const removed: string[] = []
+  await write(CONVERSATIONS, tx => {
+    const request = tx.objectStore(CONVERSATIONS).openCursor(scopeRange(scope))
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor) return
+      const record = cursor.value as StoredConversation
+      if (record.syncRun !== syncRun) {
+        removed.push(record.id)
+        cursor.delete()
+      }
+      cursor.continue()
+    }
+  })
+  return removed
+}
+
+// ==================== Previews ====================
+
+/**
+ * Read a preview, marking it as recently used
+ */
+export async function getPreview(scope: string, conversationId: string): Promise<PreviewCache | undefined> {
+  let found: StoredPreview | undefined
+  await write(PREVIEWS, tx => {
+    const store = tx.objectStore(PREVIEWS)
+    const request = store.get([scope, conversationId])
+    request.onsuccess = () => {
+      found = request.result as StoredPreview | undefined
+      if (found) store.put({ ...found, accessedAt: Date.now() })
+    }
+  })
+  return found && { messages: found.messages, cachedAt: found.cachedAt }
+}
+
+export function putPreview(scope: string, conversationId: string, preview: PreviewCache): Promise<void> {
+  return write(PREVIEWS, tx => {
+    tx.objectStore(PREVIEWS).put({ ...preview, scope, conversationId, accessedAt: Date.now() } as StoredPreview)
+  })
+}
+
+/**
+ * Drop expired previews, then the least recently used beyond maxEntries.
+ * Returns the number removed.
+ */
+export async function evictPreviews(maxAge: number, maxEntries: number): Promise<number> {
+  const db = await openDb()
+  const count = await promisify(db.transaction(PREVIEWS).objectStore(PREVIEWS).count())
+  const expiredBefore = Date.now() - maxAge
+  let excess = count - maxEntries
+  let removed = 0
+
+  await write(PREVIEWS, tx => {
+    const request = tx.objectStore(PREVIEWS).index('byAccessedAt').openCursor()
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor) return
+      const record = cursor.value as StoredPreview
+      if (excess > 0 || record.cachedAt < expiredBefore) {
+        cursor.delete()
+        excess--
+        removed++
+      }
+      cursor.continue()
+    }
+  })
+  return removed
+}
+
+// ==================== Content Index ====================
+
+export async function getIndexEntries(scope: string): Promise<ContentIndex> {
+  const records = await read<StoredIndexEntry[]>(INDEX_ENTRIES, store => store.getAll(scopeRange(scope)))
+  const index: ContentIndex = {}
+  for (const { scope: _scope, conversationId, ...entry } of records) {
+    index[conversationId] = entry
+  }
+  return index
+}
+
+export async function getIndexEntry(scope: string, conversationId: string): Promise<ContentIndexEntry | undefined> {
+  const record = await read<StoredIndexEntry | undefined>(INDEX_ENTRIES, store => store.get([scope, conversationId]))
+  if (!record) return undefined
+  const { scope: _scope, conversationId: _id, ...entry } = record
+  return entry
+}
+
+export function countIndexEntries(scope: string): Promise<number> {
+  return read(INDEX_ENTRIES, store => store.count(scopeRange(scope)))
+}
+
+export function putIndexEntries(scope: string, entries: ContentIndex): Promise<void> {
+  return write(INDEX_ENTRIES, tx => {
+    const store = tx.objectStore(INDEX_ENTRIES)
+    for (const [conversationId, entry] of Object.entries(entries)) {
+      store.put({ ...entry, scope, conversationId } as StoredIndexEntry)
+    }
+  })
+}
+
+interface DocumentChange {
+  conversationId: string
+  text: string | null           // null removes the document
+  terms: Record<string, TermOccurrences>
+}
+
+/**
+ * Replace documents and their term occurrences: rows of terms a document
+ * no longer has are deleted, the others overwritten
+ */
+function writeDocuments(tx: IDBTransaction, scope: string, changes: DocumentChange[]) {
+  const documents = tx.objectStore(DOCUMENTS)
+  const occurrences = tx.objectStore(OCCURRENCES)
+
+  for (const { conversationId, text, terms } of changes) {
+    const request = documents.get([scope, conversationId])
+    request.onsuccess = () => {
+      const previous = request.result as StoredDocument | undefined
+      for (const term of previous?.terms || []) {
+        if (!terms[term]) occurrences.delete([scope, term, conversationId])
+      }
+      for (const [term, occurrence] of Object.entries(terms)) {
+        occurrences.put({ ...occurrence, scope, term, conversationId } as StoredOccurrences)
+      }
+
+      if (text === null) {
+        documents.delete([scope, conversationId])
+      } else {
+        documents.put({ scope, conversationId, text, terms: Object.keys(terms) } as StoredDocument)
+      }
+    }
+  }
+}
+
+/**
+ * Store a conversation's index entry, text and term occurrences, replacing
+ * its previous ones in the same transaction
+ */
+export function putIndexedDocument(
+  scope: string,
+  conversationId: string,
+  entry: ContentIndexEntry,
+  text: string,
+  terms: Record<string, TermOccurrences>
+): Promise<void> {
+  return write([INDEX_ENTRIES, DOCUMENTS, OCCURRENCES], tx => {
+    tx.objectStore(INDEX_ENTRIES).put({ ...entry, scope, conversationId } as StoredIndexEntry)
+    writeDocuments(tx, scope, [{ conversationId, text, terms }])
+  })
+}
+
+export function deleteIndexEntries(scope: string, conversationIds: string[]): Promise<void> {
+  return write([INDEX_ENTRIES, DOCUMENTS, OCCURRENCES], tx => {
+    const store = tx.objectStore(INDEX_ENTRIES)
+    for (const id of conversationIds) store.delete([scope, id])
+    writeDocuments(tx, scope, conversationIds.map(conversationId => ({ conversationId, text: null, terms: {} })))
+  })
+}
+
+/**
+ * Keep only the most recently indexed entries of a scope
+ */
+export async function trimIndexEntries(scope: string, max: number): Promise<void> {
+  const count = await countIndexEntries(scope)
+  let excess = count - max
+  if (excess <= 0) return
+
+  await write([INDEX_ENTRIES, DOCUMENTS, OCCURRENCES], tx => {
+    const removed: DocumentChange[] = []
+    const request = tx.objectStore(INDEX_ENTRIES).index('byIndexedAt').openCursor(scopeRange(scope))
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor || excess <= 0) {
+        writeDocuments(tx, scope, removed)
+        return
+      }
+      removed.push({ conversationId: (cursor.value as StoredIndexEntry).conversationId, text: null, terms: {} })
+      cursor.delete()
+      excess--
+      cursor.continue()
+    }
+  })
+}
+
+/**
+ * Entries still carrying the 2,000-character excerpt indexes kept before
+ * full-text search
+ */
+export async function getLegacyIndexEntries(): Promise<(StoredIndexEntry & { contentText: string })[]> {
+  const records = await read<(StoredIndexEntry & { contentText?: string })[]>(INDEX_ENTRIES, store => store.getAll())
+  return records.filter((record): record is StoredIndexEntry & { contentText: string } =>
+    typeof record.contentText === 'string'
+  )
+}
+
+// ==================== Full-Text Search ====================
+
+/**
+ * Occurrences of the given terms, by term then conversation id
+ */
+export async function getPostings(scope: string, terms: string[]): Promise<Record<string, Record<string, TermOccurrences>>> {
+  const db = await openDb()
+  const store = db.transaction(OCCURRENCES).objectStore(OCCURRENCES)
+  const records = await Promise.all(terms.map(term =>
+    promisify(store.getAll(IDBKeyRange.bound([scope, term], [scope, term, []])) as IDBRequest<StoredOccurrences[]>)
+  ))
+  const postings: Record<string, Record<string, TermOccurrences>> = {}
+  terms.forEach((term, i) => {
+    postings[term] = {}
+    for (const { scope: _scope, term: _term, conversationId, ...occurrence } of records[i]) {
+      postings[term][conversationId] = occurrence
+    }
+  })
+  return postings
+}
+
+/**
+ * Distinct terms in a key range of the occurrences, in code point order:
+ * the cursor skips past each term's rows rather than reading them all
+ */
+async function listTerms(range: IDBKeyRange, limit = Infinity): Promise<string[]> {
+  const db = await openDb()
+  const tx = db.transaction(OCCURRENCES)
+  const terms: string[] = []
+  const request = tx.objectStore(OCCURRENCES).openKeyCursor(range)
+  request.onsuccess = () => {
+    const cursor = request.result
+    if (!cursor) return
+    const [scope, term] = cursor.key as [string, string, string]
+    terms.push(term)
+    if (terms.length < limit) cursor.continue([scope, term, []])
+  }
+  await done(tx)
+  return terms
+}
+
+/**
+ * Postings of the first terms (in code point order) starting with prefix
+ */
+export async function getPostingsByPrefix(
+  scope: string,
+  prefix: string,
+  limit: number
+): Promise<Record<string, Record<string, TermOccurrences>>> {
+  const terms = await listTerms(IDBKeyRange.bound([scope, prefix], [scope, prefix + '\uffff']), limit)
+  return getPostings(scope, terms)
+}
+
+/**
+ * Every index term of a scope
+ */
+export function getIndexTerms(scope: string): Promise<string[]> {
+  return listTerms(scopeRange(scope))
+}
+
+/**
+ * Keys of every stored document, across scopes
+ */
+export async function getDocumentKeys(): Promise<[string, string][]> {
+  return await read<IDBValidKey[]>(DOCUMENTS, store => store.getAllKeys()) as [string, string][]
+}
+
+/**
+ * Indexed text of the given conversations, by id; missing ones are skipped
+ */
+export async function getDocumentTexts(scope: string, conversationIds: string[]): Promise<Record<string, string>> {
+  const db = await openDb()
+  const store = db.transaction(DOCUMENTS).objectStore(DOCUMENTS)
+  const records = await Promise.all(conversationIds.map(id =>
+    promisify(store.get([scope, id]) as IDBRequest<StoredDocument | undefined>)
+  ))
+  const texts: Record<string, string> = {}
+  for (const record of records) {
+    if (record) texts[record.conversationId] = record.text
+  }
+  return texts
+}
+
+// ==================== Backups ====================
+
+/**
+ * Backups newest first, optionally of one platform only
+ */
+export async function getBackups(platform?: string): Promise<Backup[]> {
+  const records = await read<StoredBackup[]>(BACKUPS, store =>
+    platform ? store.index('byPlatform').getAll(platform) : store.getAll()
+  )
+  return records.map(stripScope).sort((a, b) => b.backupTime - a.backupTime)
+}
+
+export function putBackup(scope: string, backup: Backup): Promise<void> {
+  return write(BACKUPS, tx => {
+    tx.objectStore(BACKUPS).put({ ...backup, scope } as StoredBackup)
+  })
+}
+
+export function deleteBackup(scope: string, conversationId: string): Promise<void> {
+  return write(BACKUPS, tx => {
+    tx.objectStore(BACKUPS).delete([scope, conversationId])
+  })
+}
+
+// ==================== Housekeeping ====================
+
+export interface StoreUsage {
+  count: number
+  bytes: number                 // Approximate: length of the serialized record
+}
+
+/**
+ * Record count and size of a store, per storage scope
+ */
+export async function measureStore(name: StoreName): Promise<Record<string, StoreUsage>> {
+  const usage: Record<string, StoreUsage> = {}
+  const db = await openDb()
+  const tx = db.transaction(name)
+  const request = tx.objectStore(name).openCursor()
+  request.onsuccess = () => {
+    const cursor = request.result
+    if (!cursor) return
+    const { scope } = cursor.value as { scope: string }
+    const entry = usage[scope] || (usage[scope] = { count: 0, bytes: 0 })
+    entry.count++
+    entry.bytes += JSON.stringify(cursor.value).length
+    cursor.continue()
+  }
+  await done(tx)
+  return usage
+}
+
+/**
+ * Delete every record of the given stores whose scope matches
+ */
+export function deleteMatchingScopes(names: StoreName[], match: (scope: string) => boolean): Promise<void> {
+  return write(names, tx => {
+    for (const name of names) {
+      const request = tx.objectStore(name).openCursor()
+      request.onsuccess = () => {
+        const cursor = request.result
+        if (!cursor) return
+        if (match((cursor.value as { scope: string }).scope)) cursor.delete()
+        cursor.continue()
+      }
+    }
+  })
+}
+
+/**
+ * Drop a scope's conversations, previews and search index.
+ * Backups are kept; they are the user's archive.
+ */
+export function clearScope(scope: string): Promise<void> {
+  const stores = [CONVERSATIONS, PREVIEWS, INDEX_ENTRIES, DOCUMENTS, OCCURRENCES]
+  return write(stores, tx => {
+    for (const name of stores) {
+      tx.objectStore(name).delete(scopeRange(scope))
+    }
+  })
+}
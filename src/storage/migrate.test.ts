@@ -0,0 +1,305 @@
+import { describe, expect, it, vi } from 'vitest'
+import { failStorageOnce, getStorage, setStorage } from '../test/setup'
+import type { Backup, UnifiedConversation } from '../platforms/types'
+import { buildDocument } from '../search/engine'
+import {
+  getBackups,
+  getConversations,
+  getDocumentTexts,
+  getIndexEntries,
+  getIndexEntry,
+  getLegacyIndexEntries,
+  getPostings,
+  getPreview,
+  putIndexEntries,
+  putIndexedDocument
+} from './db'
+import { getSchemaVersion, MIGRATIONS, runMigrations, SCHEMA_VERSION_KEY } from './migrate'
+
+// putIndexedDocument calls left before one throws; null never fails
+const faults = vi.hoisted(() => ({ putIndexedDocumentAfter: null as number | null }))
+
+vi.mock('./db', async importOriginal => {
+  const db = await importOriginal<typeof import('./db')>()
+  return {
+    ...db,
+    putIndexedDocument: (...args: Parameters<typeof db.putIndexedDocument>) => {
+      if (faults.putIndexedDocumentAfter !== null && faults.putIndexedDocumentAfter-- === 0) {
+        faults.putIndexedDocumentAfter = null
+        return Promise.reject(new Error('putIndexedDocument failed'))
+      }
+      return db.putIndexedDocument(...args)
+    }
+  }
+})
+
+function migration(version: number) {
+  return MIGRATIONS.find(m => m.version === version)!.run
+}
+
+function conversation(id: string, updateTime: number): UnifiedConversation {
+  return { id, title: `Chat ${id}`, createTime: updateTime, updateTime, platform: 'chatgpt' }
+}
+
+function backup(id: string, platform?: string): Partial<Backup> {
+  return { id, title: `Chat ${id}`, messages: [], backupTime: 1000, ...(platform ? { platform: platform as Backup['platform'] } : {}) }
+}
+
+describe('runMigrations', () => {
+  // A successful run is shared for the life of the module, so this is one test
+  it('keeps the versions done before a failure and resumes from there', async () => {
+    // v1 removes its stale keys last; v2 reads everything first
+    setStorage({ [SCHEMA_VERSION_KEY]: 1, chatgpt_conversationCache: { conversations: [], lastSyncTime: 1, syncComplete: true } })
+    failStorageOnce('remove')
+    await expect(runMigrations()).rejects.toThrow('remove failed')
+    expect(await getSchemaVersion()).toBe(1)
+
+    const result = await runMigrations()
+    expect(result.from).toBe(1)
+    expect(result.to).toBe(MIGRATIONS[MIGRATIONS.length - 1].version)
+    expect(result.applied).toHaveLength(MIGRATIONS.length - 1)
+    expect(await getSchemaVersion()).toBe(result.to)
+    expect(getStorage().chatgpt_conversationCache).toBeUndefined()
+  })
+})
+
+describe('v1: prefix 1.x ChatGPT keys', () => {
+  const legacy = {
+    backup_c1: backup('c1'),
+    conversationCache: { conversations: [conversation('c1', 1)], totalCount: 1, lastSyncTime: 5, syncComplete: true },
+    syncProgress: { loaded: 1, total: 2 },
+    syncError: 'boom',
+    settings: { backupBeforeDelete: true }
+  }
+  const expected = {
+    chatgpt_backup_c1: { ...backup('c1'), platform: 'chatgpt' },
+    chatgpt_conversationCache: legacy.conversationCache,
+    settings: legacy.settings
+  }
+
+  it('moves backups and the cache under chatgpt_ and drops transient keys', async () => {
+    setStorage(legacy)
+    await migration(1)()
+    expect(getStorage()).toEqual(expected)
+  })
+
+  it('keeps a newer prefixed cache over the 1.x one', async () => {
+    const newer = { conversations: [], totalCount: 0, lastSyncTime: 9, syncComplete: true }
+    setStorage({ conversationCache: legacy.conversationCache, chatgpt_conversationCache: newer })
+    await migration(1)()
+    expect(getStorage()).toEqual({ chatgpt_conversationCache: newer })
+  })
+
+  it('is harmless to run twice', async () => {
+    setStorage(legacy)
+    await migration(1)()
+    await migration(1)()
+    expect(getStorage()).toEqual(expected)
+  })
+
+  it('finishes on a second run after failing to remove the old keys', async () => {
+    setStorage(legacy)
+    failStorageOnce('remove')
+    await expect(migration(1)()).rejects.toThrow()
+    await migration(1)()
+    expect(getStorage()).toEqual(expected)
+  })
+})
+
+describe('v2: move storage keys into IndexedDB', () => {
+  const legacy = {
+    chatgpt_conversationCache: {
+      conversations: [conversation('c1', 1), conversation('c2', 2)],
+      totalCount: 7,
+      lastSyncTime: 5,
+      syncComplete: true
+    },
+    'claude_org-1_content_index': { c3: { indexedAt: 3, length: 10 } },
+    chatgpt_backup_c1: { ...backup('c1', 'chatgpt') },
+    chatgpt_preview_c2: { messages: [], cachedAt: 4 },
+    indexeddb_migrated: true,
+    settings: { backupBeforeDelete: false }
+  }
+
+  async function expectMoved() {
+    expect((await getConversations('chatgpt')).map(c => c.id).sort()).toEqual(['c1', 'c2'])
+    expect(await getIndexEntries('claude_org-1')).toEqual({ c3: { indexedAt: 3, length: 10 } })
+    expect(await getBackups('chatgpt')).toEqual([backup('c1', 'chatgpt')])
+    expect(await getPreview('chatgpt', 'c2')).toMatchObject({ messages: [], cachedAt: 4 })
+
+    const storage = getStorage()
+    expect(Object.keys(storage).sort()).toEqual(['chatgpt_cacheMeta', 'settings'])
+    // The count is what was moved, not the stale total
+    expect(storage.chatgpt_cacheMeta).toMatchObject({ totalCount: 2, lastSyncTime: 5, syncComplete: true })
+  }
+
+  it('moves caches, index entries, backups and previews and leaves metadata', async () => {
+    setStorage(legacy)
+    await migration(2)()
+    await expectMoved()
+  })
+
+  it('is harmless to run twice', async () => {
+    setStorage(legacy)
+    await migration(2)()
+    await migration(2)()
+    await expectMoved()
+  })
+
+  it('finishes on a second run after failing to remove the moved keys', async () => {
+    setStorage(legacy)
+    failStorageOnce('remove')
+    await expect(migration(2)()).rejects.toThrow()
+    expect(getStorage().chatgpt_conversationCache).toBeDefined()
+
+    await migration(2)()
+    await expectMoved()
+  })
+})
+
+describe('v3: build the inverted index from excerpts', () => {
+  async function seedExcerpts() {
+    await putIndexEntries('chatgpt', {
+      c1: { indexedAt: 10, length: 0, contentText: 'Deploying the service to staging' },
+      c2: { indexedAt: 20, length: 0, contentText: 'Deploy scripts and rollbacks', models: { 'gpt-4o': 1 } }
+    } as never)
+  }
+
+  async function expectIndexed() {
+    const postings = await getPostings('chatgpt', ['deploi', 'stage'])
+    expect(Object.keys(postings.deploi).sort()).toEqual(['c1', 'c2'])
+    expect(postings.deploi.c1.tf).toBe(1)
+    expect(Object.keys(postings.stage)).toEqual(['c1'])
+
+    // Marked stale for the indexer, excerpts gone
+    expect(await getIndexEntry('chatgpt', 'c2')).toEqual({ indexedAt: 0, length: 4, models: { 'gpt-4o': 1 } })
+    expect(await getLegacyIndexEntries()).toEqual([])
+    expect(await getDocumentTexts('chatgpt', ['c1'])).toEqual({ c1: 'Deploying the service to staging' })
+  }
+
+  it('indexes each excerpt and marks the entries for re-indexing', async () => {
+    await seedExcerpts()
+    await migration(3)()
+    await expectIndexed()
+  })
+
+  it('is harmless to run twice', async () => {
+    await seedExcerpts()
+    await migration(3)()
+    await migration(3)()
+    await expectIndexed()
+  })
+
+  it('finishes on a second run after failing halfway', async () => {
+    await seedExcerpts()
+    faults.putIndexedDocumentAfter = 1
+    await expect(migration(3)()).rejects.toThrow('putIndexedDocument failed')
+    expect(await getLegacyIndexEntries()).toHaveLength(1)
+
+    await migration(3)()
+    await expectIndexed()
+  })
+})
+
+describe('v4: re-analyze CJK and full-width text', () => {
+  const cjkText = '机器学习很好'
+  const wideText = 'ＡＰＩ keys'
+  const plainText = 'plain english text'
+
+  // Documents as indexed before CJK support: a CJK run as one word, full-width letters kept
+  async function seedDocuments() {
+    const old = () => ({ tf: 1, pos: [0] })
+    await putIndexedDocument('chatgpt', 'c1', { indexedAt: 10, length: 1 }, cjkText, { [cjkText]: old() })
+    await putIndexedDocument('chatgpt', 'c2', { indexedAt: 20, length: 2 }, wideText, { 'ａｐｉ': old(), key: old() })
+    await putIndexedDocument('chatgpt', 'c3', { indexedAt: 30, length: 3 }, plainText, buildDocument(plainText).terms)
+  }
+
+  async function expectReanalyzed() {
+    const postings = await getPostings('chatgpt', ['机器', '学习', cjkText, 'api', 'ａｐｉ', 'plain'])
+    expect(Object.keys(postings['机器'])).toEqual(['c1'])
+    expect(Object.keys(postings['学习'])).toEqual(['c1'])
+    expect(postings[cjkText]).toEqual({})
+    expect(Object.keys(postings.api)).toEqual(['c2'])
+    expect(postings['ａｐｉ']).toEqual({})
+    expect(Object.keys(postings.plain)).toEqual(['c3'])
+
+    expect(await getIndexEntry('chatgpt', 'c1')).toEqual({ indexedAt: 0, length: 5 })
+    expect(await getIndexEntry('chatgpt', 'c2')).toEqual({ indexedAt: 0, length: 2 })
+    // Text without CJK or full-width characters is left alone
+    expect(await getIndexEntry('chatgpt', 'c3')).toEqual({ indexedAt: 30, length: 3 })
+  }
+
+  it('re-tokenizes affected documents and marks them for re-indexing', async () => {
+    await seedDocuments()
+    await migration(4)()
+    await expectReanalyzed()
+  })
+
+  it('is harmless to run twice', async () => {
+    await seedDocuments()
+    await migration(4)()
+    await migration(4)()
+    await expectReanalyzed()
+  })
+
+  it('finishes on a second run after failing halfway', async () => {
+    await seedDocuments()
+    faults.putIndexedDocumentAfter = 1
+    await expect(migration(4)()).rejects.toThrow('putIndexedDocument failed')
+    expect((await getPostings('chatgpt', ['ａｐｉ']))['ａｐｉ']).toEqual({ c2: { tf: 1, pos: [0] } })
+
+    await migration(4)()
+    await expectReanalyzed()
+  })
+})
+
+describe('v5: restore positions past the first 64', () => {
+  // "alpha" 70 times, then the phrase "alpha omega"
+  const longText = `${'alpha '.repeat(70)}omega`
+  const shortText = 'alpha omega'
+
+  // Documents as indexed with the cap, the first 10 words in the prompt
+  async function seedDocuments() {
+    for (const id of ['c1', 'c2']) {
+      const { length, terms } = buildDocument(longText)
+      terms.alpha = { tf: 70, pos: terms.alpha.pos.slice(0, 64), user: 10 }
+      await putIndexedDocument('chatgpt', id, { indexedAt: 10, length }, longText, terms)
+    }
+    await putIndexedDocument('chatgpt', 'c3', { indexedAt: 30, length: 2 }, shortText, buildDocument(shortText).terms)
+  }
+
+  async function expectRestored() {
+    const { alpha, omega } = await getPostings('chatgpt', ['alpha', 'omega'])
+    for (const id of ['c1', 'c2']) {
+      expect(alpha[id].pos).toHaveLength(70)
+      expect(alpha[id].pos[69] + 1).toBe(omega[id].pos[0])
+      expect(alpha[id].user).toBe(10)
+      // Still indexed: nothing to fetch again
+      expect(await getIndexEntry('chatgpt', id)).toEqual({ indexedAt: 10, length: 71 })
+    }
+    expect(await getIndexEntry('chatgpt', 'c3')).toEqual({ indexedAt: 30, length: 2 })
+  }
+
+  it('rebuilds the positions of documents with capped terms', async () => {
+    await seedDocuments()
+    await migration(5)()
+    await expectRestored()
+  })
+
+  it('is harmless to run twice', async () => {
+    await seedDocuments()
+    await migration(5)()
+    await migration(5)()
+    await expectRestored()
+  })
+
+  it('finishes on a second run after failing halfway', async () => {
+    await seedDocuments()
+    faults.putIndexedDocumentAfter = 1
+    await expect(migration(5)()).rejects.toThrow('putIndexedDocument failed')
+    expect((await getPostings('chatgpt', ['alpha'])).alpha.c2.pos).toHaveLength(64)
+
+    await migration(5)()
+    await expectRestored()
+  })
+})
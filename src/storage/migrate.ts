@@ -0,0 +1,224 @@
+/**
+ * Storage schema migrations
+ * chrome.storage.local records which schema version its data follows; on
+ * install, update and every worker start the migrations above that version
+ * run in order, each stamping its version once done. A migration must be
+ * safe to run again: the worker can stop between its work and the stamp.
+ *
+ * To change a stored shape (PlatformCache, ContentIndex, Backup, ...), add a
+ * migration at the end of MIGRATIONS that rewrites the old shape. IndexedDB
+ * object stores and indexes are versioned separately, in db.ts.
+ */
+
+import type {
+  Backup,
+  ContentIndex,
+  PlatformCache,
+  PlatformCacheMeta,
+  PreviewCache
+} from '../platforms/types'
+import { buildDocument } from '../search/engine'
+import { CJK_PATTERN } from '../search/cjk'
+import {
+  getDocumentKeys,
+  getDocumentTexts,
+  getIndexEntry,
+  getLegacyIndexEntries,
+  getPostings,
+  putBackup,
+  putConversations,
+  putIndexEntries,
+  putIndexedDocument,
+  putPreview
+} from './db'
+
+export const SCHEMA_VERSION_KEY = 'schema_version'
+
+export interface Migration {
+  version: number
+  description: string
+  run: () => Promise<void>
+}
+
+// ==================== Migrations ====================
+
+/**
+ * 1.x kept ChatGPT's data under unprefixed keys; 2.0 prefixed every key with
+ * the platform without moving them
+ */
+async function prefixChatGptKeys(): Promise<void> {
+  const items = await chrome.storage.local.get(null)
+  const updates: Record<string, unknown> = {}
+  const stale: string[] = []
+
+  for (const [key, value] of Object.entries(items)) {
+    if (key.startsWith('backup_')) {
+      const backup = value as Partial<Backup>
+      updates[`chatgpt_${key}`] = { ...backup, platform: backup.platform || 'chatgpt' }
+      stale.push(key)
+    } else if (key === 'conversationCache') {
+      if (!items.chatgpt_conversationCache) updates.chatgpt_conversationCache = value
+      stale.push(key)
+    } else if (key === 'syncProgress' || key === 'syncError') {
+      // Transient; meaningless after an update
+      stale.push(key)
+    }
+  }
+
+  await chrome.storage.local.set(updates)
+  await chrome.storage.local.remove(stale)
+}
+
+// Per-platform key shapes before IndexedDB; the part before the
+// suffix/marker is the storage scope
+const LEGACY_CACHE_SUFFIX = '_conversationCache'
+const LEGACY_INDEX_SUFFIX = '_content_index'
+const LEGACY_BACKUP_MARKER = '_backup_'
+const LEGACY_PREVIEW_MARKER = '_preview_'
+
+/**
+ * Each platform's conversation list and content index were single keys,
+ * and every backup and preview its own key; move them into IndexedDB
+ */
+async function moveToIndexedDb(): Promise<void> {
+  const items = await chrome.storage.local.get(null)
+  const moved: string[] = []
+  const metas: Record<string, PlatformCacheMeta> = {}
+
+  for (const [key, value] of Object.entries(items)) {
+    if (key.endsWith(LEGACY_CACHE_SUFFIX)) {
+      const scope = key.slice(0, -LEGACY_CACHE_SUFFIX.length)
+      const { conversations, ...meta } = value as PlatformCache
+      await putConversations(scope, conversations || [])
+      metas[`${scope}_cacheMeta`] = { ...meta, totalCount: conversations?.length || 0, revision: Date.now() }
+    } else if (key.endsWith(LEGACY_INDEX_SUFFIX)) {
+      await putIndexEntries(key.slice(0, -LEGACY_INDEX_SUFFIX.length), value as ContentIndex)
+    } else if (key.includes(LEGACY_BACKUP_MARKER)) {
+      await putBackup(key.slice(0, key.indexOf(LEGACY_BACKUP_MARKER)), value as Backup)
+    } else if (key.includes(LEGACY_PREVIEW_MARKER)) {
+      const marker = key.indexOf(LEGACY_PREVIEW_MARKER)
+      await putPreview(key.slice(0, marker), key.slice(marker + LEGACY_PREVIEW_MARKER.length), value as PreviewCache)
+    } else {
+      continue
+    }
+    moved.push(key)
+  }
+
+  // Metadata before the removal: the records are upserts, so running again
+  // over the leftovers of an interrupted pass rewrites the same data
+  await chrome.storage.local.set(metas)
+  await chrome.storage.local.remove([...moved, 'indexeddb_migrated'])
+}
+
+/**
+ * Index entries held a 2,000-character excerpt searched by substring; build
+ * postings from it so search keeps working, and mark the entries stale so
+ * the indexer fetches the full text again
+ */
+async function buildInvertedIndex(): Promise<void> {
+  for (const { scope, conversationId, contentText, models } of await getLegacyIndexEntries()) {
+    const { length, terms } = buildDocument(contentText)
+    await putIndexedDocument(scope, conversationId, { indexedAt: 0, length, models }, contentText, terms)
+  }
+}
+
+/**
+ * Until CJK support, a run of CJK characters was indexed as one word (or not
+ * at all past 40 characters) and full-width letters as themselves. Re-analyze
+ * the stored text of documents that have any, one at a time since texts can
+ * be long. Role counts can't be rebuilt from the text, so the entries are
+ * marked stale for the indexer to fetch again.
+ */
+async function reanalyzeCjkDocuments(): Promise<void> {
+  for (const [scope, conversationId] of await getDocumentKeys()) {
+    const text = (await getDocumentTexts(scope, [conversationId]))[conversationId]
+    if (!text || (!CJK_PATTERN.test(text) && text.normalize('NFKC') === text)) continue
+    const entry = await getIndexEntry(scope, conversationId)
+    if (!entry) continue
+
+    const { length, terms } = buildDocument(text)
+    await putIndexedDocument(scope, conversationId, { ...entry, indexedAt: 0, length }, text, terms)
+  }
+}
+
+// Positions the index used to keep per term and conversation
+const LEGACY_MAX_POSITIONS = 64
+
+/**
+ * Terms kept only their first 64 positions, so phrases and CJK words past
+ * them never matched. Rebuild the positions of documents with a term that
+ * occurs more often from the stored text, keeping the role counts, which
+ * the text doesn't have.
+ */
+async function restoreCappedPositions(): Promise<void> {
+  for (const [scope, conversationId] of await getDocumentKeys()) {
+    const text = (await getDocumentTexts(scope, [conversationId]))[conversationId]
+    if (!text) continue
+    const { length, terms } = buildDocument(text)
+    if (!Object.values(terms).some(occurrences => occurrences.pos.length > LEGACY_MAX_POSITIONS)) continue
+    const entry = await getIndexEntry(scope, conversationId)
+    if (!entry) continue
+
+    const postings = await getPostings(scope, Object.keys(terms))
+    for (const [term, occurrences] of Object.entries(terms)) {
+      const user = postings[term]?.[conversationId]?.user
+      if (user) occurrences.user = user
+    }
+    await putIndexedDocument(scope, conversationId, { ...entry, length }, text, terms)
+  }
+}
+
+export const MIGRATIONS: Migration[] = [
+  { version: 1, description: 'Prefix 1.x keys with the chatgpt platform', run: prefixChatGptKeys },
+  { version: 2, description: 'Move caches, indexes, previews and backups to IndexedDB', run: moveToIndexedDb },
+  { version: 3, description: 'Build the full-text search index from content excerpts', run: buildInvertedIndex },
+  { version: 4, description: 'Re-index CJK and full-width text as bigrams and folded forms', run: reanalyzeCjkDocuments },
+  { version: 5, description: 'Restore word positions past the first 64 of each term', run: restoreCappedPositions }
+]
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+// ==================== Runner ====================
+
+export interface MigrationResult {
+  from: number
+  to: number
+  applied: string[]
+}
+
+export async function getSchemaVersion(): Promise<number> {
+  const result = await chrome.storage.local.get(SCHEMA_VERSION_KEY)
+  return (result[SCHEMA_VERSION_KEY] as number | undefined) || 0
+}
+
+let running: Promise<MigrationResult> | null = null
+
+async function applyMigrations(): Promise<MigrationResult> {
+  const from = await getSchemaVersion()
+  const applied: string[] = []
+  let version = from
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= version) continue
+    await migration.run()
+    version = migration.version
+    await chrome.storage.local.set({ [SCHEMA_VERSION_KEY]: version })
+    applied.push(migration.description)
+  }
+
+  return { from, to: version, applied }
+}
+
+/**
+ * Bring stored data up to SCHEMA_VERSION. Concurrent callers share one run;
+ * a failed run rejects and is retried by the next call.
+ */
+export function runMigrations(): Promise<MigrationResult> {
+  if (!running) {
+    running = applyMigrations().catch(err => {
+      running = null
+      throw err
+    })
+  }
+  return running
+}
@@ -0,0 +1,168 @@
+/**
+ * Storage usage and purging
+ * Sizes are grouped by platform and category across IndexedDB and
+ * chrome.storage.local, so the diagnostics panel can show where space goes.
+ */
+
+import {
+  getScopePlatform,
+  DIAGNOSTICS_LOGS_KEY,
+  SCHEMA_DRIFT_KEY
+} from '../platforms/types'
+import type { PlatformType } from '../platforms/types'
+import { deleteMatchingScopes, measureStore } from './db'
+import type { StoreName } from './db'
+
+export type StorageCategory = 'cache' | 'index' | 'previews' | 'backups' | 'logs'
+
+export const STORAGE_CATEGORIES: StorageCategory[] = ['cache', 'index', 'previews', 'backups', 'logs']
+
+// Above this share of a quota the panel and the diagnostics log warn
+export const STORAGE_WARNING_RATIO = 0.8
+
+export interface CategoryUsage {
+  count: number
+  bytes: number
+}
+
+export interface QuotaUsage {
+  usage: number
+  quota: number
+}
+
+export interface StorageUsage {
+  // Platform -> category; '' holds data shared by all platforms (logs)
+  platforms: Record<string, Partial<Record<StorageCategory, CategoryUsage>>>
+  other: number                  // Settings, tokens and jobs; not purgeable
+  quotas: {
+    indexedDb: QuotaUsage | null // null where the estimate is unavailable
+    extensionStorage: QuotaUsage
+  }
+}
+
+const STORE_CATEGORIES: Record<StoreName, StorageCategory> = {
+  conversations: 'cache',
+  previews: 'previews',
+  indexEntries: 'index',
+  backups: 'backups',
+  documents: 'index',
+  occurrences: 'index'
+}
+
+// chrome.storage.local keys of a scope, by the suffix after the scope
+const KEY_SUFFIX_CATEGORIES: Record<string, StorageCategory> = {
+  _cacheMeta: 'cache',
+  _syncProgress: 'cache',
+  _syncError: 'cache',
+  _indexRevision: 'index',
+  _index_progress: 'index'
+}
+
+const LOG_KEYS = [DIAGNOSTICS_LOGS_KEY, SCHEMA_DRIFT_KEY]
+
+/**
+ * Category and platform of a chrome.storage.local key, if it is purgeable
+ */
+function classifyKey(key: string): { category: StorageCategory; platform: string } | null {
+  if (LOG_KEYS.includes(key)) return { category: 'logs', platform: '' }
+  for (const [suffix, category] of Object.entries(KEY_SUFFIX_CATEGORIES)) {
+    if (key.endsWith(suffix)) {
+      return { category, platform: getScopePlatform(key.slice(0, -suffix.length)) }
+    }
+  }
+  return null
+}
+
+function addUsage(usage: StorageUsage, platform: string, category: StorageCategory, count: number, bytes: number) {
+  const categories = usage.platforms[platform] || (usage.platforms[platform] = {})
+  const entry = categories[category] || (categories[category] = { count: 0, bytes: 0 })
+  entry.count += count
+  entry.bytes += bytes
+}
+
+export async function getStorageQuotas(): Promise<StorageUsage['quotas']> {
+  let indexedDb: QuotaUsage | null = null
+  try {
+    const estimate = await navigator.storage.estimate()
+    if (estimate.quota) indexedDb = { usage: estimate.usage || 0, quota: estimate.quota }
+  } catch {
+    // Not available in this context
+  }
+  return {
+    indexedDb,
+    extensionStorage: {
+      usage: await chrome.storage.local.getBytesInUse(null),
+      quota: chrome.storage.local.QUOTA_BYTES
+    }
+  }
+}
+
+/**
+ * Quotas above STORAGE_WARNING_RATIO, by name
+ */
+export function getQuotaWarnings(quotas: StorageUsage['quotas']): string[] {
+  const warnings: string[] = []
+  const check = (name: string, quota: QuotaUsage | null) => {
+    if (quota && quota.usage / quota.quota > STORAGE_WARNING_RATIO) warnings.push(name)
+  }
+  check('IndexedDB', quotas.indexedDb)
+  check('Extension storage', quotas.extensionStorage)
+  return warnings
+}
+
+/**
+ * Measure everything the extension stores. Walks every record, so it is
+ * meant for the diagnostics panel, not for hot paths.
+ */
+export async function getStorageUsage(): Promise<StorageUsage> {
+  const usage: StorageUsage = {
+    platforms: {},
+    other: 0,
+    quotas: await getStorageQuotas()
+  }
+
+  for (const [store, category] of Object.entries(STORE_CATEGORIES) as [StoreName, StorageCategory][]) {
+    const byScope = await measureStore(store)
+    for (const [scope, { count, bytes }] of Object.entries(byScope)) {
+      addUsage(usage, getScopePlatform(scope), category, count, bytes)
+    }
+  }
+
+  // Same estimate as chrome.storage: key plus serialized value
+  const items = await chrome.storage.local.get(null)
+  for (const [key, value] of Object.entries(items)) {
+    const bytes = key.length + JSON.stringify(value).length
+    const owner = classifyKey(key)
+    if (owner) {
+      addUsage(usage, owner.platform, owner.category, 0, bytes)
+    } else {
+      usage.other += bytes
+    }
+  }
+
+  return usage
+}
+
+/**
+ * Delete the given categories, for one platform or for all of them.
+ * Logs are shared and are purged whatever the platform.
+ * Callers stop jobs that write the purged data first.
+ */
+export async function purgeStorage(categories: StorageCategory[], platform?: PlatformType): Promise<void> {
+  const matches = (owner: string) => !platform || owner === platform
+
+  const stores = (Object.entries(STORE_CATEGORIES) as [StoreName, StorageCategory][])
+    .filter(([, category]) => categories.includes(category))
+    .map(([store]) => store)
+  if (stores.length > 0) {
+    await deleteMatchingScopes(stores, scope => matches(getScopePlatform(scope)))
+  }
+
+  const items = await chrome.storage.local.get(null)
+  const keys = Object.keys(items).filter(key => {
+    const owner = classifyKey(key)
+    if (!owner || !categories.includes(owner.category)) return false
+    return owner.category === 'logs' || matches(owner.platform)
+  })
+  await chrome.storage.local.remove(keys)
+}
@@ -0,0 +1,88 @@
+/**
+ * Test environment
+ * IndexedDB comes from fake-indexeddb; chrome.storage.local is an in-memory
+ * map that a test can make fail once, to stop a migration halfway.
+ */
+
+import 'fake-indexeddb/auto'
+import { beforeEach } from 'vitest'
+
+type StorageMethod = 'get' | 'set' | 'remove'
+
+let items: Record<string, unknown> = {}
+const failures = new Set<StorageMethod>()
+
+function takeFailure(method: StorageMethod) {
+  if (!failures.delete(method)) return
+  throw new Error(`chrome.storage.local.${method} failed`)
+}
+
+const local = {
+  async get(keys?: string | string[] | null): Promise<Record<string, unknown>> {
+    takeFailure('get')
+    const wanted = keys === null || keys === undefined ? Object.keys(items) : Array.isArray(keys) ? keys : [keys]
+    return structuredClone(Object.fromEntries(wanted.filter(key => key in items).map(key => [key, items[key]])))
+  },
+  async set(updates: Record<string, unknown>): Promise<void> {
+    takeFailure('set')
+    Object.assign(items, structuredClone(updates))
+  },
+  async remove(keys: string | string[]): Promise<void> {
+    takeFailure('remove')
+    for (const key of Array.isArray(keys) ? keys : [keys]) delete items[key]
+  }
+}
+
+;(globalThis as unknown as { chrome: unknown }).chrome = { storage: { local } }
+
+/**
+ * Everything in chrome.storage.local, or replace it
+ */
+export function getStorage(): Record<string, unknown> {
+  return structuredClone(items)
+}
+
+export function setStorage(next: Record<string, unknown>) {
+  items = structuredClone(next)
+}
+
+/**
+ * Make the next call of a chrome.storage.local method throw
+ */
+export function failStorageOnce(method: StorageMethod) {
+  failures.add(method)
+}
+
+const DB_NAME = 'ai-chat-manager'
+
+/**
+ * Empty every object store. db.ts keeps its connection open, so the
+ * database is cleared rather than deleted.
+ */
+async function clearDatabase(): Promise<void> {
+  // Opening a missing database would create it without db.ts's stores
+  const databases = await indexedDB.databases()
+  if (!databases.some(info => info.name === DB_NAME)) return
+
+  const db = await new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+  const names = Array.from(db.objectStoreNames)
+  if (names.length > 0) {
+    const tx = db.transaction(names, 'readwrite')
+    names.forEach(name => tx.objectStore(name).clear())
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve()
+      tx.onerror = () => reject(tx.error)
+    })
+  }
+  db.close()
+}
+
+beforeEach(async () => {
+  items = {}
+  failures.clear()
+  await clearDatabase()
+})